@@ -1,6 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BookConfig, BookData, Chapter, GenerationStatus, BookFormat } from './types';
-import * as GeminiService from './services/geminiService';
+import { BookConfig, BookData, Chapter, ChapterDigest, ChapterVersionSource, Figure, GenerationJob, GenerationStatus, BookFormat, Grounding } from './types';
+import * as AIService from './services/aiService';
+import * as ProjectStore from './services/projectStore';
+import * as ProjectFile from './services/projectFile';
+import { PipelineOptions, runGenerationPipeline } from './services/generationPipeline';
+import { applyChapterChange, revertToVersion } from './services/chapterHistory';
+import { mergeGrounding } from './services/citations';
+import { applyOutline, setAsideOutline } from './services/outlineVariants';
+import { placeFigures } from './services/figures';
+import { createId } from './services/ids';
 import { 
   Sparkles, 
   BookOpen, 
@@ -14,11 +22,24 @@ import {
   RefreshCw,
   Key,
   User,
-  LayoutTemplate
+  LayoutTemplate,
+  Upload,
+  Pause,
+  Square,
+  Columns3,
+  Images
 } from './components/Icons';
 import BookReader from './components/BookReader';
 import { OutlineSkeleton } from './components/Skeleton';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { BookBibleEditor } from './components/BookBibleEditor';
+import { ReferenceDocsPanel } from './components/ReferenceDocsPanel';
+import { StyleProfileEditor } from './components/StyleProfileEditor';
+import { OutlineEditor } from './components/OutlineEditor';
+import { OutlineVariantsModal } from './components/OutlineVariantsModal';
+import { classifyError, DEFAULT_PROVIDER_SETTINGS, describeError } from './services/providers';
 
 const INITIAL_CONFIG: BookConfig = {
   topic: '',
@@ -29,7 +50,41 @@ const INITIAL_CONFIG: BookConfig = {
   enableSearch: true,
   style: 'Modern Minimalist',
   chapterCount: 5,
-  format: 'ebook'
+  format: 'ebook',
+  provider: DEFAULT_PROVIDER_SETTINGS
+};
+
+// Autosave is debounced while typing/streaming, but never deferred longer than the max wait.
+const AUTOSAVE_DEBOUNCE_MS = 800;
+const AUTOSAVE_MAX_WAIT_MS = 5000;
+
+// Settings edited on the review screen live on the book's config, not the
+// form's, so a regenerated outline keeps them
+const withProjectSettings = (config: BookConfig, previous?: BookConfig): BookConfig => previous ? {
+  ...config,
+  provider: previous.provider ?? config.provider,
+  bible: previous.bible,
+  referenceDocs: previous.referenceDocs,
+  styleProfile: previous.styleProfile,
+} : config;
+
+const JOB_BADGE_STYLES: Record<GenerationJob['status'], string> = {
+  queued: 'bg-surface-100 text-slate-400',
+  running: 'bg-primary-50 text-primary-600',
+  done: 'bg-green-50 text-green-600',
+  failed: 'bg-red-50 text-red-500',
+};
+
+// One step of a chapter (text or illustration) in the generation progress list
+const JobBadge: React.FC<{ icon: React.ElementType; status?: GenerationJob['status']; runningLabel: string }> = ({ icon: Icon, status, runningLabel }) => {
+  if (!status) return null;
+  return (
+    <div className={`px-2 py-1 rounded-md flex items-center gap-1.5 ${JOB_BADGE_STYLES[status]}`}>
+      <Icon className="w-3 h-3" />
+      {status === 'running' && <span className="text-[10px] font-bold uppercase tracking-wider animate-pulse">{runningLabel}</span>}
+      {status === 'queued' && <span className="text-[10px] font-bold uppercase tracking-wider">Queued</span>}
+    </div>
+  );
 };
 
 const App: React.FC = () => {
@@ -38,33 +93,87 @@ const App: React.FC = () => {
   const [bookData, setBookData] = useState<BookData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
+  const [isVariantsOpen, setIsVariantsOpen] = useState(false);
+
+  // Project library
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [readerChapterIndex, setReaderChapterIndex] = useState(-1);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const projectCreatedAtRef = useRef<Date>(new Date());
+  const lastSavedAtRef = useRef(0);
   
   // Progress tracking
-  const [generationProgress, setGenerationProgress] = useState<{current: number, total: number, message: string}>({
-    current: 0, 
-    total: 0,
+  const [generationProgress, setGenerationProgress] = useState<{jobs: GenerationJob[], message: string}>({
+    jobs: [],
     message: ''
   });
 
-  const scrollRef = useRef<HTMLDivElement>(null);
+  // The running full-book generation; aborted with 'pause' or 'cancel'
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const bookDataRef = useRef(bookData);
+  bookDataRef.current = bookData;
+
+  const persistProject = (id: string, book: BookData, projectStatus: GenerationStatus, chapterIndex: number) => {
+    lastSavedAtRef.current = Date.now();
+    return ProjectStore.saveProject({
+      id,
+      book,
+      status: projectStatus,
+      lastChapterIndex: chapterIndex,
+      createdAt: projectCreatedAtRef.current,
+      updatedAt: new Date()
+    }).catch(e => console.error("Autosave failed", e));
+  };
+
+  // Autosave every change to the open project
+  useEffect(() => {
+    if (!projectId || !bookData) return;
+    const sinceLastSave = Date.now() - lastSavedAtRef.current;
+    const delay = Math.max(0, Math.min(AUTOSAVE_DEBOUNCE_MS, AUTOSAVE_MAX_WAIT_MS - sinceLastSave));
+    const timer = setTimeout(() => persistProject(projectId, bookData, status, readerChapterIndex), delay);
+    return () => clearTimeout(timer);
+  }, [projectId, bookData, status, readerChapterIndex]);
 
   const handleConfigChange = (key: keyof BookConfig, value: any) => {
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  const searchAvailable = AIService.providerSupportsSearch(config);
+  const jobsById = new Map(generationProgress.jobs.map(job => [job.id, job]));
+  const finishedJobs = generationProgress.jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+  const runningJobs = generationProgress.jobs.filter(job => job.status === 'running').length;
+  const coverJob = jobsById.get('cover');
+  const isChapterBusy = !!bookData?.outline.some(c => c.status === 'generating_text' || c.status === 'generating_image');
+
+  // Retries finish out of step with renders, so the book is marked complete
+  // from the latest state once they have brought every chapter in. A missing
+  // cover keeps it open for Resume, as chapter retries don't draw the cover.
+  useEffect(() => {
+    const coverMissing = !!bookData && !bookData.coverImage && AIService.providerSupportsImages(bookData.config);
+    if (status === GenerationStatus.ERROR && !coverMissing && bookData?.outline.length && bookData.outline.every(c => c.status === 'completed')) {
+      setStatus(GenerationStatus.COMPLETED);
+    }
+  }, [status, bookData]);
+
   const startOutlineGeneration = async () => {
     if (!config.topic) return;
     setStatus(GenerationStatus.GENERATING_OUTLINE);
     setError(null);
+    if (!projectId) {
+      projectCreatedAtRef.current = new Date();
+      setProjectId(ProjectStore.createProjectId());
+    }
     try {
-      const outlineData = await GeminiService.generateBookOutline(config);
+      const outlineData = await AIService.generateBookOutline(withProjectSettings(config, bookData?.config), requestOptions());
       
       if (!outlineData.chapters) {
           throw new Error("Invalid response format: Chapters missing");
       }
 
-      const chapters: Chapter[] = outlineData.chapters.map((c, i) => ({
-        id: `chap-${i}`,
+      // Ids stay unique across outlines, which share a project once set aside
+      const chapters: Chapter[] = outlineData.chapters.map(c => ({
+        id: createId('chap'),
         ...c,
         status: 'pending'
       }));
@@ -72,168 +181,231 @@ const App: React.FC = () => {
       // If AI didn't provide a title, use the one from config or fallback
       const finalTitle = outlineData.title || config.title || config.topic;
 
-      setBookData({
-        config: { ...config, title: finalTitle },
+      // A regenerated outline sets the previous one aside with the other variants
+      setBookData(prev => ({
+        config: withProjectSettings({ ...config, title: finalTitle }, prev?.config),
+        parts: outlineData.parts.length ? outlineData.parts : undefined,
         outline: chapters,
+        outlineVariants: prev?.outline.length ? [...(prev.outlineVariants || []), setAsideOutline(prev)] : prev?.outlineVariants,
         generatedAt: new Date()
-      });
+      }));
       setStatus(GenerationStatus.REVIEWING_OUTLINE);
     } catch (e: any) {
-      setError(e.message || "Failed to generate outline.");
+      handleFatalError(e, "Failed to generate outline.");
       setStatus(GenerationStatus.IDLE);
-      if (e.message.includes("API Key")) {
-        setIsApiKeyModalOpen(true);
-      }
     }
   };
 
-  const handleUpdateChapter = (index: number, field: 'title' | 'description', value: string) => {
-    if (!bookData) return;
-    const newOutline = [...bookData.outline];
-    newOutline[index] = { ...newOutline[index], [field]: value };
-    setBookData({ ...bookData, outline: newOutline });
+  // Reader changes merge into the latest state, since AI results arrive
+  // after the render that requested them
+  const updateChapterWith = (chapterId: string, update: (chapter: Chapter) => Chapter) => {
+    setBookData(prev => prev ? ({
+      ...prev,
+      outline: prev.outline.map(c => c.id === chapterId ? update(c) : c)
+    }) : null);
   };
 
-  const handleAddChapter = () => {
-    if (!bookData) return;
-    const newChapter: Chapter = {
-      id: `chap-${bookData.outline.length}-${Date.now()}`,
-      title: 'New Chapter',
-      description: 'Description of the new chapter',
-      status: 'pending'
-    };
-    setBookData({ ...bookData, outline: [...bookData.outline, newChapter] });
+  const handleUpdateBookContent = (chapterId: string, newContent: string, source: ChapterVersionSource, grounding?: Grounding) => {
+    updateChapterWith(chapterId, c => {
+      // Figure placeholders in rewritten or hand-edited text become figures too
+      const { content, figures } = placeFigures(newContent, c.figures);
+      const updated = { ...applyChapterChange(c, { content }, source), figures };
+      // Sources of text that is gone again simply stop being cited
+      return grounding ? { ...updated, grounding: mergeGrounding(c.grounding, grounding) } : updated;
+    });
   };
 
-  const handleRemoveChapter = (index: number) => {
-    if (!bookData) return;
-    const newOutline = bookData.outline.filter((_, i) => i !== index);
-    setBookData({ ...bookData, outline: newOutline });
+  const handleUpdateBookDigest = (chapterId: string, digest: ChapterDigest) => {
+    updateChapterWith(chapterId, c => ({ ...c, digest }));
   };
 
-  const handleUpdateBookContent = (chapterId: string, newContent: string) => {
-    if (!bookData) return;
-    const newOutline = bookData.outline.map(c => 
-      c.id === chapterId ? { ...c, content: newContent } : c
-    );
-    setBookData({ ...bookData, outline: newOutline });
+  const handleUpdateBookImage = (chapterId: string, newImageUrl: string, source: ChapterVersionSource, imagePrompt?: string) => {
+    updateChapterWith(chapterId, c => ({
+      ...applyChapterChange(c, { imageUrl: newImageUrl }, source),
+      imagePrompt: imagePrompt ?? c.imagePrompt,
+    }));
+  };
+
+  const handleUpdateFigure = (chapterId: string, figureId: string, patch: Partial<Figure>) => {
+    updateChapterWith(chapterId, c => ({ ...c, figures: c.figures?.map(f => f.id === figureId ? { ...f, ...patch } : f) }));
   };
 
-  const handleUpdateBookImage = (chapterId: string, newImageUrl: string) => {
-     if (!bookData) return;
-     const newOutline = bookData.outline.map(c => 
-       c.id === chapterId ? { ...c, imageUrl: newImageUrl } : c
-     );
-     setBookData({ ...bookData, outline: newOutline });
+  const handleRevertChapter = (chapterId: string, versionId: string) => {
+    updateChapterWith(chapterId, c => revertToVersion(c, versionId));
+  };
+
+
+  const requestOptions = (signal?: AbortSignal): AIService.RequestOptions => ({
+    projectId: projectId || undefined,
+    signal,
+    onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+      setGenerationProgress(prev => ({
+        ...prev,
+        message: `${error.label}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${maxAttempts})...`
+      }));
+    }
+  });
+
+  const updateChapter = (chapterId: string, patch: Partial<Chapter>) => {
+    setBookData(prev => prev ? ({
+      ...prev,
+      outline: prev.outline.map(c => c.id === chapterId ? { ...c, ...patch } : c)
+    }) : null);
   };
 
+  // Jobs from a single-chapter retry are merged into the list of the last run
+  const pipelineOptions = (signal?: AbortSignal, chapterIds?: string[]): PipelineOptions => ({
+    request: requestOptions(signal),
+    chapterIds,
+    onJobs: jobs => setGenerationProgress(prev => ({
+      ...prev,
+      jobs: [...prev.jobs.filter(j => !jobs.some(job => job.id === j.id)), ...jobs]
+    })),
+    onChapter: updateChapter,
+    onCover: coverImage => setBookData(prev => prev ? ({ ...prev, coverImage }) : null),
+  });
+
+  const handleFatalError = (e: unknown, fallback: string) => {
+    const error = classifyError(e);
+    setError(describeError(error) || fallback);
+    if (error.kind === 'auth') {
+      setIsApiKeyModalOpen(true);
+    }
+  };
 
   const startFullGeneration = async () => {
     if (!bookData) return;
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
     setStatus(GenerationStatus.GENERATING_BOOK);
-    
-    // Total steps: Cover + (Chapters * 2 [Text + Image])
-    const totalSteps = 1 + (bookData.outline.length * 2);
-    let completedSteps = 0;
-
-    const updateProgress = (msg: string) => {
-      setGenerationProgress({
-        current: completedSteps,
-        total: totalSteps,
-        message: msg
-      });
-    };
+    setError(null);
+    setGenerationProgress({ jobs: [], message: '' });
 
     try {
-      // 1. Generate Cover
-      if (!bookData.coverImage) {
-        updateProgress("Designing book cover...");
-        try {
-          const coverUrl = await GeminiService.generateBookCover(bookData.config.title, bookData.config.style, bookData.config.format);
-          setBookData(prev => prev ? ({ ...prev, coverImage: coverUrl }) : null);
-        } catch (e) {
-          console.error("Cover generation failed", e);
-        }
+      const { failedChapters, coverFailed } = await runGenerationPipeline(bookData, pipelineOptions(controller.signal));
+      if (failedChapters > 0 || coverFailed) {
+        const unit = bookData.config.format === 'linkedin-carousel' ? 'slides' : 'chapters';
+        const message = [
+          failedChapters > 0 ? `${failedChapters} of ${bookData.outline.length} ${unit} failed.` : '',
+          coverFailed ? "The cover failed; Resume draws it again." : '',
+        ].filter(Boolean).join(' ');
+        setGenerationProgress(prev => ({ ...prev, message }));
+        setStatus(GenerationStatus.ERROR);
+      } else {
+        setStatus(GenerationStatus.COMPLETED);
+      }
+    } catch (e: any) {
+      if (controller.signal.aborted) {
+        // Pause/cancel already set the status; cancelling also drops the
+        // chapters that were cut off, now that their last update has landed
+        if (controller.signal.reason === 'cancel') discardPartialText();
+        return;
       }
-      completedSteps++;
+      handleFatalError(e, "Generation failed midway.");
+      setStatus(GenerationStatus.ERROR);
+    } finally {
+      if (generationControllerRef.current === controller) generationControllerRef.current = null;
+    }
+  };
 
-      // 2. Generate Chapters sequentially
-      const newOutline = [...bookData.outline];
-      
-      for (let i = 0; i < newOutline.length; i++) {
-        const chapter = newOutline[i];
-        
-        // Skip completed chapters if resuming
-        if (chapter.status === 'completed' && chapter.content && chapter.imageUrl) {
-          completedSteps += 2;
-          continue;
-        }
-
-        // Update status to generating text
-        newOutline[i] = { ...chapter, status: 'generating_text' };
-        setBookData(prev => prev ? ({ ...prev, outline: [...newOutline] }) : null);
-        
-        // Scroll to keep progress in view
-        if(scrollRef.current) {
-            scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-        }
+  const discardPartialText = () => {
+    setBookData(prev => prev ? ({
+      ...prev,
+      outline: prev.outline.map(c => c.partial && c.status === 'pending' ? { ...c, content: undefined, partial: undefined } : c)
+    }) : null);
+  };
 
-        updateProgress(`Writing Chapter ${i + 1}: ${chapter.title}...`);
-        
-        const prevContext = i > 0 ? newOutline[i-1].description : undefined; 
-
-        // STREAMING TEXT GENERATION
-        let fullText = "";
-        try {
-          const stream = GeminiService.generateChapterContentStream(
-            chapter, 
-            bookData.config.title, 
-            bookData.config,
-            prevContext
-          );
-
-          for await (const chunk of stream) {
-            fullText += chunk;
-            newOutline[i] = { ...newOutline[i], content: fullText };
-            setBookData(prev => prev ? ({ ...prev, outline: [...newOutline] }) : null);
-          }
-        } catch (streamError) {
-          console.error("Stream error", streamError);
-          fullText = fullText || "*Error generating text. Please try regenerating.*";
-        }
-
-        newOutline[i] = { ...newOutline[i], status: 'generating_image', content: fullText };
-        setBookData(prev => prev ? ({ ...prev, outline: [...newOutline] }) : null);
-        completedSteps++;
-        updateProgress(`Illustrating Chapter ${i + 1}...`);
-
-        try {
-          const imageUrl = await GeminiService.generateChapterIllustration(chapter.title, bookData.config.style, bookData.config.format);
-          newOutline[i] = { ...newOutline[i], imageUrl, status: 'completed' };
-        } catch (e) {
-           console.error(`Image for chap ${i} failed`, e);
-           newOutline[i] = { ...newOutline[i], status: 'completed' };
-        }
-        
-        setBookData(prev => prev ? ({ ...prev, outline: [...newOutline] }) : null);
-        completedSteps++;
-      }
+  // Completed chapters and the text streamed so far are kept for Resume.
+  const pauseGeneration = () => {
+    generationControllerRef.current?.abort('pause');
+    setStatus(GenerationStatus.PAUSED);
+    setGenerationProgress(prev => ({ ...prev, message: "Paused. Finished chapters and partial text are kept." }));
+  };
 
-      setStatus(GenerationStatus.COMPLETED);
+  // Stops the run and returns to the outline. Completed chapters are kept.
+  const cancelGeneration = () => {
+    const controller = generationControllerRef.current;
+    if (controller) {
+      controller.abort('cancel');
+    } else {
+      discardPartialText();
+    }
+    setStatus(GenerationStatus.REVIEWING_OUTLINE);
+  };
+
+  const retryChapter = async (index: number) => {
+    // The latest book, not this render's, so chapters finished since are kept
+    const book = bookDataRef.current;
+    if (!book) return;
+    const chapter = book.outline[index];
+    setError(null);
+    try {
+      const { failedChapters } = await runGenerationPipeline(book, pipelineOptions(undefined, [chapter.id]));
+      if (failedChapters > 0) return;
+      setGenerationProgress(prev => ({ ...prev, message: `${chapter.title} is done.` }));
+    } catch (e) {
+      handleFatalError(e, "Retry failed.");
+    }
+  };
+
+  const openProject = async (id: string) => {
+    try {
+      const record = await ProjectStore.loadProject(id);
+      if (!record) throw new Error("Project not found.");
+      const project = ProjectStore.normalizeForReopen(record);
+
+      projectCreatedAtRef.current = project.createdAt;
+      lastSavedAtRef.current = Date.now();
+      setProjectId(project.id);
+      setConfig(project.book.config);
+      setBookData(project.book);
+      setReaderChapterIndex(project.lastChapterIndex);
+      setStatus(project.status);
+      setError(null);
     } catch (e: any) {
-      setError(e.message || "Generation failed midway.");
-      setStatus(GenerationStatus.ERROR);
-      if (e.message.includes("API Key")) {
-        setIsApiKeyModalOpen(true);
-      }
+      setError(e.message || "Failed to open project.");
     }
   };
 
-  const reset = () => {
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const book = await ProjectFile.importProjectFile(file);
+      const importedStatus = book.outline.some(c => c.content)
+        ? GenerationStatus.COMPLETED
+        : GenerationStatus.REVIEWING_OUTLINE;
+      const id = ProjectStore.createProjectId();
+
+      projectCreatedAtRef.current = new Date();
+      await persistProject(id, book, importedStatus, -1);
+      setProjectId(id);
+      setConfig(book.config);
+      setBookData(book);
+      setReaderChapterIndex(-1);
+      setStatus(importedStatus);
+      setError(null);
+    } catch (err: any) {
+      console.error("Project import failed", err);
+      setError(err.message || "Failed to import project file.");
+    }
+  };
+
+  const reset = async () => {
+    generationControllerRef.current?.abort('pause');
+    // Flush any pending autosave before leaving the project
+    if (projectId && bookData) {
+      await persistProject(projectId, bookData, status, readerChapterIndex);
+    }
     setStatus(GenerationStatus.IDLE);
     setBookData(null);
     setConfig(INITIAL_CONFIG);
     setError(null);
+    setProjectId(null);
+    setReaderChapterIndex(-1);
+    setLibraryRefreshKey(k => k + 1);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
@@ -244,6 +416,13 @@ const App: React.FC = () => {
         onBack={() => setStatus(GenerationStatus.REVIEWING_OUTLINE)}
         onUpdateContent={handleUpdateBookContent}
         onUpdateImage={handleUpdateBookImage}
+        onUpdateFigure={handleUpdateFigure}
+        onUpdateDigest={handleUpdateBookDigest}
+        onRevertVersion={handleRevertChapter}
+        onRestructure={(outline, parts) => setBookData(prev => prev && { ...prev, outline, parts })}
+        initialChapterIndex={readerChapterIndex}
+        onChapterChange={setReaderChapterIndex}
+        projectId={projectId || undefined}
       />
     );
   }
@@ -252,6 +431,20 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-50 font-sans selection:bg-primary-100 selection:text-primary-900 flex flex-col">
       <ApiKeyModal isOpen={isApiKeyModalOpen} onClose={() => setIsApiKeyModalOpen(false)} />
 
+      {isVariantsOpen && bookData && (
+        <OutlineVariantsModal
+          book={bookData}
+          projectId={projectId || undefined}
+          onSaveVariant={(variant) => setBookData(prev => prev && { ...prev, outlineVariants: [...(prev.outlineVariants || []), variant] })}
+          onDeleteVariant={(id) => setBookData(prev => prev && { ...prev, outlineVariants: prev.outlineVariants?.filter(v => v.id !== id) })}
+          onApply={(next, baseVariantId) => {
+            setBookData(prev => prev && applyOutline(prev, next, baseVariantId));
+            setIsVariantsOpen(false);
+          }}
+          onClose={() => setIsVariantsOpen(false)}
+        />
+      )}
+
       {/* Modern Header */}
       <header className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${status === GenerationStatus.IDLE ? 'bg-transparent py-6' : 'bg-white/80 backdrop-blur-md border-b border-surface-200 py-4'}`}>
         <div className="max-w-6xl mx-auto px-6 flex items-center justify-between">
@@ -297,7 +490,7 @@ const App: React.FC = () => {
                 {error.includes("API Key") ? (
                    <button onClick={() => setIsApiKeyModalOpen(true)} className="text-xs font-bold text-primary-600 hover:text-primary-700 uppercase tracking-wider">Add Key</button>
                 ) : (
-                   <button onClick={() => setStatus(GenerationStatus.IDLE)} className="text-xs font-bold text-slate-400 hover:text-slate-600 uppercase tracking-wider">Dismiss</button>
+                   <button onClick={() => setError(null)} className="text-xs font-bold text-slate-400 hover:text-slate-600 uppercase tracking-wider">Dismiss</button>
                 )}
             </div>
           </div>
@@ -441,24 +634,37 @@ const App: React.FC = () => {
                      </div>
                   </div>
 
+                  <ProviderSettingsPanel
+                    value={config.provider || DEFAULT_PROVIDER_SETTINGS}
+                    onChange={(provider) => handleConfigChange('provider', provider)}
+                  />
+
                   {/* Grounding Toggle */}
-                  <div className="flex items-center justify-between p-4 rounded-xl bg-surface-50 border border-surface-200">
+                  <div className={`flex items-center justify-between p-4 rounded-xl bg-surface-50 border border-surface-200 ${searchAvailable ? '' : 'opacity-60'}`}>
                      <div className="flex gap-3">
                        <div className="mt-1">
-                          <CheckCircle className={`w-5 h-5 ${config.enableSearch ? 'text-primary-600' : 'text-slate-300'}`} />
+                          <CheckCircle className={`w-5 h-5 ${config.enableSearch && searchAvailable ? 'text-primary-600' : 'text-slate-300'}`} />
                        </div>
                        <div>
                          <h4 className="font-bold text-slate-700 text-sm">Google Grounding</h4>
-                         <p className="text-xs text-slate-500">Enrich content with live search data</p>
+                         <p className="text-xs text-slate-500">
+                           {searchAvailable ? 'Enrich content with live search data' : 'Not available with this AI provider'}
+                         </p>
                        </div>
                      </div>
                      <button
                         onClick={() => handleConfigChange('enableSearch', !config.enableSearch)}
-                        className={`w-12 h-6 rounded-full transition-colors relative ${config.enableSearch ? 'bg-primary-600' : 'bg-slate-300'}`}
+                        disabled={!searchAvailable}
+                        className={`w-12 h-6 rounded-full transition-colors relative disabled:cursor-not-allowed ${config.enableSearch && searchAvailable ? 'bg-primary-600' : 'bg-slate-300'}`}
                      >
-                       <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform shadow-sm ${config.enableSearch ? 'left-[calc(100%-1.25rem)]' : 'left-1'}`} />
+                       <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform shadow-sm ${config.enableSearch && searchAvailable ? 'left-[calc(100%-1.25rem)]' : 'left-1'}`} />
                      </button>
                   </div>
+
+                  <ReferenceDocsPanel
+                    value={config.referenceDocs}
+                    onChange={(referenceDocs) => handleConfigChange('referenceDocs', referenceDocs)}
+                  />
                   
                   {/* Primary Action */}
                   <div className="pt-4">
@@ -475,6 +681,25 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            <div className="flex justify-center mt-6">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${ProjectFile.PROJECT_FILE_EXTENSION},application/zip,application/json`}
+                onChange={handleImportProject}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-primary-600 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Open a project file ({ProjectFile.PROJECT_FILE_EXTENSION})</span>
+              </button>
+            </div>
+
+            <ProjectLibrary onOpen={openProject} refreshKey={libraryRefreshKey} />
           </div>
         )}
 
@@ -501,6 +726,14 @@ const App: React.FC = () => {
                    <h2 className="text-3xl font-display font-bold text-slate-800">Review Outline</h2>
                    <p className="text-slate-500">Customize your structure before we write.</p>
                 </div>
+                <button
+                  onClick={() => setIsVariantsOpen(true)}
+                  className="px-4 py-2.5 bg-white border border-surface-200 text-slate-700 text-sm font-bold rounded-xl hover:bg-surface-50 transition-colors shadow-sm flex items-center gap-2"
+                  title="Generate alternative outlines and pick chapters from them"
+                >
+                  <Columns3 className="w-4 h-4 text-primary-600" />
+                  Compare Outlines{bookData.outlineVariants?.length ? ` (${bookData.outlineVariants.length})` : ''}
+                </button>
               </div>
 
               <div className="bg-white rounded-[1.5rem] shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden">
@@ -515,41 +748,35 @@ const App: React.FC = () => {
                     />
                  </div>
 
-                <div className="divide-y divide-surface-100 max-h-[60vh] overflow-y-auto custom-scrollbar">
-                  {bookData.outline.map((chapter, idx) => (
-                    <div key={chapter.id} className="p-6 hover:bg-surface-50 transition-colors group relative flex gap-6">
-                      <div className="flex-none">
-                        <div className="w-8 h-8 rounded-lg bg-surface-100 text-slate-500 flex items-center justify-center font-bold text-sm border border-surface-200 group-hover:bg-white group-hover:shadow-sm transition-all">
-                          {idx + 1}
-                        </div>
-                      </div>
-                      <div className="flex-1 space-y-3">
-                        <input 
-                          className="w-full font-bold text-slate-800 text-lg bg-transparent border-none p-0 focus:ring-0 hover:text-primary-700 transition-colors"
-                          value={chapter.title}
-                          onChange={(e) => handleUpdateChapter(idx, 'title', e.target.value)}
-                        />
-                        <textarea 
-                          className="w-full text-slate-500 text-sm bg-transparent border-none p-0 focus:ring-0 resize-none h-12 leading-relaxed"
-                          value={chapter.description}
-                          onChange={(e) => handleUpdateChapter(idx, 'description', e.target.value)}
-                        />
-                      </div>
-                      <button 
-                        onClick={() => handleRemoveChapter(idx)}
-                        className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-red-500 p-2 transition-all self-start"
-                        title="Remove"
-                      >
-                        <span className="text-xl">&times;</span>
-                      </button>
-                    </div>
-                  ))}
-                  <div className="p-6 bg-surface-50/50">
-                     <button onClick={handleAddChapter} className="w-full py-4 border-2 border-dashed border-primary-200/50 rounded-xl text-primary-600 font-semibold hover:border-primary-500 hover:bg-primary-50 transition-all flex items-center justify-center gap-2">
-                        <span className="text-lg">+</span> Add {bookData.config.format === 'ebook' ? 'Chapter' : 'Slide'}
-                     </button>
-                  </div>
-                </div>
+                <OutlineEditor
+                  outline={bookData.outline}
+                  parts={bookData.parts}
+                  config={bookData.config}
+                  projectId={projectId || undefined}
+                  onChange={(outline, parts) => setBookData(prev => prev && { ...prev, outline, parts })}
+                />
+              </div>
+
+              <div className="mt-6">
+                <BookBibleEditor
+                  value={bookData.config.bible}
+                  onChange={(bible) => setBookData(prev => prev && { ...prev, config: { ...prev.config, bible } })}
+                />
+              </div>
+
+              <div className="mt-6">
+                <ReferenceDocsPanel
+                  value={bookData.config.referenceDocs}
+                  onChange={(referenceDocs) => setBookData(prev => prev && { ...prev, config: { ...prev.config, referenceDocs } })}
+                />
+              </div>
+
+              <div className="mt-6">
+                <StyleProfileEditor
+                  value={bookData.config.styleProfile}
+                  coverImage={bookData.coverImage}
+                  onChange={(styleProfile) => setBookData(prev => prev && { ...prev, config: { ...prev.config, styleProfile } })}
+                />
               </div>
 
               <div className="flex items-center gap-4 pt-8 sticky bottom-6 z-30">
@@ -571,33 +798,39 @@ const App: React.FC = () => {
         )}
 
         {/* STEP 4: GENERATION PROGRESS */}
-        {(status === GenerationStatus.GENERATING_BOOK || status === GenerationStatus.ERROR) && bookData && (
+        {(status === GenerationStatus.GENERATING_BOOK || status === GenerationStatus.PAUSED || status === GenerationStatus.ERROR) && bookData && (
           <div className="max-w-3xl mx-auto px-6 pb-20 w-full animate-fade-in">
              <div className="text-center mb-12">
                <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-white shadow-lg shadow-primary-500/10 mb-6">
                  {status === GenerationStatus.ERROR ? (
                    <div className="text-red-500">⚠️</div>
+                 ) : status === GenerationStatus.PAUSED ? (
+                   <Pause className="w-8 h-8 text-slate-500" />
                  ) : (
                    <Loader2 className="w-8 h-8 text-primary-600 animate-spin" />
                  )}
                </div>
                <h2 className="text-4xl font-display font-bold text-slate-900 mb-3">
-                 {status === GenerationStatus.ERROR ? 'Generation Paused' : 'Crafting your content'}
+                 {status === GenerationStatus.ERROR ? 'Generation Interrupted' : status === GenerationStatus.PAUSED ? 'Generation Paused' : 'Crafting your content'}
                </h2>
-               <p className="text-lg text-slate-500 font-medium">{generationProgress.message}</p>
+               <p className="text-lg text-slate-500 font-medium">
+                 {status === GenerationStatus.GENERATING_BOOK && generationProgress.jobs.length > 0
+                   ? `${runningJobs} running · ${finishedJobs} of ${generationProgress.jobs.length} jobs finished`
+                   : generationProgress.message}
+               </p>
              </div>
 
              {/* Modern Progress Bar */}
              <div className="w-full bg-surface-100 rounded-full h-1.5 overflow-hidden mb-12">
                  <div 
                    className="bg-gradient-to-r from-primary-500 to-indigo-500 h-full rounded-full transition-all duration-700 ease-out relative"
-                   style={{ width: `${(generationProgress.current / generationProgress.total) * 100}%` }}
+                   style={{ width: `${generationProgress.jobs.length ? (finishedJobs / generationProgress.jobs.length) * 100 : 0}%` }}
                  >
                    <div className="absolute right-0 top-0 bottom-0 w-20 bg-gradient-to-l from-white/30 to-transparent"></div>
                  </div>
              </div>
 
-             <div className="bg-white rounded-3xl shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden flex flex-col max-h-[600px]" ref={scrollRef}>
+             <div className="bg-white rounded-3xl shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden flex flex-col max-h-[600px]">
                 {/* Cover Step */}
                 <div className="p-6 border-b border-surface-100 flex items-center justify-between hover:bg-surface-50 transition-colors">
                    <div className="flex items-center gap-4">
@@ -606,18 +839,31 @@ const App: React.FC = () => {
                      </div>
                      <div>
                        <h4 className="font-bold text-slate-800">Cover Design</h4>
-                       <p className="text-sm text-slate-500">Visual identity and branding</p>
+                       <p className={`text-sm ${coverJob?.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+                         {coverJob?.note || 'Visual identity and branding'}
+                       </p>
                      </div>
                    </div>
                    {bookData.coverImage && <CheckCircle className="w-6 h-6 text-green-500 animate-scale-in" />}
+                   {!bookData.coverImage && coverJob?.status === 'running' && <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />}
                 </div>
 
                 {/* Chapters Stream */}
                 <div className="overflow-y-auto flex-1 p-6 space-y-4 bg-surface-50/30">
-                  {bookData.outline.map((chapter, idx) => (
+                  {bookData.outline.map((chapter, idx) => {
+                    const textJob = jobsById.get(`text:${chapter.id}`);
+                    const imageJob = jobsById.get(`image:${chapter.id}`);
+                    const figuresJob = jobsById.get(`figures:${chapter.id}`);
+                    // Without a job in this session (e.g. after a reload) the chapter's own fields tell what's done
+                    const textStatus = textJob?.status || (chapter.content && !chapter.partial ? 'done' : undefined);
+                    const imageStatus = imageJob?.status || (chapter.imageUrl ? 'done' : undefined);
+                    const retryNote = [textJob, imageJob, figuresJob].find(job => job?.status === 'running' && job.note)?.note;
+                    return (
                     <div key={chapter.id} className={`p-4 rounded-2xl border transition-all duration-500 ${
                        chapter.status === 'completed' ? 'bg-white border-green-200/50 shadow-sm' : 
-                       chapter.status === 'pending' ? 'bg-transparent border-transparent opacity-40' :
+                       chapter.status === 'pending' && !chapter.content ? 'bg-transparent border-transparent opacity-40' :
+                       chapter.status === 'pending' ? 'bg-white border-surface-200' :
+                       chapter.status === 'error' ? 'bg-red-50/50 border-red-200' :
                        'bg-white border-primary-200 shadow-lg shadow-primary-500/5 scale-[1.02]'
                     }`}>
                        <div className="flex flex-col gap-3">
@@ -626,6 +872,7 @@ const App: React.FC = () => {
                               <span className={`text-xs font-bold w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${
                                 chapter.status === 'completed' ? 'bg-green-100 text-green-700' : 
                                 chapter.status === 'pending' ? 'bg-surface-200 text-slate-500' :
+                                chapter.status === 'error' ? 'bg-red-100 text-red-600' :
                                 'bg-primary-100 text-primary-700'
                               }`}>{idx + 1}</span>
                               <span className="font-bold text-slate-700">{chapter.title}</span>
@@ -633,20 +880,27 @@ const App: React.FC = () => {
                            
                            {/* Step Status Badges */}
                            <div className="flex items-center gap-2">
-                              {(chapter.status === 'generating_text' || chapter.content) && (
-                                <div className={`px-2 py-1 rounded-md flex items-center gap-1.5 ${chapter.content ? 'bg-green-50 text-green-600' : 'bg-primary-50 text-primary-600'}`}>
-                                   <PenTool className="w-3 h-3" />
-                                   {chapter.status === 'generating_text' && <span className="text-[10px] font-bold uppercase tracking-wider animate-pulse">Writing</span>}
-                                </div>
-                              )}
-                              {(chapter.status === 'generating_image' || chapter.imageUrl) && (
-                                <div className={`px-2 py-1 rounded-md flex items-center gap-1.5 ${chapter.imageUrl ? 'bg-green-50 text-green-600' : 'bg-purple-50 text-purple-600'}`}>
-                                   <ImageIcon className="w-3 h-3" />
-                                   {chapter.status === 'generating_image' && <span className="text-[10px] font-bold uppercase tracking-wider animate-pulse">Art</span>}
-                                </div>
+                              <JobBadge icon={PenTool} status={textStatus} runningLabel="Writing" />
+                              <JobBadge icon={ImageIcon} status={imageStatus} runningLabel="Art" />
+                              <JobBadge icon={Images} status={figuresJob?.status} runningLabel="Figures" />
+                              {chapter.status === 'error' && status === GenerationStatus.ERROR && (
+                                <button
+                                  onClick={() => retryChapter(idx)}
+                                  disabled={isChapterBusy}
+                                  className="px-2 py-1 rounded-md flex items-center gap-1.5 bg-white border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50 text-[10px] font-bold uppercase tracking-wider"
+                                >
+                                  <RefreshCw className="w-3 h-3" /> Retry
+                                </button>
                               )}
                            </div>
                          </div>
+
+                         {chapter.status === 'error' && chapter.error && (
+                           <p className="ml-12 text-xs text-red-600">{chapter.error}</p>
+                         )}
+                         {retryNote && (
+                           <p className="ml-12 text-xs text-amber-600">{retryNote}</p>
+                         )}
                          
                          {/* Live Typing Preview */}
                          {chapter.status === 'generating_text' && chapter.content && (
@@ -656,15 +910,37 @@ const App: React.FC = () => {
                          )}
                        </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
              </div>
              
-             {status === GenerationStatus.ERROR && (
-                <div className="mt-8 flex justify-center">
-                   <button onClick={startFullGeneration} className="px-8 py-4 bg-slate-900 text-white rounded-2xl hover:bg-black font-bold shadow-lg flex items-center gap-2">
+             {status === GenerationStatus.GENERATING_BOOK && (
+                <div className="mt-8 flex justify-center gap-4">
+                   <button onClick={pauseGeneration} className="px-8 py-4 bg-white border border-surface-200 text-slate-700 rounded-2xl hover:bg-surface-50 font-bold shadow-sm flex items-center gap-2">
+                     <Pause className="w-4 h-4" /> Pause
+                   </button>
+                   <button onClick={cancelGeneration} className="px-8 py-4 bg-white border border-surface-200 text-slate-500 rounded-2xl hover:text-red-600 hover:border-red-200 font-bold shadow-sm flex items-center gap-2">
+                     <Square className="w-4 h-4" /> Cancel
+                   </button>
+                </div>
+             )}
+
+             {(status === GenerationStatus.PAUSED || status === GenerationStatus.ERROR) && (
+                <div className="mt-8 flex justify-center gap-4">
+                   <button onClick={startFullGeneration} disabled={isChapterBusy} className="px-8 py-4 bg-slate-900 text-white rounded-2xl hover:bg-black disabled:opacity-50 font-bold shadow-lg flex items-center gap-2">
                      <RefreshCw className="w-4 h-4" /> Resume Generation
                    </button>
+                   {bookData.outline.some(c => c.content) && (
+                     <button onClick={() => setStatus(GenerationStatus.COMPLETED)} disabled={isChapterBusy} className="px-8 py-4 bg-white border border-surface-200 text-slate-700 rounded-2xl hover:bg-surface-50 disabled:opacity-50 font-bold shadow-sm flex items-center gap-2">
+                       <BookOpen className="w-4 h-4" /> Open Reader
+                     </button>
+                   )}
+                   {status === GenerationStatus.PAUSED && (
+                     <button onClick={cancelGeneration} disabled={isChapterBusy} className="px-8 py-4 bg-white border border-surface-200 text-slate-500 rounded-2xl hover:text-red-600 hover:border-red-200 disabled:opacity-50 font-bold shadow-sm flex items-center gap-2">
+                       <Square className="w-4 h-4" /> Cancel
+                     </button>
+                   )}
                 </div>
              )}
           </div>
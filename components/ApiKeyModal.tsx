@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Key, CheckCircle } from './Icons';
+import { getApiKey, setApiKey } from '../services/providers';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -8,25 +9,25 @@ interface ApiKeyModalProps {
 
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose }) => {
   const [key, setKey] = useState('');
+  const [compatibleKey, setCompatibleKey] = useState('');
   const [saved, setSaved] = useState(false);
 
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) setKey(storedKey);
+    setKey(getApiKey('gemini'));
+    setCompatibleKey(getApiKey('openai-compatible'));
   }, [isOpen]);
 
   const handleSave = () => {
-    if (key.trim()) {
-      localStorage.setItem('gemini_api_key', key.trim());
+    // Empty fields clear the stored key
+    setApiKey('gemini', key);
+    setApiKey('openai-compatible', compatibleKey);
+    if (key.trim() || compatibleKey.trim()) {
       setSaved(true);
       setTimeout(() => {
         setSaved(false);
         onClose();
       }, 1000);
     } else {
-        // Allow clearing the key
-        localStorage.removeItem('gemini_api_key');
-        setKey('');
         onClose();
     }
   };
@@ -48,8 +49,9 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose }) =>
         
         <div className="p-6 space-y-5">
           <p className="text-sm text-slate-500 leading-relaxed">
-            To use the eBook Architect, you can provide your own Google Gemini API key. 
-            It will be stored locally in your browser.
+            To use the eBook Architect, you can provide your own Google Gemini API key,
+            or a key for an OpenAI-compatible endpoint. Keys are stored locally in your browser
+            and are never included in project files.
           </p>
           
           <div className="space-y-2">
@@ -63,6 +65,17 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose }) =>
             />
           </div>
 
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-700 uppercase tracking-wide">OpenAI-compatible API Key</label>
+            <input 
+              type="password" 
+              value={compatibleKey}
+              onChange={(e) => setCompatibleKey(e.target.value)}
+              placeholder="Optional for local servers such as Ollama"
+              className="w-full p-3.5 border border-surface-300 rounded-xl focus:ring-4 focus:ring-primary-500/10 focus:border-primary-500 outline-none font-mono text-sm transition-all"
+            />
+          </div>
+
           <div className="pt-2">
             <button 
               onClick={handleSave}
@@ -77,7 +90,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose }) =>
                   <CheckCircle className="w-5 h-5" /> Saved!
                 </>
               ) : (
-                'Save API Key'
+                'Save API Keys'
               )}
             </button>
           </div>
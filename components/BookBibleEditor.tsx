@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { BookBible } from '../types';
+import { EMPTY_BIBLE, isBibleEmpty } from '../services/bookBible';
+import { BookMarked, ChevronRight, X } from './Icons';
+
+interface BookBibleEditorProps {
+  value?: BookBible;
+  onChange: (bible: BookBible) => void;
+}
+
+type PairList = 'glossary' | 'spellings' | 'personas';
+type LineList = 'bannedPhrases' | 'styleRules';
+
+const PAIR_FIELDS: Record<PairList, { title: string; hint: string; keys: [string, string]; placeholders: [string, string] }> = {
+  glossary: {
+    title: 'Glossary',
+    hint: 'Terms used exactly as written, with the meaning the book gives them',
+    keys: ['term', 'definition'],
+    placeholders: ['Term', 'Definition'],
+  },
+  spellings: {
+    title: 'Preferred spellings',
+    hint: 'Variants to avoid, separated by commas',
+    keys: ['preferred', 'avoid'],
+    placeholders: ['Preferred', 'Avoid (e.g. colour, Colour)'],
+  },
+  personas: {
+    title: 'Recurring personas & case studies',
+    hint: 'People and examples that come back across chapters',
+    keys: ['name', 'description'],
+    placeholders: ['Name', 'Who they are, key details'],
+  },
+};
+
+const LINE_FIELDS: Record<LineList, { title: string; hint: string; placeholder: string }> = {
+  bannedPhrases: {
+    title: 'Banned phrases',
+    hint: 'One per line',
+    placeholder: "delve into\nin today's fast-paced world",
+  },
+  styleRules: {
+    title: 'House style rules',
+    hint: 'One per line',
+    placeholder: "Use the Oxford comma\nAddress the reader as \"you\"",
+  },
+};
+
+const inputClass = "w-full p-2.5 rounded-lg border border-surface-200 bg-surface-50 focus:bg-white text-slate-800 text-sm outline-none transition-all focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10";
+
+export const BookBibleEditor: React.FC<BookBibleEditorProps> = ({ value, onChange }) => {
+  const bible = { ...EMPTY_BIBLE, ...value };
+  const [isOpen, setIsOpen] = useState(!isBibleEmpty(value));
+
+  const updatePair = (list: PairList, index: number, key: string, text: string) => {
+    const rows = [...bible[list]] as Record<string, string>[];
+    rows[index] = { ...rows[index], [key]: text };
+    onChange({ ...bible, [list]: rows });
+  };
+
+  const addPair = (list: PairList) => {
+    const [first, second] = PAIR_FIELDS[list].keys;
+    onChange({ ...bible, [list]: [...bible[list], { [first]: '', [second]: '' }] });
+  };
+
+  const removePair = (list: PairList, index: number) => {
+    onChange({ ...bible, [list]: bible[list].filter((_, i) => i !== index) });
+  };
+
+  const counts = [
+    bible.glossary.length && `${bible.glossary.length} terms`,
+    bible.spellings.length && `${bible.spellings.length} spellings`,
+    bible.bannedPhrases.filter(p => p.trim()).length && `${bible.bannedPhrases.filter(p => p.trim()).length} banned phrases`,
+    bible.personas.length && `${bible.personas.length} personas`,
+    bible.styleRules.filter(r => r.trim()).length && `${bible.styleRules.filter(r => r.trim()).length} style rules`,
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-white rounded-[1.5rem] shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full p-6 flex items-center justify-between text-left hover:bg-surface-50 transition-colors">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 rounded-xl bg-primary-50 text-primary-600 flex items-center justify-center">
+            <BookMarked className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Book Bible</h3>
+            <p className="text-sm text-slate-500">
+              {counts.length > 0 ? counts.join(' · ') : 'Terminology, spelling and style rules every chapter must follow'}
+            </p>
+          </div>
+        </div>
+        <ChevronRight className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="p-6 pt-2 space-y-8 border-t border-surface-100">
+          {(Object.keys(PAIR_FIELDS) as PairList[]).map(list => {
+            const { title, hint, keys, placeholders } = PAIR_FIELDS[list];
+            const rows = bible[list] as Record<string, string>[];
+            return (
+              <div key={list} className="space-y-3">
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{title}</h4>
+                  <p className="text-xs text-slate-400">{hint}</p>
+                </div>
+                {rows.map((row, index) => (
+                  <div key={index} className="flex gap-3 items-start">
+                    <input
+                      className={`${inputClass} w-1/3 font-medium`}
+                      value={row[keys[0]]}
+                      placeholder={placeholders[0]}
+                      onChange={(e) => updatePair(list, index, keys[0], e.target.value)}
+                    />
+                    <input
+                      className={`${inputClass} flex-1`}
+                      value={row[keys[1]]}
+                      placeholder={placeholders[1]}
+                      onChange={(e) => updatePair(list, index, keys[1], e.target.value)}
+                    />
+                    <button onClick={() => removePair(list, index)} className="p-2.5 text-slate-300 hover:text-red-500 transition-colors" title="Remove">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => addPair(list)} className="text-sm font-semibold text-primary-600 hover:text-primary-700">
+                  + Add
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {(Object.keys(LINE_FIELDS) as LineList[]).map(list => (
+              <div key={list} className="space-y-2">
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{LINE_FIELDS[list].title}</h4>
+                  <p className="text-xs text-slate-400">{LINE_FIELDS[list].hint}</p>
+                </div>
+                <textarea
+                  className={`${inputClass} h-28 resize-none`}
+                  value={bible[list].join('\n')}
+                  placeholder={LINE_FIELDS[list].placeholder}
+                  onChange={(e) => onChange({ ...bible, [list]: e.target.value.split('\n') })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,40 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
-import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
-import { BookData, Chapter } from '../types';
-import { ChevronLeft, ChevronRight, Download, BookOpen, PenTool, CheckCircle, RefreshCw, Loader2, ImageIcon, Printer, ZoomIn, ZoomOut, Move } from './Icons';
-import * as GeminiService from '../services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import ReactMarkdown, { defaultUrlTransform, ExtraProps } from 'react-markdown';
+import { BookData, BookPart, Chapter, ChapterDigest, ChapterVersionSource, Figure, Grounding } from '../types';
+import { ChevronLeft, ChevronRight, Download, BookOpen, PenTool, CheckCircle, RefreshCw, Loader2, ImageIcon, Printer, ZoomIn, ZoomOut, Move, Globe, FileText, AlertTriangle, Wand2, History, ListTree, Pencil } from './Icons';
+import * as AIService from '../services/aiService';
+import { describeError } from '../services/providers';
+import { checkAgainstBible } from '../services/bookBible';
+import { addCitationMarkers, collectReferences, mergeGrounding } from '../services/citations';
+import { ChapterRewriteModal } from './ChapterRewriteModal';
+import { VersionHistoryModal } from './VersionHistoryModal';
+import { RestructureModal } from './RestructureModal';
+import { IllustrationModal } from './IllustrationModal';
+import { PassageEditBar } from './PassageEditBar';
+import { locateRenderedText, TextRange } from '../services/markdown';
+import { groupByPart, partLabel, writtenSections } from '../services/outline';
+import { chapterFigures, figureAnchor, figureIdFromUrl, FIGURE_URL_PREFIX, listOfFigures, PlacedFigure } from '../services/figures';
+import * as ProjectFile from '../services/projectFile';
+import * as EpubExporter from '../services/epubExporter';
+import * as PdfExporter from '../services/pdfExporter';
+import * as CarouselExporter from '../services/carouselExporter';
+import * as SiteExporter from '../services/siteExporter';
+import * as DocxExporter from '../services/docxExporter';
+import { downloadBlob, toFileSlug } from '../services/fileUtils';
 
 interface BookReaderProps {
   book: BookData;
   onBack: () => void;
-  onUpdateContent: (id: string, content: string) => void;
-  onUpdateImage: (id: string, url: string) => void;
+  onUpdateContent: (id: string, content: string, source: ChapterVersionSource, grounding?: Grounding) => void;
+  onUpdateImage: (id: string, url: string, source: ChapterVersionSource, imagePrompt?: string) => void;
+  onUpdateDigest?: (id: string, digest: ChapterDigest) => void;
+  onRevertVersion?: (id: string, versionId: string) => void;
+  onRestructure?: (outline: Chapter[], parts?: BookPart[]) => void;
+  onUpdateFigure?: (chapterId: string, figureId: string, patch: Partial<Figure>) => void;
+  initialChapterIndex?: number;
+  onChapterChange?: (index: number) => void;
+  projectId?: string;
 }
 
 // Interactive SVG Renderer
-const InteractiveSvg = ({ content }: { content: string }) => {
-  const [svgCode, setSvgCode] = useState<string | null>(null);
+const InteractiveSvg = ({ svgCode }: { svgCode: string }) => {
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    // Look for ```svg ... ``` blocks
-    const match = content.match(/```svg([\s\S]*?)```/);
-    if (match && match[1]) {
-      setSvgCode(match[1].trim());
-    } else {
-        const svgMatch = content.match(/<svg([\s\S]*?)<\/svg>/);
-        if (svgMatch) {
-            setSvgCode(svgMatch[0]);
-        }
-    }
-  }, [content]);
-
   const handleWheel = (e: React.WheelEvent) => {
     e.stopPropagation();
     if (e.ctrlKey || e.metaKey) {
@@ -65,8 +74,6 @@ const InteractiveSvg = ({ content }: { content: string }) => {
     setPosition({ x: 0, y: 0 });
   };
 
-  if (!svgCode) return null;
-
   return (
     <div className="my-16 print-break-inside-avoid w-full">
       <div className="relative">
@@ -112,24 +119,124 @@ const InteractiveSvg = ({ content }: { content: string }) => {
   );
 };
 
-const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent, onUpdateImage }) => {
-  const [currentChapterIndex, setCurrentChapterIndex] = useState(-1); // -1 is Cover
+// A figure placed in the text, with its numbered caption. Until it is drawn
+// it shows what the image is meant to be.
+const ChapterFigure = ({ placed, busy, onDraw }: { placed: PlacedFigure; busy: boolean; onDraw?: () => void }) => (
+  <figure id={figureAnchor(placed.figure)} className="my-12 print-break-inside-avoid font-sans">
+    <div className="relative group rounded-xl overflow-hidden bg-surface-100 border border-surface-200">
+      {placed.figure.imageUrl ? (
+        <img src={placed.figure.imageUrl} alt={placed.figure.caption} className={`w-full h-auto m-0 transition-all duration-700 ${busy ? 'opacity-50 blur-sm' : ''}`} />
+      ) : (
+        <div className="aspect-video flex flex-col items-center justify-center gap-3 p-8 text-center">
+          {busy ? <Loader2 className="w-10 h-10 text-primary-400 animate-spin" /> : <ImageIcon className="w-10 h-10 text-slate-300" />}
+          <p className="text-sm italic text-slate-400 max-w-md m-0">{placed.figure.prompt}</p>
+        </div>
+      )}
+      {onDraw && (
+        <button
+          onClick={onDraw}
+          disabled={busy}
+          className={`absolute top-3 right-3 bg-white/90 backdrop-blur text-slate-800 p-2.5 rounded-xl shadow-lg hover:bg-primary-600 hover:text-white transition-all flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider no-print ${placed.figure.imageUrl ? 'opacity-0 group-hover:opacity-100' : ''}`}
+        >
+          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          {placed.figure.imageUrl ? 'Redraw' : 'Draw'}
+        </button>
+      )}
+    </div>
+    <figcaption className="mt-3 text-sm text-slate-500 text-center">
+      <span className="font-bold text-slate-700">{placed.label}.</span> {placed.figure.caption}
+    </figcaption>
+  </figure>
+);
+
+// react-markdown wraps a figure marker in a paragraph; a paragraph holding
+// nothing else is the figure's place
+const paragraphFigureId = (node: ExtraProps['node']) => {
+  const content = (node?.children || []).filter(child => !(child.type === 'text' && !child.value.trim()));
+  const only = content.length === 1 ? content[0] : undefined;
+  return only?.type === 'element' && only.tagName === 'img' ? figureIdFromUrl(String(only.properties.src || '')) : undefined;
+};
+
+// The source of a ```svg fence, which is drawn where it stands
+const svgFenceSource = (node: ExtraProps['node']) => {
+  const code = node?.children[0];
+  if (code?.type !== 'element' || code.tagName !== 'code') return undefined;
+  const className = code.properties.className;
+  if (!Array.isArray(className) || !className.includes('language-svg')) return undefined;
+  return code.children.map(child => child.type === 'text' ? child.value : '').join('').trim();
+};
+
+// Raw <svg> blocks become ```svg fences, so both kinds render the same way
+const fenceRawSvg = (markdown: string) =>
+  markdown.replace(/```svg[\s\S]*?```|^<svg[\s\S]*?<\/svg>/gm, block => block.startsWith('```') ? block : `\`\`\`svg\n${block}\n\`\`\``);
+
+const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent, onUpdateImage, onUpdateDigest, onRevertVersion, onRestructure, onUpdateFigure, initialChapterIndex = -1, onChapterChange, projectId }) => {
+  const [currentChapterIndex, setCurrentChapterIndex] = useState(
+    Math.min(initialChapterIndex, book.outline.length - 1)
+  ); // -1 is Cover
   const [isEditing, setIsEditing] = useState(false);
   const [editBuffer, setEditBuffer] = useState("");
   const [regeneratingImage, setRegeneratingImage] = useState(false);
-  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
-  
-  // Ref for the hidden print container
-  const printContainerRef = useRef<HTMLDivElement>(null);
+  const [isRewriteOpen, setIsRewriteOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isRestructureOpen, setIsRestructureOpen] = useState(false);
+  const [isIllustrationOpen, setIsIllustrationOpen] = useState(false);
+  const [drawingFigures, setDrawingFigures] = useState<string[]>([]);
+  // Anchor to scroll to once the chapter it is in has rendered
+  const [pendingFigure, setPendingFigure] = useState<string | null>(null);
+  // Selected span for an inline AI edit, in the saved text or the edit buffer
+  const [passageSelection, setPassageSelection] = useState<{ range: TextRange; source: 'view' | 'editor' } | null>(null);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [activeExport, setActiveExport] = useState<string | null>(null);
+  const [carouselSize, setCarouselSize] = useState<CarouselExporter.CarouselSize>('4:5');
+  // Sources of inline edits made in the editor, saved along with the text
+  const editGroundingRef = useRef<Grounding | undefined>(undefined);
 
   const currentChapter = currentChapterIndex >= 0 ? book.outline[currentChapterIndex] : null;
+  const partGroups = useMemo(() => groupByPart(book), [book.outline, book.parts]);
+  const currentPart = partGroups.find(g => g.part && g.chapters.some(c => c.index === currentChapterIndex));
+  // Sections already written, for the contents entries under the open chapter
+  const currentSections = currentChapter ? writtenSections(currentChapter) : [];
+  // Numbered per chapter, in the order they appear in the text
+  const figureList = useMemo(() => listOfFigures(book), [book.outline]);
+  const currentFigures = new Map(figureList.filter(p => p.chapterIndex === currentChapterIndex).map(p => [p.figure.id, p]));
+
+  // Book bible check per chapter; while editing, the draft is checked instead
+  const bibleViolations = useMemo(
+    () => book.outline.map(chapter => checkAgainstBible(chapter.content, book.config.bible)),
+    [book.outline, book.config.bible]
+  );
+  const currentViolations = !currentChapter ? [] :
+    isEditing ? checkAgainstBible(editBuffer, book.config.bible) : bibleViolations[currentChapterIndex];
+
+  // Numbered across the book, so footnotes match the References of the exports
+  const references = useMemo(() => collectReferences(book.outline), [book.outline]);
+  const chapterReferences = currentChapter
+    ? [...new Set(references.numbers.get(currentChapter.id)?.values())].sort((a, b) => a - b).map(n => references.references[n - 1])
+    : [];
 
   useEffect(() => {
     if (currentChapter) {
         setEditBuffer(currentChapter.content || "");
     }
     setIsEditing(false);
-  }, [currentChapterIndex, currentChapter]);
+    // Only a change of text matters here; digest updates arrive while editing
+  }, [currentChapterIndex, currentChapter?.id, currentChapter?.content]);
+
+  useEffect(() => {
+    setPassageSelection(null);
+  }, [currentChapterIndex, isEditing, currentChapter?.content]);
+
+  useEffect(() => {
+    onChapterChange?.(currentChapterIndex);
+  }, [currentChapterIndex]);
+
+  useEffect(() => {
+    if (!pendingFigure) return;
+    document.getElementById(pendingFigure)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setPendingFigure(null);
+  }, [pendingFigure, currentChapterIndex]);
 
   const handleNext = () => {
     if (currentChapterIndex < book.outline.length - 1) {
@@ -145,7 +252,8 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
 
   const handleSaveEdit = () => {
       if (currentChapter) {
-          onUpdateContent(currentChapter.id, editBuffer);
+          onUpdateContent(currentChapter.id, editBuffer, 'manual', editGroundingRef.current);
+          editGroundingRef.current = undefined;
           setIsEditing(false);
       }
   };
@@ -154,83 +262,153 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
       if (!currentChapter) return;
       setRegeneratingImage(true);
       try {
-          const newUrl = await GeminiService.generateChapterIllustration(currentChapter.title, book.config.style, book.config.format);
-          onUpdateImage(currentChapter.id, newUrl);
+          const imagePrompt = currentChapter.imagePrompt || AIService.defaultIllustrationPrompt(currentChapter.title);
+          const newUrl = await AIService.generateChapterIllustration(imagePrompt, book.config, { projectId }, book.coverImage);
+          onUpdateImage(currentChapter.id, newUrl, 'generated', imagePrompt);
       } catch (e) {
           console.error("Failed to regenerate image", e);
+          alert(describeError(e));
       } finally {
           setRegeneratingImage(false);
       }
   };
 
-  const handleDownloadPdf = async () => {
-      if (!printContainerRef.current) return;
-      setIsGeneratingPdf(true);
+  const handleDrawFigure = async (chapterId: string, figure: Figure) => {
+      setDrawingFigures(ids => [...ids, figure.id]);
+      try {
+          const imageUrl = await AIService.generateChapterIllustration(figure.prompt, book.config, { projectId }, book.coverImage);
+          onUpdateFigure?.(chapterId, figure.id, { imageUrl });
+      } catch (e) {
+          console.error("Failed to draw figure", e);
+          alert(describeError(e));
+      } finally {
+          setDrawingFigures(ids => ids.filter(id => id !== figure.id));
+      }
+  };
+
+  const showFigure = (placed: PlacedFigure) => {
+      setCurrentChapterIndex(placed.chapterIndex);
+      setPendingFigure(figureAnchor(placed.figure));
+  };
 
-      // Wait a tick for render
-      await new Promise(resolve => setTimeout(resolve, 500));
+  const handleAcceptRewrite = (content: string, grounding?: Grounding) => {
+      if (!currentChapter) return;
+      const chapter = { ...currentChapter, content };
+      onUpdateContent(chapter.id, content, 'ai-rewrite', grounding);
+      // Keep the continuity digest in step, so later rewrites build on the new text
+      AIService.generateChapterDigest(chapter, book.config, { projectId })
+          .then(digest => onUpdateDigest?.(chapter.id, digest))
+          .catch(e => console.warn("Failed to refresh chapter digest", e));
+  };
+
+  // The open chapter stays open if it survived; a chapter merged into the one
+  // before it hands over to that one
+  const handleRestructure = (outline: Chapter[], parts?: BookPart[]) => {
+      if (!onRestructure) return;
+      const previousIds = book.outline.slice(0, currentChapterIndex + 1).map(c => c.id).reverse();
+      const kept = previousIds.map(id => outline.findIndex(c => c.id === id)).find(i => i >= 0);
+      onRestructure(outline, parts);
+      setCurrentChapterIndex(currentChapterIndex < 0 ? -1 : kept ?? Math.min(currentChapterIndex, outline.length - 1));
+      setIsRestructureOpen(false);
+  };
+
+  const passageSource = passageSelection?.source === 'editor' ? editBuffer : currentChapter?.content || "";
+
+  const handleViewSelection = () => {
+      const selected = window.getSelection()?.toString() || "";
+      if (!currentChapter?.content || selected.trim().length < 3) return;
+      const range = locateRenderedText(currentChapter.content, selected);
+      if (range) setPassageSelection({ range, source: 'view' });
+  };
+
+  const handleEditorSelection = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      if (selectionEnd - selectionStart >= 3) {
+          setPassageSelection({ range: { start: selectionStart, end: selectionEnd }, source: 'editor' });
+      }
+  };
+
+  const handleApplyPassage = (replacement: string, grounding?: Grounding) => {
+      if (!currentChapter || !passageSelection) return;
+      const { range, source } = passageSelection;
+      const updated = passageSource.slice(0, range.start) + replacement + passageSource.slice(range.end);
+      if (source === 'editor') {
+          setEditBuffer(updated);
+          if (grounding) editGroundingRef.current = mergeGrounding(editGroundingRef.current, grounding);
+      } else {
+          onUpdateContent(currentChapter.id, updated, 'ai-edit', grounding);
+      }
+      setPassageSelection(null);
+  };
 
+  const handleSaveProjectFile = async () => {
+      setIsSavingProject(true);
       try {
-          const pdf = new jsPDF('p', 'mm', 'a4');
-          const pdfWidth = pdf.internal.pageSize.getWidth();
-          const pdfHeight = pdf.internal.pageSize.getHeight();
-          const margin = 10;
-          const contentWidth = pdfWidth - (margin * 2);
-
-          const container = printContainerRef.current;
-          const sections = Array.from(container.children) as HTMLElement[];
-
-          for (let i = 0; i < sections.length; i++) {
-              if (i > 0) pdf.addPage();
-              
-              const section = sections[i];
-              // Use html2canvas to capture the section
-              // Scale 2 for better quality (Retina)
-              const canvas = await html2canvas(section, {
-                  scale: 2,
-                  useCORS: true,
-                  logging: false,
-                  backgroundColor: '#ffffff'
-              });
-
-              const imgData = canvas.toDataURL('image/jpeg', 0.95);
-              const imgProps = pdf.getImageProperties(imgData);
-              const imgHeight = (imgProps.height * contentWidth) / imgProps.width;
-
-              // If image is taller than page, we might need to split it or scale it to fit if it's a cover
-              // Simple strategy: If it's a cover (index 0), fit to page. Else, add as image.
-              // For long chapters, html2canvas will create one long image. We need to slice it in PDF.
-              
-              if (imgHeight <= pdfHeight) {
-                   pdf.addImage(imgData, 'JPEG', margin, margin, contentWidth, imgHeight);
-              } else {
-                  // Multi-page split logic for long chapters
-                  let heightLeft = imgHeight;
-                  let position = 0;
-                  let pageAdded = false;
-
-                  while (heightLeft > 0) {
-                      if (pageAdded) pdf.addPage();
-                      pdf.addImage(imgData, 'JPEG', margin, margin + position, contentWidth, imgHeight);
-                      heightLeft -= (pdfHeight - (margin*2));
-                      position -= (pdfHeight - (margin*2));
-                      pageAdded = true;
-                  }
-              }
-          }
-
-          pdf.save(`${book.config.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`);
+          const blob = await ProjectFile.exportProjectFile(book);
+          downloadBlob(blob, `${toFileSlug(book.config.title)}${ProjectFile.PROJECT_FILE_EXTENSION}`);
+      } catch (e) {
+          console.error("Project export failed", e);
+          alert("Failed to save project file. Please try again.");
+      } finally {
+          setIsSavingProject(false);
+      }
+  };
 
+  // Runs a Blob-producing exporter and downloads the result
+  const runExport = async (label: string, extension: string, build: () => Promise<Blob>) => {
+      setIsExportMenuOpen(false);
+      setActiveExport(label);
+      try {
+          const blob = await build();
+          downloadBlob(blob, `${toFileSlug(book.config.title)}.${extension}`);
       } catch (e) {
-          console.error("PDF generation failed", e);
-          alert("Failed to generate PDF. Please try again.");
+          console.error(`${label} export failed`, e);
+          alert(`Failed to generate ${label}. Please try again.`);
       } finally {
-          setIsGeneratingPdf(false);
+          setActiveExport(null);
       }
   };
 
-  // Remove SVG blocks from markdown display to avoid duplication
-  const displayContent = currentChapter ? currentChapter.content?.replace(/```svg[\s\S]*?```/g, "") : "";
+  // PDF and slide text is set in Latin-1 fonts; say which characters will be left out
+  const confirmPdfText = () => {
+      const missing = PdfExporter.unsupportedPdfCharacters(book);
+      if (!missing.length) return true;
+      const shown = missing.slice(0, 20).join(' ') + (missing.length > 20 ? ' …' : '');
+      return confirm(`This export can't show these characters, so they will be left out: ${shown}\n\nExport anyway? EPUB, Word and web exports keep them.`);
+  };
+
+  const isCarousel = book.config.format === 'linkedin-carousel';
+
+  const exportOptions = [
+      ...(isCarousel ? [
+          { label: 'Carousel PDF', description: `LinkedIn document post, ${CarouselExporter.CAROUSEL_SIZES[carouselSize].label}`, icon: Printer, onSelect: () => confirmPdfText() && runExport('Carousel PDF', 'pdf', () => CarouselExporter.exportCarouselPdf(book, { size: carouselSize })) },
+          { label: 'PNG Slides', description: 'ZIP of images for Instagram', icon: ImageIcon, onSelect: () => confirmPdfText() && runExport('PNG Slides', 'zip', () => CarouselExporter.exportCarouselPngZip(book, { size: carouselSize })) },
+      ] : [
+          { label: 'PDF', description: 'Typeset, searchable document', icon: Printer, onSelect: () => confirmPdfText() && runExport('PDF', 'pdf', () => PdfExporter.exportPdf(book)) },
+      ]),
+      { label: 'EPUB', description: 'Kindle, Apple Books, Kobo', icon: BookOpen, onSelect: () => runExport('EPUB', 'epub', () => EpubExporter.exportEpub(book)) },
+      { label: 'Word (DOCX)', description: 'Styled manuscript for editors', icon: FileText, onSelect: () => runExport('DOCX', 'docx', () => DocxExporter.exportDocx(book)) },
+      { label: 'Web & Markdown', description: 'Static site + .md files (ZIP)', icon: Globe, onSelect: () => runExport('Web & Markdown', 'zip', () => SiteExporter.exportSite(book)) },
+  ];
+
+  const isExporting = activeExport !== null;
+
+  // SVG diagrams and figures render inline, where the text places them
+  const displayContent = currentChapter
+    ? fenceRawSvg(addCitationMarkers(currentChapter, references, n => `#ref-${n}`))
+    : "";
+  const canDrawFigures = !!onUpdateFigure && AIService.providerSupportsImages(book.config);
+
+  const scrollToReference = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    document.getElementById(e.currentTarget.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Section headings are "## " headings, rendered as h3
+  const scrollToSection = (title: string) => {
+    const heading = Array.from(document.querySelectorAll('main article h3')).find(h => h.textContent?.trim() === title.trim());
+    heading?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
   return (
     <div className="flex flex-col h-screen w-full bg-slate-100 overflow-hidden fixed inset-0 font-sans">
@@ -247,14 +425,66 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
         </div>
         <div className="flex items-center gap-3">
            <button 
-             onClick={handleDownloadPdf}
-             disabled={isGeneratingPdf}
-             className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold uppercase tracking-wide text-primary-700 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors disabled:opacity-50"
+             onClick={handleSaveProjectFile}
+             disabled={isSavingProject}
+             className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-600 hover:text-slate-800 hover:bg-surface-50 rounded-lg transition-colors disabled:opacity-50"
+             title="Save a portable project file"
            >
-             {isGeneratingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
-             {isGeneratingPdf ? 'Exporting...' : 'Download PDF'}
+             {isSavingProject ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+             <span className="hidden md:inline">Save Project</span>
            </button>
+           <div className="relative">
+             <button 
+               onClick={() => setIsExportMenuOpen(open => !open)}
+               disabled={isExporting}
+               className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold uppercase tracking-wide text-primary-700 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors disabled:opacity-50"
+             >
+               {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+               {isExporting ? 'Exporting...' : 'Export'}
+             </button>
+             {isExportMenuOpen && (
+               <div className="absolute right-0 top-full mt-2 w-60 bg-white rounded-xl shadow-xl border border-surface-200 p-1.5 z-40 animate-fade-in">
+                 {isCarousel && (
+                   <div className="flex gap-1 p-1 mb-1 bg-surface-50 rounded-lg">
+                     {(Object.keys(CarouselExporter.CAROUSEL_SIZES) as CarouselExporter.CarouselSize[]).map(size => (
+                       <button
+                         key={size}
+                         onClick={() => setCarouselSize(size)}
+                         className={`flex-1 py-1 rounded-md text-[11px] font-bold transition-colors ${carouselSize === size ? 'bg-white text-primary-700 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                       >
+                         {size}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+                 {exportOptions.map(option => (
+                   <button
+                     key={option.label}
+                     onClick={option.onSelect}
+                     className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-left hover:bg-surface-50 transition-colors"
+                   >
+                     <option.icon className="w-4 h-4 text-primary-600 shrink-0" />
+                     <div>
+                       <div className="text-sm font-bold text-slate-800">{option.label}</div>
+                       <div className="text-[11px] text-slate-400">{option.description}</div>
+                     </div>
+                   </button>
+                 ))}
+               </div>
+             )}
+           </div>
            
+           {onRestructure && (
+             <button
+               onClick={() => setIsRestructureOpen(true)}
+               disabled={isEditing}
+               className="p-2 rounded-lg transition-colors text-slate-400 hover:text-primary-600 hover:bg-surface-50 disabled:opacity-40"
+               title="Restructure Outline"
+             >
+               <ListTree className="w-4 h-4" />
+             </button>
+           )}
+
            <div className="h-4 w-px bg-slate-200 mx-1"></div>
 
            {currentChapter && (
@@ -266,6 +496,24 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
                 >
                     <PenTool className="w-4 h-4" />
                 </button>
+                <button 
+                    onClick={() => setIsRewriteOpen(true)}
+                    disabled={!currentChapter.content || isEditing}
+                    className="p-2 rounded-lg transition-colors text-slate-400 hover:text-primary-600 hover:bg-surface-50 disabled:opacity-40"
+                    title="Rewrite with AI"
+                >
+                    <Wand2 className="w-4 h-4" />
+                </button>
+                {onRevertVersion && (
+                  <button
+                      onClick={() => setIsHistoryOpen(true)}
+                      disabled={isEditing}
+                      className="p-2 rounded-lg transition-colors text-slate-400 hover:text-primary-600 hover:bg-surface-50 disabled:opacity-40"
+                      title="Version History"
+                  >
+                      <History className="w-4 h-4" />
+                  </button>
+                )}
                </>
            )}
            <span className="text-xs font-mono text-slate-400 bg-surface-50 border border-surface-200 px-2 py-1 rounded hidden md:block">
@@ -290,61 +538,65 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
               <BookOpen className={`w-4 h-4 ${currentChapterIndex === -1 ? 'text-primary-300' : 'text-slate-400'}`} />
               <span className="font-medium">Cover</span>
             </button>
-            <div className="pt-2 pb-1 px-4 text-[10px] font-bold text-slate-300 uppercase tracking-widest">Chapters</div>
-            {book.outline.map((chapter, idx) => (
-              <button
-                key={chapter.id}
-                onClick={() => setCurrentChapterIndex(idx)}
-                className={`w-full text-left px-4 py-3 rounded-lg text-sm transition-all group
-                  ${currentChapterIndex === idx ? 'bg-primary-50 text-primary-900 ring-1 ring-primary-200' : 'text-slate-600 hover:bg-surface-50'}`}
-              >
-                <div className="flex items-start gap-3">
-                  <span className={`text-[10px] font-bold mt-1 w-5 shrink-0 ${currentChapterIndex === idx ? 'text-primary-400' : 'text-slate-300 group-hover:text-slate-400'}`}>
-                    {(idx + 1).toString().padStart(2, '0')}
-                  </span>
-                  <span className="line-clamp-2 leading-relaxed">{chapter.title}</span>
-                </div>
-              </button>
+            {partGroups.map((group, g) => (
+              <React.Fragment key={group.part?.id || `loose-${g}`}>
+                {(group.part || g === 0) && (
+                  <div className="pt-2 pb-1 px-4 text-[10px] font-bold text-slate-300 uppercase tracking-widest line-clamp-2">
+                    {group.part ? partLabel(group) : 'Chapters'}
+                  </div>
+                )}
+                {group.chapters.map(({ chapter, index: idx }) => (
+                  <React.Fragment key={chapter.id}>
+                    <button
+                      onClick={() => setCurrentChapterIndex(idx)}
+                      className={`w-full text-left px-4 py-3 rounded-lg text-sm transition-all group
+                        ${currentChapterIndex === idx ? 'bg-primary-50 text-primary-900 ring-1 ring-primary-200' : 'text-slate-600 hover:bg-surface-50'}`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <span className={`text-[10px] font-bold mt-1 w-5 shrink-0 ${currentChapterIndex === idx ? 'text-primary-400' : 'text-slate-300 group-hover:text-slate-400'}`}>
+                          {(idx + 1).toString().padStart(2, '0')}
+                        </span>
+                        <span className="line-clamp-2 leading-relaxed flex-1">{chapter.title}</span>
+                        {bibleViolations[idx].length > 0 && (
+                          <span title={`${bibleViolations[idx].length} book bible issues`}>
+                            <AlertTriangle className="w-3.5 h-3.5 mt-1 text-amber-500 shrink-0" />
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                    {currentChapterIndex === idx && !isEditing && currentSections.map(section => (
+                      <button
+                        key={section.id}
+                        onClick={() => scrollToSection(section.title)}
+                        className="w-full text-left pl-12 pr-4 py-1.5 rounded-lg text-xs text-slate-500 hover:text-primary-700 hover:bg-surface-50 transition-colors line-clamp-1"
+                      >
+                        {section.title}
+                      </button>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </React.Fragment>
             ))}
           </nav>
+          {figureList.length > 0 && (
+            <div className="p-3 border-t border-surface-100">
+              <div className="pt-2 pb-1 px-4 text-[10px] font-bold text-slate-300 uppercase tracking-widest">List of Figures</div>
+              {figureList.map(placed => (
+                <button
+                  key={placed.figure.id}
+                  onClick={() => showFigure(placed)}
+                  className="w-full text-left px-4 py-1.5 rounded-lg text-xs text-slate-500 hover:text-primary-700 hover:bg-surface-50 transition-colors line-clamp-2"
+                >
+                  <span className="font-bold">{placed.label}</span> {placed.figure.caption}
+                </button>
+              ))}
+            </div>
+          )}
         </aside>
 
         {/* Reader View */}
         <main className="flex-1 overflow-y-auto book-scroll bg-surface-100 flex flex-col items-center w-full relative">
           
-          {/* OFF-SCREEN PDF GENERATOR CONTAINER */}
-          {/* This container renders ALL content for PDF generation but stays hidden from user view */}
-          <div 
-            ref={printContainerRef} 
-            className="fixed left-[-9999px] top-0 w-[800px] bg-white z-[-1]"
-            aria-hidden="true"
-          >
-             {/* Cover */}
-             <div className="w-full h-[1120px] relative flex flex-col bg-slate-900">
-                {book.coverImage && <img src={book.coverImage} className="w-full h-2/3 object-cover opacity-80" />}
-                <div className="flex-1 p-16 flex flex-col justify-center items-center text-center">
-                   <h1 className="text-5xl font-bold text-white mb-6 font-serif">{book.config.title}</h1>
-                   <h2 className="text-2xl text-slate-300 font-sans tracking-widest uppercase">{book.config.authorName}</h2>
-                </div>
-             </div>
-             {/* Chapters */}
-             {book.outline.map((ch, i) => (
-                <div key={ch.id} className="w-full bg-white p-16 min-h-[1000px]">
-                   <h2 className="text-4xl font-bold mb-8 font-serif text-slate-900">Chapter {i+1}: {ch.title}</h2>
-                   {ch.imageUrl && <img src={ch.imageUrl} className="w-full h-[400px] object-cover mb-10 rounded-lg shadow-sm" />}
-                   <div className="prose prose-lg max-w-none text-slate-700 font-serif leading-loose">
-                     <ReactMarkdown>{ch.content || ''}</ReactMarkdown>
-                   </div>
-                   {/* We include SVGs in PDF but non-interactive */}
-                   {ch.content?.includes('```svg') && (
-                      <div className="mt-8 p-4 border border-slate-200 rounded-lg bg-surface-50">
-                         <div dangerouslySetInnerHTML={{ __html: ch.content.match(/```svg([\s\S]*?)```/)?.[1] || '' }} />
-                      </div>
-                   )}
-                </div>
-             ))}
-          </div>
-
           {/* User Visible Content */}
           <div className="w-full max-w-3xl bg-white shadow-2xl shadow-surface-200/50 min-h-full flex flex-col no-print">
             
@@ -408,7 +660,16 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
                     <div className="absolute inset-0 bg-gradient-to-b from-black/30 to-transparent opacity-60"></div>
 
                     {/* Regenerate Overlay */}
-                    <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity flex gap-2">
+                        <button
+                            onClick={() => setIsIllustrationOpen(true)}
+                            disabled={regeneratingImage}
+                            className="bg-white/90 backdrop-blur text-slate-800 p-2.5 rounded-xl shadow-lg hover:bg-primary-600 hover:text-white transition-colors flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider"
+                            title="Edit the prompt, pick from candidates, edit or upload an image"
+                        >
+                            <Pencil className="w-3.5 h-3.5" />
+                            Edit
+                        </button>
                         <button 
                             onClick={handleRegenerateImage}
                             disabled={regeneratingImage}
@@ -423,19 +684,33 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
                 <div className="px-8 py-12 md:px-20 md:py-16 w-full flex-1">
                   <div className="text-center mb-12">
                      <span className="inline-block text-primary-600 font-bold tracking-[0.2em] uppercase text-[10px] mb-4 border-b border-primary-100 pb-2">
-                         Chapter {currentChapterIndex + 1}
+                         {currentPart && `${partLabel(currentPart)} · `}Chapter {currentChapterIndex + 1}
                      </span>
                      <h2 className="text-3xl md:text-4xl font-serif font-medium text-slate-900 leading-tight">
                          {currentChapter.title}
                      </h2>
                   </div>
 
+                  {currentViolations.length > 0 && (
+                    <div className="mb-10 p-4 rounded-xl bg-amber-50 border border-amber-200 font-sans">
+                      <div className="flex items-center gap-2 text-amber-700 text-xs font-bold uppercase tracking-wider mb-2">
+                        <AlertTriangle className="w-3.5 h-3.5" /> Book bible: {currentViolations.length} {currentViolations.length === 1 ? 'issue' : 'issues'}
+                      </div>
+                      <ul className="space-y-1 text-sm text-amber-900">
+                        {currentViolations.map((violation, i) => (
+                          <li key={i}>{violation.message}{violation.count > 1 && <span className="text-amber-600"> ({violation.count}×)</span>}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {isEditing ? (
                       <div className="space-y-4">
                           <textarea 
                              className="w-full h-[60vh] p-6 text-base md:text-lg font-serif leading-relaxed text-slate-700 bg-surface-50 border border-surface-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 resize-none transition-shadow shadow-inner"
                              value={editBuffer}
-                             onChange={(e) => setEditBuffer(e.target.value)}
+                             onChange={(e) => { setEditBuffer(e.target.value); setPassageSelection(null); }}
+                             onSelect={handleEditorSelection}
                           />
                           <div className="flex gap-3 justify-end">
                               <button onClick={() => setIsEditing(false)} className="px-5 py-2.5 text-slate-500 hover:text-slate-800 text-sm font-medium">Cancel</button>
@@ -444,10 +719,28 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
                       </div>
                   ) : (
                     <>
-                        <div className="prose prose-slate prose-base md:prose-lg max-w-none font-serif text-slate-600 leading-loose">
+                        <div className="prose prose-slate prose-base md:prose-lg max-w-none font-serif text-slate-600 leading-loose" onMouseUp={handleViewSelection}>
                             <ReactMarkdown
+                              urlTransform={(url) => url.startsWith(FIGURE_URL_PREFIX) ? url : defaultUrlTransform(url)}
                               components={{
-                                p: ({node, ...props}) => <p className="mb-6" {...props} />,
+                                p: ({node, ...props}) => {
+                                  const figureId = paragraphFigureId(node);
+                                  if (!figureId) return <p className="mb-6" {...props} />;
+                                  const placed = currentFigures.get(figureId);
+                                  return placed ? (
+                                    <ChapterFigure
+                                      placed={placed}
+                                      busy={drawingFigures.includes(figureId)}
+                                      onDraw={canDrawFigures ? () => handleDrawFigure(currentChapter.id, placed.figure) : undefined}
+                                    />
+                                  ) : null;
+                                },
+                                // Figure markers inside a sentence have no place of their own
+                                img: ({node, ...props}) => props.src?.startsWith(FIGURE_URL_PREFIX) ? null : <img {...props} />,
+                                pre: ({node, ...props}) => {
+                                  const svg = svgFenceSource(node);
+                                  return svg ? <InteractiveSvg svgCode={svg} /> : <pre {...props} />;
+                                },
                                 h1: ({node, ...props}) => <h2 className="text-xl md:text-2xl font-sans font-bold text-slate-900 mt-10 mb-4" {...props} />, // Map h1 to h2 style
                                 h2: ({node, ...props}) => <h3 className="text-lg md:text-xl font-sans font-bold text-slate-800 mt-10 mb-4" {...props} />,
                                 h3: ({node, ...props}) => <h4 className="text-base md:text-lg font-sans font-bold text-slate-800 mt-8 mb-3 uppercase tracking-wide" {...props} />,
@@ -455,15 +748,51 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
                                 ol: ({node, ...props}) => <ol className="list-decimal list-outside ml-5 mb-6 space-y-2 marker:text-primary-400 font-medium" {...props} />,
                                 blockquote: ({node, ...props}) => <blockquote className="border-l-4 border-primary-200 pl-6 italic text-slate-500 my-8 py-2" {...props} />,
                                 strong: ({node, ...props}) => <strong className="font-bold text-slate-800" {...props} />,
-                                a: ({node, ...props}) => <a className="text-primary-600 underline decoration-primary-200 underline-offset-2 hover:decoration-primary-500 transition-colors" {...props} />,
+                                a: ({node, ...props}) => props.href?.startsWith('#ref-')
+                                  ? <sup className="font-sans font-bold text-[0.65em] ml-0.5"><a className="text-primary-600 no-underline hover:text-primary-800" onClick={scrollToReference} {...props} /></sup>
+                                  : <a className="text-primary-600 underline decoration-primary-200 underline-offset-2 hover:decoration-primary-500 transition-colors" {...props} />,
                               }}
                             >
                               {displayContent}
                             </ReactMarkdown>
                         </div>
 
-                        {/* Render SVGs below text block to prevent overlap */}
-                        <InteractiveSvg content={currentChapter.content || ""} />
+                        {chapterReferences.length > 0 && (
+                          <section className="mt-12 pt-6 border-t border-surface-100 font-sans">
+                            <h4 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-3">Sources</h4>
+                            <ol className="space-y-2 text-sm">
+                              {chapterReferences.map(reference => (
+                                <li key={reference.number} id={`ref-${reference.number}`} className="flex gap-3 text-slate-500">
+                                  <span className="font-bold text-primary-500 shrink-0">[{reference.number}]</span>
+                                  <a href={reference.uri} target="_blank" rel="noopener noreferrer" className="hover:text-primary-600 break-words min-w-0">{reference.title}</a>
+                                </li>
+                              ))}
+                            </ol>
+                          </section>
+                        )}
+
+                        {!!currentChapter.sourcePassages?.length && (
+                          <section className="mt-12 pt-6 border-t border-surface-100 font-sans">
+                            <h4 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-3">Reference material used</h4>
+                            <ul className="space-y-5">
+                              {currentChapter.sourcePassages.map(passage => (
+                                <li key={`${passage.documentId}:${passage.chunkId}`} className="text-sm">
+                                  <div className="font-bold text-slate-600">
+                                    {passage.documentName}{passage.heading && <span className="font-normal text-slate-400"> · {passage.heading}</span>}
+                                  </div>
+                                  <p className="mt-1 pl-3 border-l-2 border-surface-200 text-slate-500 line-clamp-4 whitespace-pre-line">{passage.text}</p>
+                                  {passage.claims.length > 0 && (
+                                    <ul className="mt-2 space-y-1">
+                                      {passage.claims.map((claim, i) => (
+                                        <li key={i} className="text-xs text-slate-500"><span className="font-bold text-primary-500">Cited for:</span> {claim}</li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </section>
+                        )}
                     </>
                   )}
                 </div>
@@ -491,6 +820,58 @@ const BookReader: React.FC<BookReaderProps> = ({ book, onBack, onUpdateContent,
           </div>
         </main>
       </div>
+
+      {passageSelection && currentChapter && (
+        <PassageEditBar
+          passage={passageSource.slice(passageSelection.range.start, passageSelection.range.end)}
+          context={passageSource.slice(Math.max(0, passageSelection.range.start - 1200), passageSelection.range.end + 1200)}
+          chapter={currentChapter}
+          config={book.config}
+          projectId={projectId}
+          onApply={handleApplyPassage}
+          onClose={() => setPassageSelection(null)}
+        />
+      )}
+
+      {isRewriteOpen && currentChapter && (
+        <ChapterRewriteModal
+          key={currentChapter.id}
+          book={book}
+          chapterIndex={currentChapterIndex}
+          projectId={projectId}
+          onAccept={handleAcceptRewrite}
+          onClose={() => setIsRewriteOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && currentChapter && onRevertVersion && (
+        <VersionHistoryModal
+          key={currentChapter.id}
+          chapter={currentChapter}
+          onRevert={(versionId) => onRevertVersion(currentChapter.id, versionId)}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isIllustrationOpen && currentChapter && (
+        <IllustrationModal
+          key={currentChapter.id}
+          book={book}
+          chapter={currentChapter}
+          projectId={projectId}
+          onApply={(imageUrl, source, imagePrompt) => onUpdateImage(currentChapter.id, imageUrl, source, imagePrompt)}
+          onClose={() => setIsIllustrationOpen(false)}
+        />
+      )}
+
+      {isRestructureOpen && onRestructure && (
+        <RestructureModal
+          book={book}
+          projectId={projectId}
+          onApply={handleRestructure}
+          onClose={() => setIsRestructureOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookData, Grounding } from '../types';
+import * as AIService from '../services/aiService';
+import { buildContinuityBrief } from '../services/continuity';
+import { classifyError, describeError } from '../services/providers';
+import { CheckCircle, Loader2, Wand2, X } from './Icons';
+
+interface ChapterRewriteModalProps {
+  book: BookData;
+  chapterIndex: number;
+  projectId?: string;
+  onAccept: (content: string, grounding?: Grounding) => void;
+  onClose: () => void;
+}
+
+const ACTIONS: { action: Exclude<AIService.RewriteAction, 'custom'>; label: string }[] = [
+  { action: 'regenerate', label: 'Regenerate' },
+  { action: 'expand', label: 'Expand' },
+  { action: 'shorten', label: 'Shorten' },
+  { action: 'simplify', label: 'Simplify' },
+  { action: 'technical', label: 'More technical' },
+];
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Streams a rewritten chapter next to the current text; nothing changes until accepted.
+export const ChapterRewriteModal: React.FC<ChapterRewriteModalProps> = ({ book, chapterIndex, projectId, onAccept, onClose }) => {
+  const chapter = book.outline[chapterIndex];
+  const [instruction, setInstruction] = useState('');
+  const [proposal, setProposal] = useState<string | null>(null);
+  const [grounding, setGrounding] = useState<Grounding | undefined>();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the modal stops a rewrite that is still streaming
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const runRewrite = async (action: AIService.RewriteAction) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProposal('');
+    setGrounding(undefined);
+    setError(null);
+    setIsStreaming(true);
+
+    try {
+      const brief = buildContinuityBrief(book.outline, chapterIndex, book.config, book.parts);
+      const stream = AIService.rewriteChapterStream(chapter, book.config.title, book.config, action, instruction, brief, {
+        projectId,
+        signal: controller.signal,
+        onGrounding: setGrounding,
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk;
+        setProposal(text);
+      }
+      if (!text.trim()) throw new Error("The model returned no text.");
+    } catch (e) {
+      if (controller.signal.aborted || classifyError(e).kind === 'cancelled') return;
+      console.error("Chapter rewrite failed", e);
+      setError(describeError(e));
+      setProposal(null);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const handleDiscard = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsStreaming(false);
+    setProposal(null);
+  };
+
+  const handleAccept = () => {
+    if (!proposal) return;
+    onAccept(proposal, grounding);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden ring-1 ring-white/50">
+        <div className="p-5 border-b border-surface-100 flex items-center justify-between bg-surface-50">
+          <div className="flex items-center gap-2 font-bold text-slate-800 min-w-0">
+            <Wand2 className="w-5 h-5 text-primary-600 shrink-0" />
+            <span className="truncate">Rewrite "{chapter.title}"</span>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 border-b border-surface-100 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {ACTIONS.map(({ action, label }) => (
+              <button
+                key={action}
+                onClick={() => runRewrite(action)}
+                disabled={isStreaming}
+                className="px-4 py-2 rounded-full border border-surface-200 text-sm font-medium text-slate-600 hover:text-primary-700 hover:border-primary-200 hover:bg-primary-50 disabled:opacity-50 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <form
+            onSubmit={(e) => { e.preventDefault(); runRewrite('custom'); }}
+            className="flex gap-2"
+          >
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Or describe the change, e.g. “Add a worked example about pricing”"
+              className="flex-1 p-3 rounded-xl border border-surface-200 bg-surface-50 focus:bg-white text-sm outline-none transition-all focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10"
+            />
+            <button
+              type="submit"
+              disabled={isStreaming || !instruction.trim()}
+              className="px-5 py-2 bg-slate-900 text-white rounded-xl text-sm font-bold hover:bg-black disabled:opacity-50"
+            >
+              Rewrite
+            </button>
+          </form>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 min-h-0 divide-y md:divide-y-0 md:divide-x divide-surface-100">
+          <div className="flex flex-col min-h-0">
+            <div className="px-5 py-3 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+              Current · {wordCount(chapter.content || '')} words
+            </div>
+            <div className="flex-1 overflow-y-auto px-5 pb-5 whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-600">
+              {chapter.content}
+            </div>
+          </div>
+          <div className="flex flex-col min-h-0 bg-surface-50/50">
+            <div className="px-5 py-3 text-[10px] font-bold uppercase tracking-widest text-primary-600 flex items-center gap-2">
+              {isStreaming && <Loader2 className="w-3 h-3 animate-spin" />}
+              {proposal === null ? 'New version' : `New version · ${wordCount(proposal)} words`}
+            </div>
+            <div className="flex-1 overflow-y-auto px-5 pb-5 whitespace-pre-wrap font-serif text-sm leading-relaxed text-slate-800">
+              {proposal === null ? (
+                <p className="text-slate-400 font-sans">Pick an action above to draft a new version. Your current text stays as it is until you accept.</p>
+              ) : proposal}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-surface-100 flex justify-end gap-3 bg-surface-50">
+          <button
+            onClick={handleDiscard}
+            disabled={proposal === null}
+            className="px-5 py-2.5 text-sm font-medium text-slate-500 hover:text-slate-800 disabled:opacity-40 flex items-center gap-2"
+          >
+            <X className="w-4 h-4" /> Discard
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={isStreaming || !proposal?.trim()}
+            className="px-6 py-2.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm font-bold shadow-lg shadow-primary-500/20 flex items-center gap-2"
+          >
+            <CheckCircle className="w-4 h-4" /> Accept New Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
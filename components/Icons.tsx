@@ -19,7 +19,32 @@ import {
   ZoomOut,
   Move,
   User,
-  LayoutTemplate
+  LayoutTemplate,
+  Trash2,
+  Copy,
+  Pencil,
+  Clock,
+  Upload,
+  Globe,
+  FileText,
+  Server,
+  FlaskConical,
+  PlayCircle,
+  CircleDot,
+  Pause,
+  Square,
+  AlertTriangle,
+  BookMarked,
+  Wand2,
+  History,
+  Scissors,
+  Merge,
+  GripVertical,
+  Undo2,
+  ListTree,
+  Columns3,
+  Palette,
+  Images
 } from 'lucide-react';
 
 export { 
@@ -42,5 +67,30 @@ export {
   ZoomOut,
   Move,
   User,
-  LayoutTemplate
+  LayoutTemplate,
+  Trash2,
+  Copy,
+  Pencil,
+  Clock,
+  Upload,
+  Globe,
+  FileText,
+  Server,
+  FlaskConical,
+  PlayCircle,
+  CircleDot,
+  Pause,
+  Square,
+  AlertTriangle,
+  BookMarked,
+  Wand2,
+  History,
+  Scissors,
+  Merge,
+  GripVertical,
+  Undo2,
+  ListTree,
+  Columns3,
+  Palette,
+  Images
 };
\ No newline at end of file
@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookData, Chapter, ChapterVersionSource } from '../types';
+import * as AIService from '../services/aiService';
+import { classifyError, describeError } from '../services/providers';
+import { IMAGE_FILE_ACCEPT, readImageFile } from '../services/fileUtils';
+import { CheckCircle, ImageIcon, Loader2, Sparkles, Upload, Wand2, X } from './Icons';
+
+interface IllustrationModalProps {
+  book: BookData;
+  chapter: Chapter;
+  projectId?: string;
+  onApply: (imageUrl: string, source: ChapterVersionSource, imagePrompt?: string) => void;
+  onClose: () => void;
+}
+
+interface Candidate {
+  url: string;
+  source: ChapterVersionSource;
+  prompt?: string; // The prompt it was drawn from; edits keep the prompt of the image they changed
+}
+
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+const UPLOAD_IMAGE_SIZE = 2048;
+
+// Prompt, candidates, edits and uploads for a chapter's illustration; the
+// chapter keeps its image until a candidate is chosen.
+export const IllustrationModal: React.FC<IllustrationModalProps> = ({ book, chapter, projectId, onApply, onClose }) => {
+  const [prompt, setPrompt] = useState(chapter.imagePrompt || AIService.defaultIllustrationPrompt(chapter.title));
+  const [count, setCount] = useState(2);
+  const [instruction, setInstruction] = useState('');
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [busy, setBusy] = useState<'generate' | 'edit' | 'upload' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Closing the modal stops requests that are still running
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const current = selected !== null ? candidates[selected] : null;
+  const preview = current?.url || chapter.imageUrl;
+
+  const addCandidates = (added: Candidate[]) => {
+    setCandidates(list => {
+      setSelected(list.length);
+      return [...list, ...added];
+    });
+  };
+
+  const run = async (kind: 'generate' | 'edit', body: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setBusy(kind);
+    setError(null);
+    try {
+      await body(controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted || classifyError(e).kind === 'cancelled') return;
+      console.error(`Illustration ${kind} failed`, e);
+      setError(describeError(e));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setBusy(null);
+      }
+    }
+  };
+
+  const handleGenerate = () => run('generate', async (signal) => {
+    const subject = prompt;
+    const results = await Promise.allSettled(Array.from({ length: count }, () =>
+      AIService.generateChapterIllustration(subject, book.config, { projectId, signal }, book.coverImage)
+    ));
+    const drawn = results.flatMap(r => r.status === 'fulfilled' ? [{ url: r.value, source: 'generated' as const, prompt: subject }] : []);
+    if (drawn.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+    addCandidates(drawn);
+    if (drawn.length < count) setError(`${count - drawn.length} of ${count} images failed.`);
+  });
+
+  const handleEdit = () => run('edit', async (signal) => {
+    const base = current || (chapter.imageUrl ? { url: chapter.imageUrl, prompt: chapter.imagePrompt } : null);
+    if (!base) return;
+    const url = await AIService.editIllustration(base.url, instruction, book.config, { projectId, signal });
+    addCandidates([{ url, source: 'image-edit', prompt: base.prompt }]);
+    setInstruction('');
+  });
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy('upload');
+    setError(null);
+    try {
+      addCandidates([{ url: await readImageFile(file, UPLOAD_IMAGE_SIZE), source: 'upload' }]);
+    } catch (err: any) {
+      console.error("Image upload failed", err);
+      setError(err.message || "Could not read the image.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = () => {
+    if (!current) return;
+    onApply(current.url, current.source, current.prompt);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden ring-1 ring-white/50">
+        <div className="p-5 border-b border-surface-100 flex items-center justify-between bg-surface-50">
+          <div className="flex items-center gap-2 font-bold text-slate-800 min-w-0">
+            <ImageIcon className="w-5 h-5 text-primary-600 shrink-0" />
+            <span className="truncate">Illustration for "{chapter.title}"</span>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-1 md:grid-cols-[1fr_20rem]">
+          <div className="p-6 space-y-4">
+            <div className="aspect-video bg-surface-100 rounded-xl overflow-hidden relative flex items-center justify-center">
+              {preview ? (
+                <img src={preview} alt={chapter.title} className={`w-full h-full object-contain transition-opacity ${busy ? 'opacity-50' : ''}`} />
+              ) : (
+                <ImageIcon className="w-12 h-12 text-slate-300" />
+              )}
+              <span className="absolute top-3 left-3 bg-white/90 text-slate-600 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md">
+                {current ? `Candidate ${selected! + 1}` : 'Current'}
+              </span>
+              {busy && <Loader2 className="absolute w-8 h-8 text-primary-600 animate-spin" />}
+            </div>
+
+            <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+              {chapter.imageUrl && (
+                <button
+                  onClick={() => setSelected(null)}
+                  className={`relative w-28 aspect-video shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${selected === null ? 'border-primary-500' : 'border-transparent hover:border-surface-300'}`}
+                >
+                  <img src={chapter.imageUrl} alt="Current" className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-slate-900/70 text-white text-[10px] font-bold py-0.5">Current</span>
+                </button>
+              )}
+              {candidates.map((candidate, i) => (
+                <button
+                  key={i}
+                  onClick={() => setSelected(i)}
+                  className={`relative w-28 aspect-video shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${selected === i ? 'border-primary-500' : 'border-transparent hover:border-surface-300'}`}
+                >
+                  <img src={candidate.url} alt={`Candidate ${i + 1}`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-slate-900/70 text-white text-[10px] font-bold py-0.5">
+                    {candidate.source === 'image-edit' ? 'Edited' : candidate.source === 'upload' ? 'Uploaded' : `#${i + 1}`}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-6 space-y-6 border-t md:border-t-0 md:border-l border-surface-100 bg-surface-50/50">
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Prompt</h4>
+              <textarea
+                className="w-full h-32 p-3 rounded-lg border border-surface-200 bg-white text-sm text-slate-800 outline-none focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10 resize-none"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+              />
+              <p className="text-[11px] text-slate-400">The book's style and visual identity are added when drawing.</p>
+              <div className="flex items-center gap-2">
+                <select
+                  value={count}
+                  onChange={(e) => setCount(Number(e.target.value))}
+                  disabled={busy !== null}
+                  className="px-2 py-2 rounded-lg border border-surface-200 bg-white text-xs font-bold text-slate-600"
+                  title="Candidates to draw"
+                >
+                  {CANDIDATE_COUNTS.map(n => <option key={n} value={n}>{n}×</option>)}
+                </select>
+                <button
+                  onClick={handleGenerate}
+                  disabled={busy !== null || !prompt.trim()}
+                  className="flex-1 px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-black text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+                >
+                  {busy === 'generate' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  Draw {count === 1 ? 'Image' : `${count} Candidates`}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Edit {current ? 'this candidate' : 'current image'}</h4>
+              <input
+                className="w-full p-2.5 rounded-lg border border-surface-200 bg-white text-sm text-slate-800 outline-none focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10"
+                value={instruction}
+                placeholder="e.g. make the background darker"
+                onChange={(e) => setInstruction(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && instruction.trim() && preview && !busy) handleEdit(); }}
+              />
+              <button
+                onClick={handleEdit}
+                disabled={busy !== null || !instruction.trim() || !preview}
+                className="w-full px-4 py-2 bg-white border border-surface-200 text-slate-700 rounded-lg hover:bg-surface-50 text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                {busy === 'edit' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                Apply Edit
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Your own image</h4>
+              <input ref={inputRef} type="file" accept={IMAGE_FILE_ACCEPT} onChange={handleUpload} className="hidden" />
+              <button
+                onClick={() => inputRef.current?.click()}
+                disabled={busy !== null}
+                className="w-full px-4 py-2 bg-white border border-surface-200 text-slate-700 rounded-lg hover:bg-surface-50 text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                {busy === 'upload' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Upload Image
+              </button>
+            </div>
+
+            {error && <div className="p-3 rounded-lg bg-red-50 border border-red-100 text-xs text-red-600">{error}</div>}
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-surface-100 flex items-center justify-end gap-2 bg-surface-50">
+          <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:text-slate-800 text-sm font-medium">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!current || busy !== null}
+            className="px-6 py-2.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm font-bold shadow-lg shadow-primary-500/20 flex items-center gap-2 disabled:opacity-50"
+          >
+            <CheckCircle className="w-4 h-4" /> Use This Image
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
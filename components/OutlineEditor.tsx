@@ -0,0 +1,408 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookConfig, BookPart, Chapter, OutlineSection } from '../types';
+import * as AIService from '../services/aiService';
+import { classifyError, describeError } from '../services/providers';
+import { groupByPart, locateSections, pruneParts } from '../services/outline';
+import { createId } from '../services/ids';
+import { mergeChapters, splitChapter, splitPoints } from '../services/restructure';
+import { GripVertical, Loader2, Merge, Scissors, Undo2 } from './Icons';
+
+interface OutlineEditorProps {
+  outline: Chapter[];
+  parts?: BookPart[];
+  config: BookConfig;
+  projectId?: string;
+  onChange: (outline: Chapter[], parts?: BookPart[]) => void;
+}
+
+type NodeField = 'title' | 'description' | 'keyPoints';
+
+interface Snapshot {
+  outline: Chapter[];
+  parts?: BookPart[];
+  key?: string; // Field being typed in; consecutive keystrokes undo together
+}
+
+const MAX_UNDO = 50;
+
+const fieldValue = (field: NodeField, value: string) => field === 'keyPoints' ? value.split('\n') : value;
+
+const KeyPointsInput = ({ value, onChange }: { value?: string[]; onChange: (value: string) => void }) => (
+  <textarea
+    className="w-full text-xs text-slate-500 bg-surface-50 border border-surface-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 resize-none"
+    rows={2}
+    placeholder="Key points, one per line"
+    value={(value || []).join('\n')}
+    onChange={(e) => onChange(e.target.value)}
+  />
+);
+
+const RemoveButton = ({ onClick, title }: { onClick: () => void; title: string }) => (
+  <button
+    onClick={onClick}
+    className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-red-500 p-2 transition-all self-start"
+    title={title}
+  >
+    <span className="text-xl">&times;</span>
+  </button>
+);
+
+// The outline tree: parts, their chapters and each chapter's sections. Chapters
+// can be dragged, inserted anywhere, split and merged; written text moves with
+// them. Used in the outline review and, for written books, in the reader.
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, parts, config, projectId, onChange }) => {
+  const isEbook = config.format === 'ebook';
+  const chapterLabel = isEbook ? 'Chapter' : 'Slide';
+  const [undoCount, setUndoCount] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [busyChapterId, setBusyChapterId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const historyRef = useRef<Snapshot[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+  // AI results land on the outline as it is when they arrive
+  const latestRef = useRef({ outline, parts });
+  latestRef.current = { outline, parts };
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const change = (nextOutline: Chapter[], nextParts: BookPart[] | undefined, key?: string) => {
+    const history = historyRef.current;
+    if (!key || history[history.length - 1]?.key !== key) {
+      historyRef.current = [...history.slice(-(MAX_UNDO - 1)), { ...latestRef.current, key }];
+      setUndoCount(historyRef.current.length);
+    }
+    onChange(nextOutline, nextParts);
+  };
+
+  const undo = () => {
+    const previous = historyRef.current.pop();
+    if (!previous) return;
+    setUndoCount(historyRef.current.length);
+    onChange(previous.outline, previous.parts);
+  };
+
+  const updatePart = (partId: string, field: NodeField, value: string) =>
+    change(outline, parts?.map(p => p.id === partId ? { ...p, [field]: fieldValue(field, value) } : p), `${partId}:${field}`);
+
+  const updateChapter = (index: number, patch: Partial<Chapter>, key?: string) =>
+    change(outline.map((c, i) => i === index ? { ...c, ...patch } : c), parts, key);
+
+  const updateSection = (index: number, sectionId: string, field: NodeField, value: string) =>
+    updateChapter(index, {
+      sections: outline[index].sections?.map(s => s.id === sectionId ? { ...s, [field]: fieldValue(field, value) } : s)
+    }, `${sectionId}:${field}`);
+
+  const newChapter = (partId?: string): Chapter => ({
+    id: createId('chap'),
+    title: `New ${chapterLabel}`,
+    description: `Description of the new ${chapterLabel.toLowerCase()}`,
+    partId,
+    status: 'pending'
+  });
+
+  const insertChapter = (at: number, partId?: string) =>
+    change([...outline.slice(0, at), newChapter(partId), ...outline.slice(at)], parts);
+
+  // New chapters go at the end of their part, so the part stays in one piece
+  const addChapter = (partId?: string) => {
+    const last = outline.reduce((found, c, i) => c.partId === partId ? i : found, -1);
+    insertChapter(partId && last >= 0 ? last + 1 : outline.length, partId);
+  };
+
+  const removeChapter = (index: number) => {
+    const chapter = outline[index];
+    if (chapter.content?.trim() && !confirm(`Delete "${chapter.title}" and its written text?`)) return;
+    const next = outline.filter((_, i) => i !== index);
+    change(next, pruneParts(parts, next));
+  };
+
+  const addPart = () => {
+    const part: BookPart = { id: createId('part'), title: 'New Part', description: 'What this part of the book is about' };
+    // The first part takes in the chapters written so far
+    const existing = parts?.length ? outline : outline.map(c => ({ ...c, partId: part.id }));
+    change([...existing, newChapter(part.id)], [...(parts || []), part]);
+  };
+
+  // Removing a part keeps its chapters, outside any part
+  const removePart = (partId: string) =>
+    change(outline.map(c => c.partId === partId ? { ...c, partId: undefined } : c), parts?.filter(p => p.id !== partId));
+
+  const addSection = (index: number) => {
+    const section: OutlineSection = { id: createId('sec'), title: 'New Section', description: 'What this section covers' };
+    updateChapter(index, { sections: [...(outline[index].sections || []), section] });
+  };
+
+  // The section's text, if written, stays in the chapter
+  const removeSection = (index: number, sectionId: string) => {
+    const sections = outline[index].sections?.filter(s => s.id !== sectionId);
+    updateChapter(index, { sections: sections?.length ? sections : undefined });
+  };
+
+  // --- Drag and drop ---------------------------------------------------------
+
+  // Moves the dragged chapter to `at` (an index before the move) in the given part
+  const moveChapter = (at: number, partId?: string) => {
+    if (dragIndex === null) return;
+    const moved = { ...outline[dragIndex], partId };
+    const rest = outline.filter((_, i) => i !== dragIndex);
+    const target = at > dragIndex ? at - 1 : at;
+    const next = [...rest.slice(0, target), moved, ...rest.slice(target)];
+    change(next, pruneParts(parts, next));
+  };
+
+  const dropZone = (id: string, onDrop: () => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (dragIndex === null) return;
+      e.preventDefault();
+      setDropTarget(id);
+    },
+    onDragLeave: () => setDropTarget(target => target === id ? null : target),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      onDrop();
+      setDragIndex(null);
+      setDropTarget(null);
+    },
+  });
+
+  // --- Split and merge ---------------------------------------------------------
+
+  const runRestructure = async (chapterId: string, body: (signal: AbortSignal) => Promise<void>) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setBusyChapterId(chapterId);
+    setError(null);
+    try {
+      await body(controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted || classifyError(e).kind === 'cancelled') return;
+      console.error("Outline restructuring failed", e);
+      setError(describeError(e));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setBusyChapterId(null);
+      }
+    }
+  };
+
+  const handleSplit = (chapterId: string) => runRestructure(chapterId, async (signal) => {
+    const chapter = outline.find(c => c.id === chapterId)!;
+    const plan = await AIService.planChapterSplit(chapter, splitPoints(chapter).map(p => p.label), outline, config, { projectId, signal });
+    const current = latestRef.current.outline;
+    const index = current.findIndex(c => c.id === chapterId);
+    if (index < 0) return;
+    const halves = splitChapter(current[index], plan.first, plan.second, plan.splitAt);
+    change([...current.slice(0, index), ...halves, ...current.slice(index + 1)], latestRef.current.parts);
+  });
+
+  const handleMerge = (chapterId: string) => runRestructure(chapterId, async (signal) => {
+    const index = outline.findIndex(c => c.id === chapterId);
+    const merged = await AIService.planChapterMerge(outline[index], outline[index + 1], outline, config, { projectId, signal });
+    const current = latestRef.current.outline;
+    const first = current.findIndex(c => c.id === chapterId);
+    const second = current.findIndex(c => c.id === outline[index + 1].id);
+    if (first < 0 || second !== first + 1) return;
+    const next = [...current.slice(0, first), mergeChapters(current[first], current[second], merged), ...current.slice(second + 1)];
+    change(next, pruneParts(latestRef.current.parts, next));
+  });
+
+  const isRestructuring = busyChapterId !== null;
+
+  return (
+    <div>
+      <div className="px-6 py-3 border-b border-surface-100 flex items-center justify-between gap-4 bg-white">
+        <p className="text-xs text-slate-400">Drag chapters by the handle to reorder them or move them to another part.</p>
+        <button
+          onClick={undo}
+          disabled={undoCount === 0 || isRestructuring}
+          className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-primary-600 disabled:opacity-40 disabled:hover:text-slate-500 transition-colors shrink-0"
+          title="Undo the last outline change"
+        >
+          <Undo2 className="w-3.5 h-3.5" /> Undo
+        </button>
+      </div>
+      {error && (
+        <div className="px-6 py-3 bg-red-50 border-b border-red-100 text-sm text-red-600 flex items-start justify-between gap-4">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">&times;</button>
+        </div>
+      )}
+
+      <div className="divide-y divide-surface-100 max-h-[60vh] overflow-y-auto custom-scrollbar">
+        {groupByPart({ outline, parts }).map((group, g) => (
+          <React.Fragment key={group.part?.id || `loose-${g}`}>
+            {group.part && (
+              <div
+                className={`p-6 bg-surface-50 group flex gap-4 transition-shadow ${dropTarget === group.part.id ? 'ring-2 ring-inset ring-primary-300' : ''}`}
+                {...dropZone(group.part.id, () => moveChapter(group.chapters[0].index, group.part!.id))}
+              >
+                <div className="flex-1 space-y-2">
+                  <div className="text-xs font-bold text-primary-600 uppercase tracking-widest">Part {group.number}</div>
+                  <input
+                    className="w-full font-display font-bold text-slate-900 text-xl bg-transparent border-none p-0 focus:ring-0"
+                    value={group.part.title}
+                    onChange={(e) => updatePart(group.part!.id, 'title', e.target.value)}
+                  />
+                  <textarea
+                    className="w-full text-slate-500 text-sm bg-transparent border-none p-0 focus:ring-0 resize-none h-10 leading-relaxed"
+                    value={group.part.description}
+                    onChange={(e) => updatePart(group.part!.id, 'description', e.target.value)}
+                  />
+                  <KeyPointsInput value={group.part.keyPoints} onChange={(value) => updatePart(group.part!.id, 'keyPoints', value)} />
+                </div>
+                <RemoveButton onClick={() => removePart(group.part!.id)} title="Remove part (keeps its chapters)" />
+              </div>
+            )}
+
+            {group.chapters.map(({ chapter, index }) => {
+              const writtenSections = locateSections(chapter.content || '', chapter.sections).length;
+              const isBusy = busyChapterId === chapter.id;
+              return (
+                <React.Fragment key={chapter.id}>
+                  {/* Insert between chapters */}
+                  <div className="relative h-0 group/insert z-10">
+                    <button
+                      onClick={() => insertChapter(index, chapter.partId)}
+                      className="absolute left-1/2 -translate-x-1/2 -top-2.5 opacity-0 group-hover/insert:opacity-100 hover:opacity-100 focus:opacity-100 bg-white border border-primary-200 text-primary-600 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full shadow-sm transition-opacity"
+                      title={`Insert a ${chapterLabel.toLowerCase()} here`}
+                    >
+                      + Insert
+                    </button>
+                  </div>
+                  <div
+                    className={`p-6 hover:bg-surface-50 transition-colors group relative flex gap-6 ${group.part ? 'pl-10' : ''}
+                      ${dragIndex === index ? 'opacity-40' : ''} ${dropTarget === chapter.id ? 'shadow-[inset_0_3px_0_0] shadow-primary-400' : ''}`}
+                    {...dropZone(chapter.id, () => moveChapter(index, chapter.partId))}
+                  >
+                    <div
+                      className="flex-none flex flex-col items-center gap-1 cursor-grab active:cursor-grabbing"
+                      draggable={!isRestructuring}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragIndex(index);
+                      }}
+                      onDragEnd={() => {
+                        setDragIndex(null);
+                        setDropTarget(null);
+                      }}
+                      title="Drag to move"
+                    >
+                      <div className="w-8 h-8 rounded-lg bg-surface-100 text-slate-500 flex items-center justify-center font-bold text-sm border border-surface-200 group-hover:bg-white group-hover:shadow-sm transition-all">
+                        {index + 1}
+                      </div>
+                      <GripVertical className="w-4 h-4 text-slate-300 group-hover:text-slate-400" />
+                    </div>
+                    <div className="flex-1 space-y-3 min-w-0">
+                      <input
+                        className="w-full font-bold text-slate-800 text-lg bg-transparent border-none p-0 focus:ring-0 hover:text-primary-700 transition-colors"
+                        value={chapter.title}
+                        onChange={(e) => updateChapter(index, { title: e.target.value }, `${chapter.id}:title`)}
+                      />
+                      <textarea
+                        className="w-full text-slate-500 text-sm bg-transparent border-none p-0 focus:ring-0 resize-none h-12 leading-relaxed"
+                        value={chapter.description}
+                        onChange={(e) => updateChapter(index, { description: e.target.value }, `${chapter.id}:description`)}
+                      />
+                      <KeyPointsInput value={chapter.keyPoints} onChange={(value) => updateChapter(index, { keyPoints: value.split('\n') }, `${chapter.id}:keyPoints`)} />
+
+                      {isEbook && (
+                        <div className="space-y-2 border-l-2 border-surface-200 pl-4">
+                          {chapter.sections?.map((section, s) => (
+                            <div key={section.id} className="flex gap-3 group/section">
+                              <span className="text-[10px] font-bold text-slate-300 mt-1.5 w-8 shrink-0">{index + 1}.{s + 1}</span>
+                              <div className="flex-1 space-y-1">
+                                {/* A written section's title is its heading in the text, edited there */}
+                                <input
+                                  className="w-full font-semibold text-slate-700 text-sm bg-transparent border-none p-0 focus:ring-0 read-only:text-slate-500"
+                                  value={section.title}
+                                  readOnly={s < writtenSections}
+                                  title={s < writtenSections ? 'Written section: rename its heading in the chapter text' : undefined}
+                                  onChange={(e) => updateSection(index, section.id, 'title', e.target.value)}
+                                />
+                                <input
+                                  className="w-full text-slate-500 text-xs bg-transparent border-none p-0 focus:ring-0"
+                                  value={section.description}
+                                  onChange={(e) => updateSection(index, section.id, 'description', e.target.value)}
+                                />
+                                <KeyPointsInput value={section.keyPoints} onChange={(value) => updateSection(index, section.id, 'keyPoints', value)} />
+                              </div>
+                              <button
+                                onClick={() => removeSection(index, section.id)}
+                                className="opacity-0 group-hover/section:opacity-100 text-slate-300 hover:text-red-500 px-2 transition-all self-start"
+                                title="Remove section"
+                              >
+                                &times;
+                              </button>
+                            </div>
+                          ))}
+                          <button onClick={() => addSection(index)} className="text-xs font-semibold text-primary-600 hover:text-primary-800 transition-colors">
+                            + Add section
+                          </button>
+                        </div>
+                      )}
+
+                      <div className={`flex items-center gap-4 pt-1 text-xs font-semibold transition-opacity ${isBusy ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                        {isBusy ? (
+                          <span className="flex items-center gap-1.5 text-primary-600"><Loader2 className="w-3.5 h-3.5 animate-spin" /> Restructuring...</span>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleSplit(chapter.id)}
+                              disabled={isRestructuring}
+                              className="flex items-center gap-1.5 text-slate-400 hover:text-primary-600 disabled:opacity-40 transition-colors"
+                              title={`Split into two ${chapterLabel.toLowerCase()}s with AI`}
+                            >
+                              <Scissors className="w-3.5 h-3.5" /> Split into two
+                            </button>
+                            {index < outline.length - 1 && (
+                              <button
+                                onClick={() => handleMerge(chapter.id)}
+                                disabled={isRestructuring}
+                                className="flex items-center gap-1.5 text-slate-400 hover:text-primary-600 disabled:opacity-40 transition-colors"
+                                title={`Merge with "${outline[index + 1].title}" with AI`}
+                              >
+                                <Merge className="w-3.5 h-3.5" /> Merge with next
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <RemoveButton onClick={() => removeChapter(index)} title="Remove" />
+                  </div>
+                </React.Fragment>
+              );
+            })}
+
+            {group.part && (
+              <div
+                className={`px-10 py-3 ${dropTarget === `end:${group.part.id}` ? 'bg-primary-50' : ''}`}
+                {...dropZone(`end:${group.part.id}`, () => moveChapter(group.chapters[group.chapters.length - 1].index + 1, group.part!.id))}
+              >
+                <button onClick={() => addChapter(group.part!.id)} className="text-sm font-semibold text-primary-600 hover:text-primary-800 transition-colors">
+                  + Add chapter to Part {group.number}
+                </button>
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+        <div
+          className={`p-6 flex gap-3 ${dropTarget === 'end' ? 'bg-primary-50' : 'bg-surface-50/50'}`}
+          {...dropZone('end', () => moveChapter(outline.length))}
+        >
+          <button onClick={() => addChapter()} className="flex-1 py-4 border-2 border-dashed border-primary-200/50 rounded-xl text-primary-600 font-semibold hover:border-primary-500 hover:bg-primary-50 transition-all flex items-center justify-center gap-2">
+            <span className="text-lg">+</span> Add {chapterLabel}
+          </button>
+          {isEbook && (
+            <button onClick={addPart} className="flex-1 py-4 border-2 border-dashed border-primary-200/50 rounded-xl text-primary-600 font-semibold hover:border-primary-500 hover:bg-primary-50 transition-all flex items-center justify-center gap-2">
+              <span className="text-lg">+</span> Add Part
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookData, BookPart, Chapter, OutlineAngle, OutlineVariant } from '../types';
+import { classifyError, describeError } from '../services/providers';
+import { groupByPart, partLabel } from '../services/outline';
+import { angleLabel, generateOutlineVariant, OUTLINE_ANGLES, pickChapter, removeChapter } from '../services/outlineVariants';
+import { Columns3, Loader2, Sparkles, Trash2, X } from './Icons';
+
+interface OutlineVariantsModalProps {
+  book: BookData;
+  projectId?: string;
+  onSaveVariant: (variant: OutlineVariant) => void;
+  onDeleteVariant: (id: string) => void;
+  onApply: (next: { title: string; outline: Chapter[]; parts?: BookPart[] }, baseVariantId?: string) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  title: string;
+  outline: Chapter[];
+  parts?: BookPart[];
+  baseVariantId?: string; // The variant the draft started from, if not the current outline
+}
+
+interface ColumnProps {
+  heading: string;
+  title: string;
+  outline: Chapter[];
+  parts?: BookPart[];
+  actions?: React.ReactNode;
+  highlight?: boolean;
+  onPick?: (chapter: Chapter) => void;
+  onRemove?: (chapter: Chapter) => void;
+}
+
+// One outline as a column of parts and chapters
+const OutlineColumn = ({ heading, title, outline, parts, actions, highlight, onPick, onRemove }: ColumnProps) => (
+  <div className={`w-80 shrink-0 flex flex-col rounded-xl border bg-white overflow-hidden ${highlight ? 'border-primary-300 ring-2 ring-primary-100' : 'border-surface-200'}`}>
+    <div className="p-4 border-b border-surface-100 bg-surface-50 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-bold text-primary-600 uppercase tracking-widest">{heading}</span>
+        <div className="flex items-center gap-1">{actions}</div>
+      </div>
+      <div className="font-display font-bold text-slate-900 leading-snug">{title}</div>
+      <div className="text-xs text-slate-400">{outline.length} chapters{parts?.length ? ` in ${parts.length} parts` : ''}</div>
+    </div>
+    <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+      {outline.length === 0 && <div className="p-6 text-center text-xs text-slate-400">No chapters yet. Pick some from the outlines on the left.</div>}
+      {groupByPart({ outline, parts }).map((group, g) => (
+        <React.Fragment key={group.part?.id || `loose-${g}`}>
+          {group.part && <div className="px-2 pt-3 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{partLabel(group)}</div>}
+          {group.chapters.map(({ chapter, index }) => (
+            <div key={`${chapter.id}-${index}`} className="group flex gap-2 p-2 rounded-lg hover:bg-surface-50">
+              <span className="text-xs font-bold text-slate-300 w-5 shrink-0 pt-0.5">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-slate-800 leading-snug">{chapter.title}</div>
+                <div className="text-xs text-slate-500 line-clamp-2">{chapter.description}</div>
+                {chapter.sections?.length ? <div className="text-[10px] text-slate-400 mt-0.5">{chapter.sections.length} sections</div> : null}
+              </div>
+              {onPick && (
+                <button onClick={() => onPick(chapter)} className="self-start px-2 py-0.5 rounded-md text-xs font-bold text-primary-600 hover:bg-primary-50 opacity-0 group-hover:opacity-100 transition-opacity" title="Add to your outline">
+                  + Pick
+                </button>
+              )}
+              {onRemove && (
+                <button onClick={() => onRemove(chapter)} className="self-start px-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Remove from your outline">
+                  &times;
+                </button>
+              )}
+            </div>
+          ))}
+        </React.Fragment>
+      ))}
+    </div>
+  </div>
+);
+
+// Alternative outlines for the book side by side. Chapters are picked from
+// any of them into a draft, which replaces the outline when applied.
+// Generated variants are saved with the project right away.
+export const OutlineVariantsModal: React.FC<OutlineVariantsModalProps> = ({ book, projectId, onSaveVariant, onDeleteVariant, onApply, onClose }) => {
+  const variants = book.outlineVariants || [];
+  const [angles, setAngles] = useState<OutlineAngle[]>(OUTLINE_ANGLES.map(a => a.id).filter(id => !variants.some(v => v.angle === id)));
+  const [generating, setGenerating] = useState<OutlineAngle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>({ title: book.config.title, outline: book.outline, parts: book.parts });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const changed = draft.outline !== book.outline || draft.title !== book.config.title;
+  const written = book.outline.some(c => c.content?.trim());
+
+  const toggleAngle = (angle: OutlineAngle) =>
+    setAngles(current => current.includes(angle) ? current.filter(a => a !== angle) : [...current, angle]);
+
+  const generateVariants = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const requested = angles;
+    setGenerating(requested);
+    setError(null);
+    // Variants are independent, so they are requested together and shown as they arrive
+    const failures = await Promise.all(requested.map(async (angle) => {
+      try {
+        onSaveVariant(await generateOutlineVariant(book.config, angle, { projectId, signal: controller.signal }));
+        return null;
+      } catch (e) {
+        if (controller.signal.aborted || classifyError(e).kind === 'cancelled') return null;
+        console.error(`Outline variant "${angle}" failed`, e);
+        return `${OUTLINE_ANGLES.find(a => a.id === angle)?.label}: ${describeError(e)}`;
+      } finally {
+        setGenerating(current => current.filter(a => a !== angle));
+      }
+    }));
+    if (controller.signal.aborted) return;
+    const errors = failures.filter(Boolean);
+    if (errors.length) setError(errors.join('\n'));
+    setAngles([]);
+  };
+
+  const pick = (from: { parts?: BookPart[] }) => (chapter: Chapter) =>
+    setDraft(current => ({ ...current, ...pickChapter(chapter, from, current) }));
+
+  const useVariant = (variant: OutlineVariant) => {
+    if (draft.outline.length && changed && !confirm("Start over from this outline? Chapters picked so far are dropped.")) return;
+    setDraft({ title: variant.title, outline: variant.outline, parts: variant.parts, baseVariantId: variant.id });
+  };
+
+  const deleteVariant = (variant: OutlineVariant) => {
+    if (!confirm(`Delete the ${angleLabel(variant).toLowerCase()} outline "${variant.title}"?`)) return;
+    onDeleteVariant(variant.id);
+    if (draft.baseVariantId === variant.id) setDraft(current => ({ ...current, baseVariantId: undefined }));
+  };
+
+  const handleApply = () => {
+    const dropped = book.outline.filter(c => c.content?.trim() && !draft.outline.some(d => d.id === c.id));
+    if (dropped.length && !confirm(`${dropped.length} written chapter${dropped.length > 1 ? 's are' : ' is'} not in the new outline, and the text will be lost. Continue?`)) return;
+    onApply({ title: draft.title, outline: draft.outline, parts: draft.parts }, draft.baseVariantId);
+  };
+
+  const isGenerating = generating.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-[96rem] h-[90vh] flex flex-col overflow-hidden ring-1 ring-white/50">
+        <div className="p-5 border-b border-surface-100 flex items-center justify-between bg-surface-50">
+          <div className="flex items-center gap-2 font-bold text-slate-800">
+            <Columns3 className="w-5 h-5 text-primary-600" />
+            Compare Outlines
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 border-b border-surface-100 flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest mr-2">New variants</span>
+          {OUTLINE_ANGLES.map(angle => (
+            <button
+              key={angle.id}
+              onClick={() => toggleAngle(angle.id)}
+              disabled={isGenerating}
+              title={angle.description}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors disabled:opacity-50
+                ${angles.includes(angle.id) ? 'bg-primary-50 border-primary-300 text-primary-700' : 'bg-white border-surface-200 text-slate-500 hover:border-slate-300'}`}
+            >
+              {generating.includes(angle.id) && <Loader2 className="w-3 h-3 animate-spin inline mr-1.5" />}
+              {angle.label}
+            </button>
+          ))}
+          <button
+            onClick={generateVariants}
+            disabled={isGenerating || angles.length === 0}
+            className="ml-auto px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-black text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {isGenerating ? `Generating ${generating.length}...` : `Generate ${angles.length || ''} Variant${angles.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+
+        {error && <div className="px-5 py-3 bg-red-50 border-b border-red-100 text-sm text-red-600 whitespace-pre-line">{error}</div>}
+
+        <div className="flex-1 min-h-0 flex gap-4 p-5 bg-surface-50/50">
+          <div className="flex-1 min-w-0 flex gap-4 overflow-x-auto custom-scrollbar pb-2">
+            <OutlineColumn
+              heading="Current"
+              title={book.config.title}
+              outline={book.outline}
+              parts={book.parts}
+              onPick={pick(book)}
+            />
+            {variants.map(variant => (
+              <OutlineColumn
+                key={variant.id}
+                heading={angleLabel(variant)}
+                title={variant.title}
+                outline={variant.outline}
+                parts={variant.parts}
+                highlight={draft.baseVariantId === variant.id}
+                onPick={pick(variant)}
+                actions={
+                  <>
+                    <button onClick={() => useVariant(variant)} className="px-2 py-0.5 rounded-md text-[11px] font-bold text-primary-600 hover:bg-primary-50" title="Start your outline from this one">
+                      Use
+                    </button>
+                    <button onClick={() => deleteVariant(variant)} className="p-1 rounded-md text-slate-300 hover:text-red-500" title="Delete variant">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                }
+              />
+            ))}
+            {generating.map(angle => (
+              <div key={angle} className="w-80 shrink-0 rounded-xl border border-dashed border-surface-300 flex flex-col items-center justify-center gap-3 text-sm text-slate-400">
+                <Loader2 className="w-6 h-6 animate-spin text-primary-500" />
+                {OUTLINE_ANGLES.find(a => a.id === angle)?.label} outline...
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-3 shrink-0">
+            <OutlineColumn
+              heading="Your outline"
+              title={draft.title}
+              outline={draft.outline}
+              parts={draft.parts}
+              highlight
+              onRemove={(chapter) => setDraft(current => ({ ...current, ...removeChapter(current, chapter.id) }))}
+              actions={
+                changed && (
+                  <button onClick={() => setDraft({ title: book.config.title, outline: book.outline, parts: book.parts })} className="px-2 py-0.5 rounded-md text-[11px] font-bold text-slate-500 hover:bg-surface-100" title="Back to the current outline">
+                    Reset
+                  </button>
+                )
+              }
+            />
+            {written && draft.baseVariantId && <p className="w-80 text-[11px] text-slate-400">Written chapters keep their text only if picked from the current outline.</p>}
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-5 py-2.5 text-slate-500 hover:text-slate-800 text-sm font-medium">Cancel</button>
+              <button
+                onClick={handleApply}
+                disabled={!changed || draft.outline.length === 0}
+                className="flex-1 px-6 py-2.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm font-bold shadow-lg shadow-primary-500/20 disabled:opacity-50"
+              >
+                Use This Outline
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
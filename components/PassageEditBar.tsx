@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookConfig, Chapter, Grounding } from '../types';
+import * as AIService from '../services/aiService';
+import { classifyError, describeError } from '../services/providers';
+import { diffWords } from '../services/textDiff';
+import { WordDiff } from './WordDiff';
+import { CheckCircle, Loader2, Wand2, X } from './Icons';
+
+interface PassageEditBarProps {
+  passage: string;
+  context: string; // Text around the passage, sent for tone and flow
+  chapter: Chapter;
+  config: BookConfig;
+  projectId?: string;
+  onApply: (replacement: string, grounding?: Grounding) => void;
+  onClose: () => void;
+}
+
+const OPERATIONS: { operation: AIService.PassageOperation; label: string }[] = [
+  { operation: 'rephrase', label: 'Rephrase' },
+  { operation: 'example', label: 'Add example' },
+  { operation: 'bullets', label: 'Bullet list' },
+  { operation: 'statistic', label: 'Add statistic' },
+  { operation: 'grammar', label: 'Fix grammar' },
+];
+
+// Floating bar for AI edits of a selected passage; the result is shown as a
+// diff and only replaces the selection when applied.
+export const PassageEditBar: React.FC<PassageEditBarProps> = ({ passage, context, chapter, config, projectId, onApply, onClose }) => {
+  const [running, setRunning] = useState<AIService.PassageOperation | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [grounding, setGrounding] = useState<Grounding | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // A new selection starts over
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setRunning(null);
+    setResult(null);
+    setError(null);
+  }, [passage]);
+
+  const runOperation = async (operation: AIService.PassageOperation) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(operation);
+    setResult(null);
+    setGrounding(undefined);
+    setError(null);
+    try {
+      const text = await AIService.editPassage(passage.trim(), context, chapter, config, operation, {
+        projectId,
+        signal: controller.signal,
+        onGrounding: setGrounding,
+      });
+      // The selection's own leading/trailing whitespace (e.g. a paragraph break) is kept
+      const [, leading, , trailing] = passage.match(/^(\s*)([\s\S]*?)(\s*)$/) || [];
+      setResult(`${leading || ''}${text}${trailing || ''}`);
+    } catch (e) {
+      if (controller.signal.aborted || classifyError(e).kind === 'cancelled') return;
+      console.error("Passage edit failed", e);
+      setError(describeError(e));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(null);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-[min(44rem,calc(100vw-2rem))] bg-white rounded-2xl shadow-2xl border border-surface-200 z-40 animate-slide-up no-print">
+      <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0 text-sm">
+          <Wand2 className="w-4 h-4 text-primary-600 shrink-0" />
+          <span className="text-slate-500 truncate">“{passage.trim()}”</span>
+        </div>
+        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-600 hover:bg-surface-50 shrink-0">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {OPERATIONS.map(({ operation, label }) => (
+            <button
+              key={operation}
+              onClick={() => runOperation(operation)}
+              disabled={running !== null}
+              className="px-3 py-1.5 rounded-full border border-surface-200 text-xs font-bold text-slate-600 hover:text-primary-700 hover:border-primary-200 hover:bg-primary-50 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+              title={operation === 'statistic' && config.enableSearch ? 'Looks up figures with search grounding' : undefined}
+            >
+              {running === operation && <Loader2 className="w-3 h-3 animate-spin" />}
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result !== null && (
+          <>
+            <WordDiff
+              parts={diffWords(passage, result)}
+              className="max-h-60 overflow-y-auto p-3 rounded-xl bg-surface-50 border border-surface-200 font-serif text-sm leading-relaxed text-slate-700"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setResult(null)} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800">
+                Discard
+              </button>
+              <button
+                onClick={() => onApply(result, grounding)}
+                className="px-5 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm font-bold shadow-lg shadow-primary-500/20 flex items-center gap-2"
+              >
+                <CheckCircle className="w-4 h-4" /> Replace Selection
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
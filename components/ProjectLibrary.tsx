@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { GenerationStatus, ProjectSummary } from '../types';
+import { BookOpen, LayoutTemplate, Trash2, Copy, Pencil, Clock, Loader2 } from './Icons';
+import * as ProjectStore from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  onOpen: (id: string) => void;
+  refreshKey?: number;
+}
+
+const STATUS_LABELS: Partial<Record<GenerationStatus, string>> = {
+  [GenerationStatus.REVIEWING_OUTLINE]: 'Outline',
+  [GenerationStatus.GENERATING_BOOK]: 'In Progress',
+  [GenerationStatus.PAUSED]: 'Paused',
+  [GenerationStatus.ERROR]: 'Needs Retry',
+  [GenerationStatus.COMPLETED]: 'Completed',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen, refreshKey }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameBuffer, setRenameBuffer] = useState('');
+
+  const refresh = async () => {
+    try {
+      setProjects(await ProjectStore.listProjects());
+    } catch (e) {
+      console.error("Failed to load project library", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Storage can fail (a full disk, a blocked database); the list is reloaded
+  // either way so it shows what was actually stored
+  const runAction = async (label: string, action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      console.error(`Failed to ${label}`, e);
+      alert(`Failed to ${label}. Please try again.`);
+    }
+    refresh();
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.title}"? This cannot be undone.`)) return;
+    runAction('delete the project', () => ProjectStore.deleteProject(project.id));
+  };
+
+  const handleDuplicate = (id: string) => runAction('duplicate the project', () => ProjectStore.duplicateProject(id));
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameBuffer(project.title);
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const title = renameBuffer.trim();
+    setRenamingId(null);
+    if (title) runAction('rename the project', () => ProjectStore.renameProject(renamingId, title));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10 text-slate-300">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="mt-16 animate-fade-in">
+      <div className="flex items-baseline justify-between mb-4 px-1">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Your Projects</h3>
+        <span className="text-xs text-slate-400">{projects.length} saved</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {projects.map(project => (
+          <div key={project.id} className="group bg-white rounded-2xl border border-surface-200 overflow-hidden hover:shadow-lg hover:border-primary-200 transition-all flex flex-col">
+            <button onClick={() => onOpen(project.id)} className="relative aspect-[3/4] bg-slate-900 overflow-hidden text-left">
+              {project.coverThumbnail ? (
+                <img src={project.coverThumbnail} alt={project.title} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-white/30">
+                  {project.format === 'ebook' ? <BookOpen className="w-10 h-10" /> : <LayoutTemplate className="w-10 h-10" />}
+                </div>
+              )}
+              {STATUS_LABELS[project.status] && (
+                <span className="absolute top-3 left-3 px-2 py-0.5 rounded-md bg-white/90 text-[10px] font-bold uppercase tracking-wider text-slate-600">
+                  {STATUS_LABELS[project.status]}
+                </span>
+              )}
+            </button>
+
+            <div className="p-3 flex-1 flex flex-col gap-2">
+              {renamingId === project.id ? (
+                <input
+                  autoFocus
+                  value={renameBuffer}
+                  onChange={(e) => setRenameBuffer(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full text-sm font-bold text-slate-800 border border-primary-200 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-primary-500/20"
+                />
+              ) : (
+                <button onClick={() => onOpen(project.id)} className="text-sm font-bold text-slate-800 text-left line-clamp-2 hover:text-primary-700">
+                  {project.title}
+                </button>
+              )}
+
+              <div className="flex items-center gap-1.5 text-[11px] text-slate-400">
+                <Clock className="w-3 h-3" />
+                <span>{formatDate(project.updatedAt)}</span>
+                <span>&middot;</span>
+                <span>{project.chapterCount} {project.format === 'ebook' ? 'chapters' : 'slides'}</span>
+              </div>
+
+              <div className="flex items-center gap-1 mt-auto pt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => startRename(project)} className="p-1.5 rounded-md text-slate-400 hover:text-primary-600 hover:bg-surface-50" title="Rename">
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDuplicate(project.id)} className="p-1.5 rounded-md text-slate-400 hover:text-primary-600 hover:bg-surface-50" title="Duplicate">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(project)} className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 ml-auto" title="Delete">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useRef, useState } from 'react';
+import { AIProviderId, MockSettings, ProviderSettings, RateLimits } from '../types';
+import {
+  PROVIDERS,
+  DEFAULT_MOCK_SETTINGS,
+  DEFAULT_RATE_LIMITS,
+  clearRecording,
+  exportRecording,
+  getRecordingSize,
+  getReplayFixtureInfo,
+  loadReplayFixture,
+} from '../services/providers';
+import { downloadBlob } from '../services/fileUtils';
+import { Server, Sparkles, FlaskConical, PlayCircle, CircleDot, Download, Upload } from './Icons';
+
+interface ProviderSettingsPanelProps {
+  value: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const PROVIDER_ICONS: Record<AIProviderId, React.ElementType> = {
+  'gemini': Sparkles,
+  'openai-compatible': Server,
+  'mock': FlaskConical,
+  'replay': PlayCircle,
+};
+
+const inputClass = "w-full p-3 rounded-xl border border-surface-200 bg-surface-50 focus:bg-white text-slate-900 text-sm outline-none transition-all focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10";
+const fieldLabelClass = "text-[11px] font-semibold text-slate-500 ml-1";
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ value, onChange }) => {
+  const info = PROVIDERS[value.id];
+  const mock = { ...DEFAULT_MOCK_SETTINGS, ...value.mock };
+  const limits = { ...DEFAULT_RATE_LIMITS, ...value.limits };
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const [fixtureInfo, setFixtureInfo] = useState(getReplayFixtureInfo);
+  const [recordingSize, setRecordingSize] = useState(getRecordingSize);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+
+  const selectProvider = (id: AIProviderId) => {
+    if (id === value.id) return;
+    // Model names don't carry over between providers
+    onChange({ id });
+  };
+
+  const update = (key: 'baseUrl' | 'textModel' | 'imageModel', text: string) => {
+    onChange({ ...value, [key]: text.trim() ? text : undefined });
+  };
+
+  const updateMock = (key: keyof MockSettings, amount: number) => {
+    onChange({ ...value, mock: { ...mock, [key]: amount } });
+  };
+
+  const updateLimit = (key: keyof RateLimits, amount: number) => {
+    onChange({ ...value, limits: { ...limits, [key]: Math.max(1, Math.round(amount) || 1) } });
+  };
+
+  const handleLoadFixture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await loadReplayFixture(file);
+      setFixtureInfo(getReplayFixtureInfo());
+      setFixtureError(null);
+    } catch (err: any) {
+      setFixtureError(err.message || "Failed to load fixture file.");
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    downloadBlob(exportRecording(), `recording-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleClearRecording = () => {
+    clearRecording();
+    setRecordingSize(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-1">AI Provider</label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(PROVIDERS) as AIProviderId[]).map(id => {
+          const active = value.id === id;
+          const Icon = PROVIDER_ICONS[id];
+          return (
+            <button
+              key={id}
+              onClick={() => selectProvider(id)}
+              className={`p-4 rounded-2xl border transition-all duration-200 text-left relative overflow-hidden group ${
+                active
+                  ? 'bg-primary-50 border-primary-200 text-primary-900'
+                  : 'bg-white border-surface-200 hover:border-primary-200 hover:shadow-lg'
+              }`}
+            >
+              <div className={`absolute top-4 right-4 w-4 h-4 rounded-full border-2 flex items-center justify-center ${active ? 'border-primary-500' : 'border-slate-300'}`}>
+                {active && <div className="w-2 h-2 bg-primary-500 rounded-full" />}
+              </div>
+              <Icon className={`w-6 h-6 mb-2 ${active ? 'text-primary-600' : 'text-slate-400 group-hover:text-primary-500'}`} />
+              <div className="font-bold text-sm">{PROVIDERS[id].label}</div>
+              <div className="text-xs opacity-70 mt-1">{PROVIDERS[id].description}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {info.live && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {value.id === 'openai-compatible' && (
+            <div className="space-y-1 md:col-span-3">
+              <label className={fieldLabelClass}>Base URL</label>
+              <input
+                type="url"
+                value={value.baseUrl || ''}
+                onChange={(e) => update('baseUrl', e.target.value)}
+                placeholder={info.defaults.baseUrl}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <label className={fieldLabelClass}>Text model</label>
+            <input
+              type="text"
+              value={value.textModel || ''}
+              onChange={(e) => update('textModel', e.target.value)}
+              placeholder={info.defaults.textModel}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <label className={fieldLabelClass}>Image model</label>
+            <input
+              type="text"
+              value={value.imageModel || ''}
+              onChange={(e) => update('imageModel', e.target.value)}
+              placeholder={info.defaults.imageModel || 'None — skip illustrations'}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      {value.id !== 'replay' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className={fieldLabelClass}>Parallel requests</label>
+            <input
+              type="number"
+              min={1}
+              value={limits.maxConcurrent}
+              onChange={(e) => updateLimit('maxConcurrent', Number(e.target.value))}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className={fieldLabelClass}>Requests per minute</label>
+            <input
+              type="number"
+              min={1}
+              value={limits.requestsPerMinute}
+              onChange={(e) => updateLimit('requestsPerMinute', Number(e.target.value))}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      {value.id === 'mock' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className={fieldLabelClass}>Latency per chunk (ms)</label>
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={mock.latencyMs}
+              onChange={(e) => updateMock('latencyMs', Math.max(0, Number(e.target.value) || 0))}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className={fieldLabelClass}>Failure rate ({Math.round(mock.failureRate * 100)}%)</label>
+            <div className="h-[46px] flex items-center px-1">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(mock.failureRate * 100)}
+                onChange={(e) => updateMock('failureRate', Number(e.target.value) / 100)}
+                className="w-full h-2 bg-surface-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {value.id === 'replay' && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-surface-50 border border-surface-200">
+          <div className="text-sm">
+            {fixtureInfo ? (
+              <span className="text-slate-700"><span className="font-mono">{fixtureInfo.name}</span> · {fixtureInfo.entries} responses</span>
+            ) : (
+              <span className="text-slate-500">No recording loaded for this session.</span>
+            )}
+            {fixtureError && <p className="text-xs text-red-500 mt-1">{fixtureError}</p>}
+          </div>
+          <input ref={fixtureInputRef} type="file" accept="application/json,.json" onChange={handleLoadFixture} className="hidden" />
+          <button
+            onClick={() => fixtureInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-surface-200 rounded-full text-sm font-medium text-slate-600 hover:text-primary-600 hover:border-primary-200 transition-colors flex-none"
+          >
+            <Upload className="w-4 h-4" /> Load recording
+          </button>
+        </div>
+      )}
+
+      {info.live && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-surface-50 border border-surface-200">
+          <div className="flex gap-3">
+            <CircleDot className={`w-5 h-5 mt-0.5 ${value.record ? 'text-red-500' : 'text-slate-300'}`} />
+            <div>
+              <h4 className="font-bold text-slate-700 text-sm">Record responses</h4>
+              <p className="text-xs text-slate-500">Capture this session to a fixture file for offline replay</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 flex-none">
+            {recordingSize > 0 && (
+              <>
+                <button onClick={handleDownloadRecording} className="flex items-center gap-1 text-xs font-bold text-primary-600 hover:text-primary-700">
+                  <Download className="w-3.5 h-3.5" /> {recordingSize} recorded
+                </button>
+                <button onClick={handleClearRecording} className="text-xs font-medium text-slate-400 hover:text-red-500">Clear</button>
+              </>
+            )}
+            <button
+              onClick={() => onChange({ ...value, record: !value.record || undefined })}
+              className={`w-12 h-6 rounded-full transition-colors relative ${value.record ? 'bg-red-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform shadow-sm ${value.record ? 'left-[calc(100%-1.25rem)]' : 'left-1'}`} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
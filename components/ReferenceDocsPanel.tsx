@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceDocument } from '../types';
+import { importReferenceDocument, REFERENCE_FILE_ACCEPT } from '../services/referenceDocs';
+import { ChevronRight, FileText, Library, Loader2, Upload, X } from './Icons';
+
+interface ReferenceDocsPanelProps {
+  value?: ReferenceDocument[];
+  onChange: (documents: ReferenceDocument[]) => void;
+}
+
+const wordCount = (document: ReferenceDocument) =>
+  document.chunks.reduce((sum, chunk) => sum + chunk.text.split(/\s+/).filter(Boolean).length, 0);
+
+// Collapsible card for the project's reference documents, like the book bible.
+export const ReferenceDocsPanel: React.FC<ReferenceDocsPanelProps> = ({ value = [], onChange }) => {
+  const [isOpen, setIsOpen] = useState(value.length > 0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const imported: ReferenceDocument[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await importReferenceDocument(file));
+      } catch (err: any) {
+        console.error(`Failed to import ${file.name}`, err);
+        failed.push(err.message || `${file.name}: import failed.`);
+      }
+    }
+    setErrors(failed);
+    if (imported.length) onChange([...value, ...imported]);
+    setIsImporting(false);
+  };
+
+  const totalPassages = value.reduce((sum, document) => sum + document.chunks.length, 0);
+
+  return (
+    <div className="bg-white rounded-[1.5rem] shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full p-6 flex items-center justify-between text-left hover:bg-surface-50 transition-colors">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 rounded-xl bg-primary-50 text-primary-600 flex items-center justify-center">
+            <Library className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Reference Material</h3>
+            <p className="text-sm text-slate-500">
+              {value.length > 0
+                ? `${value.length} ${value.length === 1 ? 'document' : 'documents'} · ${totalPassages} passages`
+                : 'Your research, whitepapers and notes, used to outline and write each chapter'}
+            </p>
+          </div>
+        </div>
+        <ChevronRight className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="p-6 pt-2 space-y-4 border-t border-surface-100">
+          {value.length > 0 && (
+            <ul className="divide-y divide-surface-100">
+              {value.map(document => (
+                <li key={document.id} className="flex items-center gap-3 py-3">
+                  <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-700 truncate">{document.name}</div>
+                    <div className="text-xs text-slate-400">
+                      {document.kind.toUpperCase()} · {wordCount(document).toLocaleString()} words · {document.chunks.length} passages
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onChange(value.filter(d => d.id !== document.id))}
+                    className="p-2 text-slate-300 hover:text-red-500 transition-colors"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-1">
+              {errors.map((message, i) => <li key={i}>{message}</li>)}
+            </ul>
+          )}
+
+          <input ref={inputRef} type="file" multiple accept={REFERENCE_FILE_ACCEPT} onChange={handleFiles} className="hidden" />
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-surface-200 rounded-full text-sm font-medium text-slate-600 hover:text-primary-600 hover:border-primary-200 transition-colors disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Add documents
+          </button>
+          <p className="text-xs text-slate-400">Markdown, plain text, PDF (text layer) or HTML. Files are indexed in this browser; only the passages relevant to each prompt are sent to the AI provider.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { BookData, BookPart, Chapter } from '../types';
+import { OutlineEditor } from './OutlineEditor';
+import { ListTree, X } from './Icons';
+
+interface RestructureModalProps {
+  book: BookData;
+  projectId?: string;
+  onApply: (outline: Chapter[], parts?: BookPart[]) => void;
+  onClose: () => void;
+}
+
+// Restructures a written book on a draft of its outline; nothing changes
+// until the draft is applied.
+export const RestructureModal: React.FC<RestructureModalProps> = ({ book, projectId, onApply, onClose }) => {
+  const [draft, setDraft] = useState<{ outline: Chapter[]; parts?: BookPart[] }>({ outline: book.outline, parts: book.parts });
+  const changed = draft.outline !== book.outline || draft.parts !== book.parts;
+
+  const handleClose = () => {
+    if (changed && !confirm("Discard the changes to the outline?")) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden ring-1 ring-white/50">
+        <div className="p-5 border-b border-surface-100 flex items-center justify-between bg-surface-50">
+          <div className="flex items-center gap-2 font-bold text-slate-800">
+            <ListTree className="w-5 h-5 text-primary-600" />
+            Restructure "{book.config.title}"
+          </div>
+          <button onClick={handleClose} className="p-1 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          <OutlineEditor
+            outline={draft.outline}
+            parts={draft.parts}
+            config={book.config}
+            projectId={projectId}
+            onChange={(outline, parts) => setDraft({ outline, parts })}
+          />
+        </div>
+
+        <div className="p-5 border-t border-surface-100 flex items-center justify-between gap-4 bg-surface-50">
+          <p className="text-xs text-slate-400">Written text moves with its chapter. New chapters are written from the outline review.</p>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={handleClose} className="px-5 py-2.5 text-slate-500 hover:text-slate-800 text-sm font-medium">Cancel</button>
+            <button
+              onClick={() => onApply(draft.outline, draft.parts)}
+              disabled={!changed || draft.outline.length === 0}
+              className="px-6 py-2.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm font-bold shadow-lg shadow-primary-500/20 disabled:opacity-50"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
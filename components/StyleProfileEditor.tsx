@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { StyleProfile } from '../types';
+import { EMPTY_STYLE_PROFILE, MAX_REFERENCE_IMAGES, prepareReferenceImage } from '../services/visualStyle';
+import { IMAGE_FILE_ACCEPT } from '../services/fileUtils';
+import { ChevronRight, Loader2, Palette, Upload, X } from './Icons';
+
+interface StyleProfileEditorProps {
+  value?: StyleProfile;
+  coverImage?: string;
+  onChange: (profile: StyleProfile) => void;
+}
+
+type TextField = 'medium' | 'palette' | 'motifs' | 'avoid';
+
+const TEXT_FIELDS: Record<TextField, { title: string; placeholder: string }> = {
+  medium: { title: 'Medium & rendering', placeholder: 'Flat vector illustration, soft grain, rounded shapes' },
+  palette: { title: 'Palette', placeholder: 'Deep navy, warm coral and cream, one accent per image' },
+  motifs: { title: 'Recurring motifs or mascot', placeholder: 'A small orange fox in a green scarf; paper-plane trails' },
+  avoid: { title: 'Avoid', placeholder: 'Text, logos, photorealism, neon gradients' },
+};
+
+const inputClass = "w-full p-2.5 rounded-lg border border-surface-200 bg-surface-50 focus:bg-white text-slate-800 text-sm outline-none transition-all focus:border-primary-500 focus:ring-4 focus:ring-primary-500/10";
+
+// Collapsible card for the book's visual identity, like the book bible.
+export const StyleProfileEditor: React.FC<StyleProfileEditorProps> = ({ value, coverImage, onChange }) => {
+  const profile = { ...EMPTY_STYLE_PROFILE, ...value };
+  const filled = (Object.keys(TEXT_FIELDS) as TextField[]).filter(field => profile[field].trim()).length;
+  const [isOpen, setIsOpen] = useState(filled > 0 || profile.referenceImages.length > 0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_REFERENCE_IMAGES - profile.referenceImages.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const images: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        images.push(await prepareReferenceImage(file));
+      } catch (err: any) {
+        console.error(`Failed to read ${file.name}`, err);
+        failed.push(err.message || `${file.name}: could not read the image.`);
+      }
+    }
+    setErrors(failed);
+    if (images.length) onChange({ ...profile, referenceImages: [...profile.referenceImages, ...images] });
+    setIsImporting(false);
+  };
+
+  const summary = [
+    filled > 0 && `${filled} of ${Object.keys(TEXT_FIELDS).length} fields`,
+    profile.referenceImages.length > 0 && `${profile.referenceImages.length} reference ${profile.referenceImages.length === 1 ? 'image' : 'images'}`,
+    profile.matchCover && 'matches the cover',
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-white rounded-[1.5rem] shadow-xl shadow-surface-200/50 border border-surface-200 overflow-hidden">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full p-6 flex items-center justify-between text-left hover:bg-surface-50 transition-colors">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 rounded-xl bg-primary-50 text-primary-600 flex items-center justify-center">
+            <Palette className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Visual Identity</h3>
+            <p className="text-sm text-slate-500">
+              {filled > 0 || profile.referenceImages.length > 0 ? summary.join(' · ') : 'Palette, medium and motifs shared by the cover and every illustration'}
+            </p>
+          </div>
+        </div>
+        <ChevronRight className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="p-6 pt-2 space-y-6 border-t border-surface-100">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {(Object.keys(TEXT_FIELDS) as TextField[]).map(field => (
+              <div key={field} className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{TEXT_FIELDS[field].title}</h4>
+                <textarea
+                  className={`${inputClass} h-20 resize-none`}
+                  value={profile[field]}
+                  placeholder={TEXT_FIELDS[field].placeholder}
+                  onChange={(e) => onChange({ ...profile, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Reference images</h4>
+              <p className="text-xs text-slate-400">Sent with every image request, so the art matches them. Up to {MAX_REFERENCE_IMAGES}.</p>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {coverImage && profile.matchCover && (
+                <div className="relative w-24 h-24 rounded-lg overflow-hidden border border-primary-200" title="The cover is sent with every illustration request">
+                  <img src={coverImage} alt="Cover" className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-primary-600/90 text-white text-[10px] font-bold text-center py-0.5">Cover</span>
+                </div>
+              )}
+              {profile.referenceImages.map((image, i) => (
+                <div key={i} className="relative w-24 h-24 rounded-lg overflow-hidden border border-surface-200 group">
+                  <img src={image} alt={`Reference ${i + 1}`} className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => onChange({ ...profile, referenceImages: profile.referenceImages.filter((_, j) => j !== i) })}
+                    className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-slate-500 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {profile.referenceImages.length < MAX_REFERENCE_IMAGES && (
+                <button
+                  onClick={() => inputRef.current?.click()}
+                  disabled={isImporting}
+                  className="w-24 h-24 rounded-lg border-2 border-dashed border-surface-200 text-slate-400 hover:text-primary-600 hover:border-primary-200 flex flex-col items-center justify-center gap-1 text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                  {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                  Add
+                </button>
+              )}
+            </div>
+            <input ref={inputRef} type="file" multiple accept={IMAGE_FILE_ACCEPT} onChange={handleFiles} className="hidden" />
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-600 space-y-1">
+                {errors.map((message, i) => <li key={i}>{message}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <label className="flex items-center gap-3 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={profile.matchCover}
+              onChange={(e) => onChange({ ...profile, matchCover: e.target.checked })}
+              className="accent-primary-600 w-4 h-4"
+            />
+            Draw illustrations to match the cover
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { Chapter, ChapterVersionSource } from '../types';
+import { stateAtVersion } from '../services/chapterHistory';
+import { diffStats, diffWords } from '../services/textDiff';
+import { WordDiff } from './WordDiff';
+import { History, RefreshCw, X } from './Icons';
+
+interface VersionHistoryModalProps {
+  chapter: Chapter;
+  onRevert: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ChapterVersionSource, string> = {
+  'original': 'Original',
+  'generated': 'Generated',
+  'manual': 'Manual edit',
+  'ai-rewrite': 'AI rewrite',
+  'ai-edit': 'AI passage edit',
+  'image-edit': 'AI image edit',
+  'upload': 'Uploaded image',
+  'revert': 'Reverted',
+  'restructure': 'Split / merge',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Wiki-style history: pick any two versions to compare, restore either one.
+export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ chapter, onRevert, onClose }) => {
+  const versions = chapter.versions || [];
+  const latest = versions[versions.length - 1];
+  const [toId, setToId] = useState(latest?.id);
+  const [fromId, setFromId] = useState(versions[versions.length - 2]?.id || latest?.id);
+
+  const from = fromId ? stateAtVersion(versions, fromId) : null;
+  const to = toId ? stateAtVersion(versions, toId) : null;
+  const parts = useMemo(() => from && to ? diffWords(from.content, to.content) : [], [from?.content, to?.content]);
+  const stats = diffStats(parts);
+
+  const handleRevert = (versionId: string) => {
+    onRevert(versionId);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden ring-1 ring-white/50">
+        <div className="p-5 border-b border-surface-100 flex items-center justify-between bg-surface-50">
+          <div className="flex items-center gap-2 font-bold text-slate-800 min-w-0">
+            <History className="w-5 h-5 text-primary-600 shrink-0" />
+            <span className="truncate">History of "{chapter.title}"</span>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full transition-colors text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-10 text-center text-slate-500 text-sm">
+            No versions yet. Changes are recorded from the next edit, rewrite or redraw.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <div className="w-80 shrink-0 border-r border-surface-100 overflow-y-auto">
+              <div className="grid grid-cols-[2rem_2rem_1fr] px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-slate-400 sticky top-0 bg-white">
+                <span>From</span><span>To</span><span>Version</span>
+              </div>
+              {[...versions].reverse().map(version => {
+                const changed = [version.content !== undefined && 'Text', version.imageUrl !== undefined && 'Image'].filter(Boolean).join(' & ');
+                return (
+                  <div key={version.id} className={`grid grid-cols-[2rem_2rem_1fr] items-center px-4 py-3 border-t border-surface-100 ${version.id === toId ? 'bg-primary-50/60' : ''}`}>
+                    <input type="radio" name="from" checked={version.id === fromId} onChange={() => setFromId(version.id)} className="accent-primary-600" />
+                    <input type="radio" name="to" checked={version.id === toId} onChange={() => setToId(version.id)} className="accent-primary-600" />
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                        {SOURCE_LABELS[version.source]}
+                        {version.id === latest.id && <span className="text-[10px] font-bold uppercase tracking-wider text-green-600">Current</span>}
+                      </div>
+                      <div className="text-xs text-slate-400">{formatTime(version.createdAt)} · {changed}</div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="px-6 py-3 border-b border-surface-100 flex items-center justify-between gap-4">
+                <div className="text-xs text-slate-500">
+                  <span className="text-green-600 font-bold">+{stats.added}</span> / <span className="text-red-500 font-bold">−{stats.removed}</span> words
+                </div>
+                {toId && toId !== latest.id && (
+                  <button
+                    onClick={() => handleRevert(toId)}
+                    className="px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-black text-xs font-bold flex items-center gap-2"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" /> Restore this version
+                  </button>
+                )}
+              </div>
+              <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                {from && to && from.imageUrl !== to.imageUrl && (
+                  <div className="grid grid-cols-2 gap-4">
+                    {[from.imageUrl, to.imageUrl].map((url, i) => (
+                      <div key={i} className="space-y-1">
+                        <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{i === 0 ? 'From' : 'To'}</div>
+                        {url ? (
+                          <img src={url} alt="" className={`w-full aspect-video object-cover rounded-lg ring-2 ${i === 0 ? 'ring-red-200' : 'ring-green-200'}`} />
+                        ) : (
+                          <div className="w-full aspect-video rounded-lg bg-surface-100 flex items-center justify-center text-xs text-slate-400">No image</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <WordDiff parts={parts} className="font-serif text-sm leading-relaxed text-slate-700" />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
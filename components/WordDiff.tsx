@@ -0,0 +1,17 @@
+import React from 'react';
+import { DiffPart } from '../services/textDiff';
+
+// Inline word diff: removed text struck through in red, added text in green.
+export const WordDiff: React.FC<{ parts: DiffPart[]; className?: string }> = ({ parts, className = '' }) => (
+  <div className={`whitespace-pre-wrap ${className}`}>
+    {parts.map((part, i) =>
+      part.type === 'equal' ? (
+        <span key={i}>{part.text}</span>
+      ) : part.type === 'removed' ? (
+        <del key={i} className="bg-red-50 text-red-600 line-through decoration-red-300">{part.text}</del>
+      ) : (
+        <ins key={i} className="bg-green-50 text-green-700 no-underline">{part.text}</ins>
+      )
+    )}
+  </div>
+);
@@ -0,0 +1,525 @@
+import { BookConfig, BookPart, Chapter, ChapterDigest, Grounding, OutlineAngle } from "../types";
+import { formatBibleForPrompt } from "./bookBible";
+import { cleanKeyPoints, locateSections, sectionHeading } from "./outline";
+import { createId } from "./ids";
+import { formatPassagesForPrompt, retrievePassages } from "./referenceDocs";
+import { formatStyleForPrompt, styleReferences } from "./visualStyle";
+import { figureInstruction } from "./figures";
+import { DEFAULT_RATE_LIMITS, getProvider, getRateLimiter, ImageAspectRatio, RetryInfo, withRequestLayer } from "./providers";
+
+// Prompts for every generation step. The project's provider (Gemini by
+// default) only supplies the model calls, see services/providers.
+
+export interface RequestOptions {
+  projectId?: string; // Requests of one project share a rate limiter
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal; // Pausing or cancelling a run aborts its in-flight request
+  onGrounding?: (grounding: Grounding) => void; // Search sources, when a text stream used grounding
+}
+
+const providerFor = (config: BookConfig, options: RequestOptions = {}) =>
+  withRequestLayer(getProvider(config.provider), {
+    limiter: getRateLimiter(options.projectId || 'default', config.provider?.limits || DEFAULT_RATE_LIMITS),
+    onRetry: options.onRetry,
+  });
+
+export const providerSupportsSearch = (config: BookConfig) => getProvider(config.provider).supportsSearch;
+
+export const providerSupportsImages = (config: BookConfig) => getProvider(config.provider).supportsImages;
+
+export interface OutlineNode {
+  title: string;
+  description: string;
+  keyPoints?: string[];
+}
+
+type OutlineChapterNode = OutlineNode & { sections?: OutlineNode[] };
+
+interface OutlineResponse {
+  title: string;
+  parts?: (OutlineNode & { chapters?: OutlineChapterNode[] })[];
+  chapters?: OutlineChapterNode[]; // Flat outlines, as recorded before parts existed
+}
+
+const outlineNodeSchema = (description: string, children?: Record<string, unknown>) => ({
+  type: "object",
+  properties: {
+    title: { type: "string", description: `${description} title` },
+    description: { type: "string", description: "Brief description of contents." },
+    keyPoints: { type: "array", items: { type: "string" }, description: "2-4 key points it must get across." },
+    ...children,
+  },
+  required: ["title", "description", "keyPoints", ...Object.keys(children || {})]
+});
+
+const ANGLE_INSTRUCTIONS: Record<OutlineAngle, string> = {
+  'narrative': "Angle: narrative. Take the reader on a journey with a clear arc, where each chapter builds on the story so far.",
+  'problem-solution': "Angle: problem/solution. Open with the reader's problems and their causes, then work through the solutions and how to apply them.",
+  'step-by-step': "Angle: step-by-step. Make every chapter one step of a process the reader follows in order, from first step to result.",
+  'listicle': "Angle: listicle. Make every chapter one self-contained idea, tip or lesson with a punchy, numbered-list style title.",
+};
+
+// The angle asks for one structural approach, so outline variants differ
+export const generateBookOutline = async (config: BookConfig, options?: RequestOptions, angle?: OutlineAngle): Promise<{ title: string; parts: BookPart[]; chapters: Omit<Chapter, 'status' | 'id'>[] }> => {
+  const formatInstruction = config.format === 'linkedin-carousel'
+    ? "Format: LinkedIn Carousel (Slides). Structure the outline as key 'Slides' or 'Sections' that are punchy and visual. " +
+      "Return a single part with an empty title, one chapter per slide and no sections."
+    : "Format: Standard eBook. Structure standard chapters, each split into 2-5 sections. " +
+      "Group the chapters into parts when the book is long enough to need them (roughly 8 chapters or more); " +
+      "otherwise return a single part with an empty title.";
+
+  // The outline is built around the author's material, when there is any
+  const passages = retrievePassages(config.referenceDocs, `${config.topic} ${config.audience}`, 8);
+  const material = passages.length
+    ? `\n${formatPassagesForPrompt(passages, false)}\n\nBuild the outline around this material: cover what it covers, in an order that suits the audience.\n`
+    : '';
+
+  const prompt = `
+    You are an expert book editor. Create a structured JSON outline for a non-fiction project.
+
+    Topic: ${config.topic}
+    Target Audience: ${config.audience}
+    Tone: ${config.tone}
+    Author: ${config.authorName}
+    Target Chapter/Section Count: ${config.chapterCount}
+    ${formatInstruction}
+    ${angle ? ANGLE_INSTRUCTIONS[angle] : ''}
+    ${material}
+    Output strictly valid JSON. No markdown code blocks.
+  `;
+
+  const data = await providerFor(config, options).generateJson<OutlineResponse>({
+    prompt,
+    signal: options?.signal,
+    schemaName: 'book_outline',
+    schema: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "A catchy, professional title." },
+        parts: {
+          type: "array",
+          items: outlineNodeSchema("Part", {
+            chapters: {
+              type: "array",
+              items: outlineNodeSchema("Chapter/Slide", {
+                sections: { type: "array", items: outlineNodeSchema("Section") }
+              })
+            }
+          })
+        }
+      },
+      required: ["title", "parts"]
+    },
+  });
+
+  const groups = Array.isArray(data?.parts) ? data.parts : Array.isArray(data?.chapters) ? [{ title: '', description: '', chapters: data.chapters }] : null;
+  if (!groups) {
+    throw new Error("Failed to parse outline: 'parts' array missing.");
+  }
+
+  const node = (n: OutlineNode) => ({ title: String(n.title || ''), description: String(n.description || ''), keyPoints: cleanKeyPoints(n.keyPoints) });
+  // A lone or untitled part only wraps the chapters of a book without parts;
+  // slides are never grouped or split
+  const ebook = config.format === 'ebook';
+  const withParts = ebook && groups.filter(g => g.title?.trim()).length > 1;
+  const parts: BookPart[] = [];
+  const chapters: Omit<Chapter, 'status' | 'id'>[] = [];
+  for (const group of groups) {
+    const part = withParts && group.title?.trim() ? { id: createId('part'), ...node(group) } : undefined;
+    if (part) parts.push(part);
+    for (const chapter of group.chapters || []) {
+      const sections = ebook ? (chapter.sections || []).map(s => ({ id: createId('sec'), ...node(s) })) : [];
+      chapters.push({ ...node(chapter), partId: part?.id, sections: sections.length ? sections : undefined });
+    }
+  }
+  if (chapters.length === 0) {
+    throw new Error("Failed to parse outline: no chapters.");
+  }
+  return { title: data.title, parts, chapters };
+};
+
+const describeNode = (node: OutlineNode) =>
+  `"${node.title}": ${node.description}${cleanKeyPoints(node.keyPoints).length ? ` (key points: ${cleanKeyPoints(node.keyPoints).join('; ')})` : ''}`;
+
+const outlineContext = (outline: Chapter[]) =>
+  outline.map((c, i) => `${i + 1}. "${c.title}"`).join('\n');
+
+const textNode = (node: OutlineNode | undefined, fallback: OutlineNode): OutlineNode => ({
+  title: typeof node?.title === 'string' && node.title.trim() ? node.title : fallback.title,
+  description: typeof node?.description === 'string' ? node.description : fallback.description,
+  keyPoints: cleanKeyPoints(node?.keyPoints),
+});
+
+// Plans splitting an overloaded chapter in two: where to cut (blocks are its
+// sections, headings or paragraphs in order) and what each half is called.
+export const planChapterSplit = async (
+  chapter: Chapter,
+  blocks: string[],
+  outline: Chapter[],
+  config: BookConfig,
+  options?: RequestOptions
+): Promise<{ first: OutlineNode; second: OutlineNode; splitAt: number }> => {
+  const prompt = `You are an expert book editor restructuring the outline of "${config.title}" (${config.topic}; audience: ${config.audience}).
+
+  The whole outline:
+  ${outlineContext(outline)}
+
+  The chapter ${describeNode(chapter)} covers too much and becomes two consecutive chapters.
+  ${blocks.length >= 2 ? `Its content, in order:\n${blocks.map((b, i) => `  ${i + 1}. ${b}`).join('\n')}\n\n  Choose where to cut: splitAt is the number of the first item that moves to the second chapter (2 to ${blocks.length}).` : 'Divide its subject matter between the two.'}
+
+  Write a title, description and 2-4 key points for each new chapter, so the two read as a coherent sequence and fit the chapters around them.
+  Output strictly valid JSON. No markdown code blocks.`;
+
+  const node = outlineNodeSchema("Chapter");
+  const data = await providerFor(config, options).generateJson<{ first: OutlineNode; second: OutlineNode; splitAt: number }>({
+    prompt,
+    schemaName: 'chapter_split',
+    schema: {
+      type: "object",
+      properties: { first: node, second: node, splitAt: { type: "integer" } },
+      required: ["first", "second", "splitAt"]
+    },
+    signal: options?.signal,
+  });
+
+  if (!data?.first || !data?.second) {
+    throw new Error("Failed to parse the split: two chapters expected.");
+  }
+  // 1-based in the prompt; the number of blocks kept by the first chapter
+  const splitAt = Math.min(Math.max(Math.round(Number(data.splitAt) || 0) - 1, 1), Math.max(blocks.length - 1, 1));
+  return { first: textNode(data.first, chapter), second: textNode(data.second, chapter), splitAt };
+};
+
+// Title, description and key points for two adjacent chapters combined into one
+export const planChapterMerge = async (
+  first: Chapter,
+  second: Chapter,
+  outline: Chapter[],
+  config: BookConfig,
+  options?: RequestOptions
+): Promise<OutlineNode> => {
+  const prompt = `You are an expert book editor restructuring the outline of "${config.title}" (${config.topic}; audience: ${config.audience}).
+
+  The whole outline:
+  ${outlineContext(outline)}
+
+  Two thin consecutive chapters become one:
+  - ${describeNode(first)}
+  - ${describeNode(second)}
+
+  Write a title, description and 2-4 key points for the combined chapter that cover both without reading like two chapters glued together.
+  Output strictly valid JSON. No markdown code blocks.`;
+
+  const data = await providerFor(config, options).generateJson<OutlineNode>({
+    prompt,
+    schemaName: 'chapter_merge',
+    schema: outlineNodeSchema("Chapter"),
+    signal: options?.signal,
+  });
+
+  if (!data || typeof data.title !== 'string') {
+    throw new Error("Failed to parse the merged chapter.");
+  }
+  return textNode(data, first);
+};
+
+// Writer persona, format, book bible and the caller's brief (continuity notes,
+// reference passages) shared by every call that produces chapter text
+const chapterSystemInstruction = (bookTitle: string, config: BookConfig, brief?: string) => {
+  const formatInstruction = config.format === 'linkedin-carousel'
+    ? "FORMAT: LinkedIn Carousel. Write short, punchy, high-impact text suitable for slides. Use bullet points heavily. Avoid long paragraphs."
+    : "FORMAT: Standard eBook. Write engaging long-form content with good flow.";
+  // Carousel slides have no room for figures in the text
+  const figures = config.format === 'ebook' ? `\n  ${figureInstruction()}` : '';
+
+  let systemInstruction = `You are a professional writer named ${config.authorName || 'AI'}. You are writing a section for "${bookTitle}".
+  Tone: ${config.tone}. Audience: ${config.audience}.
+  ${formatInstruction}${figures}
+
+  RULES:
+  Always Write in Markdown format.
+
+  `;
+
+  const bible = formatBibleForPrompt(config.bible);
+  if (bible) {
+    systemInstruction += `\n${bible}\n`;
+  }
+
+  if (brief) {
+    systemInstruction += `\n${brief}\n`;
+  }
+  return systemInstruction;
+};
+
+const keyPointsLine = (keyPoints?: string[]) => {
+  const points = cleanKeyPoints(keyPoints);
+  return points.length ? `\n  Key points: ${points.join('; ')}.` : '';
+};
+
+export async function* generateChapterContentStream(
+  chapter: Chapter,
+  bookTitle: string,
+  config: BookConfig,
+  brief?: string, // Continuity and reference material, see services/continuity.ts and services/referenceDocs.ts
+  options?: RequestOptions
+) {
+  if (chapter.sections?.length) {
+    yield* generateSectionsStream(chapter, bookTitle, config, brief, options);
+    return;
+  }
+
+  let prompt = `Write the full content for section: "${chapter.title}".
+  Description: ${chapter.description}.${keyPointsLine(chapter.keyPoints)}
+  Make it highly visual and interesting.`;
+
+  // Resuming an interrupted stream: ask for the rest rather than a fresh draft
+  if (chapter.partial && chapter.content) {
+    prompt += `\n\nThe section was interrupted. This is what has been written so far:\n\n${chapter.content}\n\n` +
+      `Continue seamlessly from exactly where it stops. Do not repeat any of the existing text and do not add a preamble.`;
+  }
+
+  yield* providerFor(config, options).streamText({
+    system: chapterSystemInstruction(bookTitle, config, brief),
+    prompt,
+    search: config.enableSearch,
+    signal: options?.signal,
+    onGrounding: options?.onGrounding,
+  });
+};
+
+// Writes an outlined chapter one section at a time, each prompt seeing the
+// text before it. The stream includes the "## " section headings, so the
+// caller gets the whole chapter just as from a single prompt. An interrupted
+// chapter continues its last started section.
+async function* generateSectionsStream(
+  chapter: Chapter,
+  bookTitle: string,
+  config: BookConfig,
+  brief?: string,
+  options?: RequestOptions
+) {
+  const sections = chapter.sections || [];
+  let text = chapter.partial ? chapter.content || '' : '';
+  const started = locateSections(text, sections).length;
+  const provider = providerFor(config, options);
+
+  for (let i = Math.max(0, started - 1); i < sections.length; i++) {
+    const section = sections[i];
+    const resuming = i === started - 1;
+    if (!resuming) {
+      const heading = `${text.trim() ? '\n\n' : ''}${sectionHeading(section)}\n\n`;
+      text += heading;
+      yield heading;
+    }
+
+    let prompt = `Write section ${i + 1} of ${sections.length}, "${section.title}", of the chapter "${chapter.title}".
+  Chapter description: ${chapter.description}.
+  Section description: ${section.description}.${keyPointsLine(section.keyPoints)}
+  Later sections: ${sections.slice(i + 1).map(s => `"${s.title}"`).join(', ') || 'none, this one ends the chapter'}.
+
+  Write only this section's body: no "## ${section.title}" heading (it is already there), ### for any sub-headings, and nothing that belongs to the later sections. Make it highly visual and interesting.`;
+
+    const before = resuming ? text.slice(0, locateSections(text, sections)[i]) : text;
+    if (before.trim()) {
+      prompt += `\n\nThe chapter so far, for flow and to avoid repetition:\n\n${before.trim()}`;
+    }
+    if (resuming) {
+      prompt += `\n\nThis section was interrupted. This is what has been written of it so far:\n\n${text.slice(before.length)}\n\n` +
+        `Continue seamlessly from exactly where it stops. Do not repeat any of the existing text and do not add a preamble.`;
+    }
+
+    for await (const chunk of provider.streamText({
+      system: chapterSystemInstruction(bookTitle, config, brief),
+      prompt,
+      search: config.enableSearch,
+      signal: options?.signal,
+      onGrounding: options?.onGrounding,
+    })) {
+      text += chunk;
+      yield chunk;
+    }
+  }
+}
+
+export type RewriteAction = 'regenerate' | 'expand' | 'shorten' | 'simplify' | 'technical' | 'custom';
+
+export const REWRITE_INSTRUCTIONS: Record<Exclude<RewriteAction, 'regenerate' | 'custom'>, string> = {
+  expand: "Expand it: go deeper on each point, add concrete examples and detail. Aim for roughly half again the length.",
+  shorten: "Shorten it to roughly half the length. Keep the key points and the strongest examples, cut repetition and filler.",
+  simplify: "Simplify it for a less experienced reader: plain words, shorter sentences, jargon explained or removed.",
+  technical: "Make it more technical: precise terminology, more depth on mechanisms, and specifics such as numbers, code or standards where relevant.",
+};
+
+// Streams a revised version of a written chapter. 'regenerate' writes it again
+// from the outline; every other action edits the current text.
+export async function* rewriteChapterStream(
+  chapter: Chapter,
+  bookTitle: string,
+  config: BookConfig,
+  action: RewriteAction,
+  customInstruction = '',
+  continuityBrief?: string,
+  options?: RequestOptions
+) {
+  if (action === 'regenerate') {
+    yield* generateChapterContentStream({ ...chapter, content: undefined, partial: undefined }, bookTitle, config, continuityBrief, options);
+    return;
+  }
+
+  const instruction = action === 'custom' ? customInstruction.trim() : REWRITE_INSTRUCTIONS[action];
+  if (!instruction) throw new Error("Describe how the chapter should change.");
+
+  const prompt = `Revise the section "${chapter.title}".
+  Description: ${chapter.description}.
+
+  INSTRUCTION: ${instruction}
+
+  Current text:
+
+  ${chapter.content || ''}
+
+  Return the complete revised section in Markdown, with no preamble or commentary. Keep any \`\`\`svg diagram blocks and ![...](figure:...) figure lines unless the instruction says otherwise.${chapter.sections?.length ? ' Keep its "## " section headings exactly as they are.' : ''}`;
+
+  yield* providerFor(config, options).streamText({
+    system: chapterSystemInstruction(bookTitle, config, continuityBrief),
+    prompt,
+    search: config.enableSearch,
+    signal: options?.signal,
+    onGrounding: options?.onGrounding,
+  });
+};
+
+export type PassageOperation = 'rephrase' | 'example' | 'bullets' | 'statistic' | 'grammar';
+
+const PASSAGE_INSTRUCTIONS: Record<PassageOperation, string> = {
+  rephrase: "Rephrase the passage so it reads better. Keep the meaning and roughly the same length.",
+  example: "Expand the passage with one concrete, realistic example that illustrates its point.",
+  bullets: "Turn the passage into a Markdown bullet list. Keep every point, drop filler words.",
+  statistic: "Add one relevant statistic or data point that supports the passage, naming its source. Only use figures you are confident are real.",
+  grammar: "Fix grammar, spelling and punctuation only. Change nothing else.",
+};
+
+// Edits one selected span of a chapter. The surrounding text is sent as
+// context so the replacement fits in, but only the passage is returned.
+export const editPassage = async (
+  passage: string,
+  context: string,
+  chapter: Chapter,
+  config: BookConfig,
+  operation: PassageOperation,
+  options?: RequestOptions
+): Promise<string> => {
+  const prompt = `You are editing one passage of the section "${chapter.title}" of "${config.title}".
+
+  INSTRUCTION: ${PASSAGE_INSTRUCTIONS[operation]}
+
+  Surrounding text, for context only:
+  <context>
+  ${context}
+  </context>
+
+  Passage to edit:
+  <passage>
+  ${passage}
+  </passage>
+
+  Return only the replacement for the passage, in Markdown, without the <passage> tags, quotes, preamble or commentary.`;
+
+  let text = '';
+  for await (const chunk of providerFor(config, options).streamText({
+    system: chapterSystemInstruction(config.title, config),
+    prompt,
+    // Grounding only helps when looking up figures
+    search: config.enableSearch && operation === 'statistic',
+    signal: options?.signal,
+    onGrounding: options?.onGrounding,
+  })) {
+    text += chunk;
+  }
+  text = text.replace(/<\/?passage>/g, '').trim();
+  if (!text) throw new Error("The model returned no text.");
+  return text;
+};
+
+export const generateChapterDigest = async (chapter: Chapter, config: BookConfig, options?: RequestOptions): Promise<ChapterDigest> => {
+  const prompt = `Summarize this section of "${config.title}" for the author's continuity notes, so later sections neither repeat nor contradict it.
+
+  Section: "${chapter.title}"
+
+  ${chapter.content}
+
+  Be brief: a two-sentence summary, at most 5 key points, the specific examples, case studies or figures used, and the terms it defines as "Term: definition".
+  Output strictly valid JSON. No markdown code blocks.`;
+
+  const data = await providerFor(config, options).generateJson<ChapterDigest>({
+    prompt,
+    schemaName: 'chapter_digest',
+    schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "Two sentences on what the section says." },
+        keyPoints: { type: "array", items: { type: "string" } },
+        examples: { type: "array", items: { type: "string" } },
+        terms: { type: "array", items: { type: "string" } }
+      },
+      required: ["summary", "keyPoints", "examples", "terms"]
+    },
+    signal: options?.signal,
+  });
+
+  if (!data || typeof data.summary !== 'string') {
+    throw new Error("Failed to parse chapter digest.");
+  }
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  return { summary: data.summary, keyPoints: strings(data.keyPoints), examples: strings(data.examples), terms: strings(data.terms) };
+};
+
+export const generateImage = async (
+  config: BookConfig,
+  prompt: string,
+  aspectRatio: ImageAspectRatio = '16:9',
+  options?: RequestOptions,
+  referenceImages?: string[]
+): Promise<string> =>
+  providerFor(config, options).generateImage({ prompt, aspectRatio, referenceImages, signal: options?.signal });
+
+export const generateBookCover = async (config: BookConfig, options?: RequestOptions): Promise<string> => {
+  const { title, format } = config;
+  const aspectRatio = format === 'linkedin-carousel' ? '3:4' : '3:4'; // Portrait usually best for both
+  // The cover sets the look the illustrations follow, so it only matches the author's references
+  const references = styleReferences(config);
+  const prompt = `A professional, bestseller quality cover for a ${format} titled "${title}".
+  ${formatStyleForPrompt(config, references.length)}
+  Minimalist, high contrast, elegant typography, vector art or photorealistic depending on style.
+  No text on image except abstract shapes or relevant symbolism.`;
+
+  return generateImage(config, prompt, aspectRatio, options, references);
+};
+
+// Carousels often use 4:5 or 1:1, but 4:3 is safer for standard models
+const illustrationAspectRatio = (config: BookConfig): ImageAspectRatio => config.format === 'linkedin-carousel' ? '4:3' : '16:9';
+
+// What a chapter's illustration shows until the author writes their own prompt
+export const defaultIllustrationPrompt = (chapterTitle: string) =>
+  `An editorial illustration for a section titled "${chapterTitle}".`;
+
+// Draws the subject (see Chapter.imagePrompt) to match the cover, when there
+// is one, and the book's style profile
+export const generateChapterIllustration = async (subject: string, config: BookConfig, options?: RequestOptions, coverImage?: string): Promise<string> => {
+  const references = styleReferences(config, coverImage);
+  const prompt = `${subject.trim()}
+  ${formatStyleForPrompt(config, references.length)}
+  Artistic, evocative, clean lines.`;
+
+  return generateImage(config, prompt, illustrationAspectRatio(config), options, references);
+};
+
+// Changes an existing illustration as instructed, sending it back to the image model
+export const editIllustration = async (image: string, instruction: string, config: BookConfig, options?: RequestOptions): Promise<string> => {
+  const prompt = `Edit the attached image: ${instruction.trim()}
+  Change only what this asks for. Keep the composition, subject, palette and rendering style of the image otherwise exactly as they are.
+  ${config.styleProfile?.avoid.trim() ? `Avoid: ${config.styleProfile.avoid.trim()}.` : ''}`;
+
+  return generateImage(config, prompt, illustrationAspectRatio(config), options, [image]);
+};
@@ -0,0 +1,94 @@
+import { BookBible } from "../types";
+
+// Book bible: terminology, spelling and style rules for a project. The same
+// rules are written into every chapter prompt and checked against the text
+// afterwards, since models don't follow them reliably.
+
+export const EMPTY_BIBLE: BookBible = { glossary: [], spellings: [], bannedPhrases: [], personas: [], styleRules: [] };
+
+export interface BibleViolation {
+  kind: 'banned' | 'spelling' | 'term';
+  message: string;
+  count: number;
+}
+
+const clean = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+const variantsOf = (avoid: string) => clean(avoid.split(','));
+
+const activeBible = (bible: BookBible) => ({
+  glossary: bible.glossary.filter(g => g.term.trim()),
+  spellings: bible.spellings.filter(s => s.preferred.trim() && variantsOf(s.avoid).length > 0),
+  bannedPhrases: clean(bible.bannedPhrases),
+  personas: bible.personas.filter(p => p.name.trim()),
+  styleRules: clean(bible.styleRules),
+});
+
+export const isBibleEmpty = (bible?: BookBible) => {
+  if (!bible) return true;
+  return Object.values(activeBible(bible)).every(list => list.length === 0);
+};
+
+export const formatBibleForPrompt = (bible?: BookBible): string | undefined => {
+  if (!bible || isBibleEmpty(bible)) return undefined;
+  const { glossary, spellings, bannedPhrases, personas, styleRules } = activeBible(bible);
+
+  const sections: string[] = [];
+  if (glossary.length > 0) {
+    sections.push(`Glossary (use these terms exactly as written, consistent with these definitions):\n${glossary.map(g => `- ${g.term.trim()}${g.definition.trim() ? `: ${g.definition.trim()}` : ''}`).join('\n')}`);
+  }
+  if (spellings.length > 0) {
+    sections.push(`Spelling conventions:\n${spellings.map(s => `- Write "${s.preferred.trim()}", never ${variantsOf(s.avoid).map(v => `"${v}"`).join(' or ')}`).join('\n')}`);
+  }
+  if (bannedPhrases.length > 0) {
+    sections.push(`Never use these phrases: ${bannedPhrases.map(p => `"${p}"`).join(', ')}`);
+  }
+  if (personas.length > 0) {
+    sections.push(`Recurring personas and case studies (reuse them where relevant and keep their details consistent):\n${personas.map(p => `- ${p.name.trim()}${p.description.trim() ? `: ${p.description.trim()}` : ''}`).join('\n')}`);
+  }
+  if (styleRules.length > 0) {
+    sections.push(`House style rules:\n${styleRules.map(rule => `- ${rule}`).join('\n')}`);
+  }
+  return `BOOK BIBLE (follow strictly):\n${sections.join('\n\n')}`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word matches; letters and digits on either side mean it's part of another word
+const findAll = (text: string, phrase: string, caseSensitive: boolean) =>
+  text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, caseSensitive ? 'gu' : 'giu')) || [];
+
+// Mechanical checks only: banned phrases, non-preferred spellings and glossary
+// terms written with the wrong capitalisation. Personas and style rules are
+// left to the prompt.
+export const checkAgainstBible = (content: string | undefined, bible?: BookBible): BibleViolation[] => {
+  if (!content || !bible || isBibleEmpty(bible)) return [];
+  const { glossary, spellings, bannedPhrases } = activeBible(bible);
+  // Code and diagram blocks aren't prose
+  const text = content.replace(/```[\s\S]*?```/g, '');
+  const violations: BibleViolation[] = [];
+
+  for (const phrase of bannedPhrases) {
+    const count = findAll(text, phrase, false).length;
+    if (count > 0) violations.push({ kind: 'banned', message: `Uses banned phrase "${phrase}"`, count });
+  }
+
+  for (const { preferred, avoid } of spellings) {
+    for (const variant of variantsOf(avoid)) {
+      // "Javascript" vs "JavaScript" differ only in case, so match those exactly
+      const caseOnly = variant.toLowerCase() === preferred.trim().toLowerCase();
+      const count = findAll(text, variant, caseOnly).length;
+      if (count > 0) violations.push({ kind: 'spelling', message: `"${variant}" should be "${preferred.trim()}"`, count });
+    }
+  }
+
+  for (const { term } of glossary) {
+    const expected = term.trim();
+    // All-lowercase terms may start a sentence, so only cased terms are checked
+    if (expected === expected.toLowerCase()) continue;
+    const count = findAll(text, expected, false).filter(match => match !== expected).length;
+    if (count > 0) violations.push({ kind: 'term', message: `Glossary term not written as "${expected}"`, count });
+  }
+
+  return violations;
+};
@@ -0,0 +1,418 @@
+import { jsPDF, GState } from "jspdf";
+import JSZip from "jszip";
+import { BookData, Chapter } from "../types";
+import { figureMarkerId, inlineText, isSvgToken, parseMarkdown, Token, Tokens } from "./markdown";
+import { imageFormat, sanitizePdfText } from "./pdfExporter";
+import { isDataUrl } from "./fileUtils";
+import { addCitationMarkers, collectReferences, referencesMarkdown } from "./citations";
+
+// LinkedIn/Instagram carousel export. Slides are laid out once into a list of
+// drawing operations, then rendered either to a PDF (one page per slide, real
+// text) or to PNG images on a canvas, so both outputs look identical.
+
+export type CarouselSize = '4:5' | '1:1';
+
+export const CAROUSEL_SIZES: Record<CarouselSize, { width: number; height: number; label: string }> = {
+  '4:5': { width: 1080, height: 1350, label: 'Portrait 4:5' },
+  '1:1': { width: 1080, height: 1080, label: 'Square 1:1' },
+};
+
+export interface CarouselOptions {
+  size?: CarouselSize;
+  ctaTitle?: string;
+  ctaText?: string;
+}
+
+interface FontSpec {
+  size: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+type DrawOp =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; color: string; opacity?: number }
+  | { kind: 'circle'; x: number; y: number; r: number; color: string }
+  | { kind: 'text'; x: number; y: number; text: string; font: FontSpec; color: string; align?: 'left' | 'center' | 'right' }
+  | { kind: 'image'; x: number; y: number; w: number; h: number; src: string; naturalWidth: number; naturalHeight: number };
+
+type Slide = DrawOp[];
+
+interface ContentItem {
+  kind: 'heading' | 'paragraph' | 'bullet' | 'number' | 'quote';
+  text: string;
+  level: number;
+  marker?: string;
+}
+
+const PADDING = 96;
+const FOOTER_HEIGHT = 110;
+const THEME = {
+  background: '#ffffff',
+  dark: '#0f172a',
+  text: '#334155',
+  heading: '#0f172a',
+  muted: '#94a3b8',
+  accent: '#4f46e5',
+  accentSoft: '#eef2ff',
+  white: '#ffffff',
+};
+const FONT_STACK = 'Helvetica, Arial, sans-serif'; // Arial is metric-compatible with the PDF Helvetica
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+
+// Flattens chapter markdown into slide-sized items. Figures and code are left
+// to the ebook formats; carousels are text-first.
+const collectItems = (tokens: Token[], level = 0): ContentItem[] =>
+  tokens.flatMap((token): ContentItem[] => {
+    if (isSvgToken(token) || figureMarkerId(token)) return [];
+    switch (token.type) {
+      case 'heading':
+        return [{ kind: 'heading', text: inlineText(token.tokens), level }];
+      case 'paragraph':
+      case 'text':
+        return [{ kind: 'paragraph', text: inlineText(token.tokens || []) || token.text, level }];
+      case 'blockquote':
+        return collectItems(token.tokens, level).map(item => ({ ...item, kind: 'quote' as const }));
+      case 'list': {
+        const list = token as Tokens.List;
+        const start = typeof list.start === 'number' ? list.start : 1;
+        return list.items.flatMap((item, n) => {
+          const [first, ...rest] = collectItems(item.tokens, level + 1);
+          const head: ContentItem[] = first
+            ? [{ ...first, kind: list.ordered ? 'number' : 'bullet', marker: list.ordered ? `${start + n}.` : undefined, level }]
+            : [];
+          return [...head, ...rest];
+        });
+      }
+      default:
+        return [];
+    }
+  });
+
+export const buildSlides = async (book: BookData, options: CarouselOptions = {}): Promise<{ slides: Slide[]; width: number; height: number }> => {
+  const { width, height } = CAROUSEL_SIZES[options.size || '4:5'];
+  const { config, outline } = book;
+  const contentWidth = width - PADDING * 2;
+  const contentBottom = height - FOOTER_HEIGHT;
+
+  // jsPDF's Helvetica metrics drive line breaking for both renderers
+  const measurer = new jsPDF({ unit: 'pt', format: [width, height] });
+  const measure = (text: string, font: FontSpec) => {
+    measurer.setFont('helvetica', font.bold && font.italic ? 'bolditalic' : font.bold ? 'bold' : font.italic ? 'italic' : 'normal');
+    measurer.setFontSize(font.size);
+    return measurer.getTextWidth(text);
+  };
+  const wrap = (text: string, font: FontSpec, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of sanitizePdfText(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measure(candidate, font) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+    }
+    return lines;
+  };
+
+  const textBlock = (lines: string[], x: number, top: number, font: FontSpec, color: string, lineHeight: number, align: 'left' | 'center' = 'left'): DrawOp[] =>
+    lines.map((text, i) => ({ kind: 'text', x, y: top + font.size + i * lineHeight, text, font, color, align }));
+
+  const imageCover = async (src: string, x: number, y: number, w: number, h: number): Promise<DrawOp | null> => {
+    try {
+      const img = await loadImage(src);
+      return { kind: 'image', x, y, w, h, src, naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight };
+    } catch {
+      return null;
+    }
+  };
+
+  const slides: Slide[] = [];
+  const title = config.title || config.topic || 'Untitled';
+
+  // --- Hook slide (from the cover) ---------------------------------------
+
+  const hook: Slide = [{ kind: 'rect', x: 0, y: 0, w: width, h: height, color: THEME.dark }];
+  if (book.coverImage && isDataUrl(book.coverImage)) {
+    const cover = await imageCover(book.coverImage, 0, 0, width, height);
+    if (cover) hook.push(cover, { kind: 'rect', x: 0, y: height * 0.45, w: width, h: height * 0.55, color: THEME.dark, opacity: 0.8 });
+  }
+  const hookFont: FontSpec = { size: 84, bold: true };
+  const hookLines = wrap(title, hookFont, contentWidth);
+  const hookLineHeight = hookFont.size * 1.1;
+  const hookTop = height - FOOTER_HEIGHT - 140 - hookLines.length * hookLineHeight;
+  hook.push(
+    { kind: 'rect', x: PADDING, y: hookTop - 48, w: 120, h: 10, color: THEME.accent },
+    ...textBlock(hookLines, PADDING, hookTop, hookFont, THEME.white, hookLineHeight),
+    { kind: 'text', x: PADDING, y: height - FOOTER_HEIGHT - 60, text: sanitizePdfText(config.authorName || ''), font: { size: 32 }, color: '#cbd5e1' },
+    { kind: 'text', x: width - PADDING, y: height - FOOTER_HEIGHT - 60, text: 'Swipe ->', font: { size: 32, bold: true }, color: THEME.white, align: 'right' },
+  );
+  slides.push(hook);
+
+  // --- Content slides ------------------------------------------------------
+
+  const fonts: Record<ContentItem['kind'], FontSpec> = {
+    heading: { size: 44, bold: true },
+    paragraph: { size: 38 },
+    bullet: { size: 38 },
+    number: { size: 38 },
+    quote: { size: 38, italic: true },
+  };
+  const lineHeightFactor = 1.35;
+  const itemGap = 28;
+  const indentStep = 48;
+
+  // Cited slides carry "[n]" markers; the sources follow as slides of their own
+  const citations = collectReferences(outline);
+  const sections: Chapter[] = outline.map(chapter => ({ ...chapter, content: addCitationMarkers(chapter, citations, () => '#') }));
+  if (citations.references.length) {
+    sections.push({ id: 'references', title: 'Sources', description: '', status: 'completed', content: referencesMarkdown(citations.references) });
+  }
+
+  sections.forEach((chapter, chapterIndex) => {
+    const items = collectItems(parseMarkdown(chapter.content || chapter.description));
+    let slide: Slide = [];
+    let y = 0;
+    let continuation = false;
+
+    const startSlide = () => {
+      slide = [{ kind: 'rect', x: 0, y: 0, w: width, h: height, color: THEME.background }];
+      slide.push({ kind: 'rect', x: 0, y: 0, w: width, h: 16, color: THEME.accent });
+      y = PADDING;
+
+      const number = chapterIndex < outline.length ? String(chapterIndex + 1).padStart(2, '0') : '';
+      const label = `${number}${continuation ? '  (cont.)' : ''}`;
+      slide.push({ kind: 'text', x: PADDING, y: y + 30, text: label, font: { size: 30, bold: true }, color: THEME.accent });
+      y += 60;
+
+      const titleFont: FontSpec = { size: continuation ? 48 : 64, bold: true };
+      const titleLines = wrap(chapter.title, titleFont, contentWidth);
+      const titleLineHeight = titleFont.size * 1.15;
+      slide.push(...textBlock(titleLines, PADDING, y, titleFont, THEME.heading, titleLineHeight));
+      y += titleLines.length * titleLineHeight + 40;
+      slides.push(slide);
+    };
+
+    startSlide();
+
+    if (chapter.imageUrl && isDataUrl(chapter.imageUrl)) {
+      const imageHeight = Math.round((contentBottom - y) * 0.4);
+      slide.push({ kind: 'image', x: PADDING, y, w: contentWidth, h: imageHeight, src: chapter.imageUrl, naturalWidth: 0, naturalHeight: 0 });
+      y += imageHeight + 40;
+    }
+
+    for (const item of items) {
+      const font = fonts[item.kind];
+      const lineHeight = font.size * lineHeightFactor;
+      const indent = item.level * indentStep + (item.kind === 'heading' || item.kind === 'paragraph' ? 0 : indentStep);
+      const lines = wrap(item.text, font, contentWidth - indent);
+      let remaining = lines;
+
+      // Headings move with at least one following line
+      const minimum = item.kind === 'heading' ? lineHeight * (lines.length + 1) : lineHeight;
+      if (y + minimum > contentBottom) {
+        continuation = true;
+        startSlide();
+      }
+
+      let first = true;
+      while (remaining.length) {
+        const fit = Math.max(1, Math.floor((contentBottom - y) / lineHeight));
+        const chunk = remaining.slice(0, fit);
+        remaining = remaining.slice(fit);
+        const color = item.kind === 'heading' ? THEME.heading : item.kind === 'quote' ? THEME.muted : THEME.text;
+        const x = PADDING + indent;
+
+        if (first && (item.kind === 'bullet' || item.kind === 'number')) {
+          slide.push(item.kind === 'number'
+            ? { kind: 'text', x: x - 14, y: y + font.size, text: item.marker || '', font: { ...font, bold: true }, color: THEME.accent, align: 'right' }
+            : { kind: 'circle', x: x - 26, y: y + font.size * 0.65, r: 7, color: THEME.accent });
+        }
+        if (item.kind === 'quote') {
+          slide.push({ kind: 'rect', x: x - 28, y: y + 4, w: 6, h: chunk.length * lineHeight - 8, color: THEME.accent });
+        }
+        slide.push(...textBlock(chunk, x, y, font, color, lineHeight));
+        y += chunk.length * lineHeight;
+        first = false;
+
+        if (remaining.length) {
+          continuation = true;
+          startSlide();
+        }
+      }
+      y += itemGap;
+    }
+  });
+
+  // --- Closing call-to-action ----------------------------------------------
+
+  const cta: Slide = [{ kind: 'rect', x: 0, y: 0, w: width, h: height, color: THEME.accent }];
+  const ctaTitleFont: FontSpec = { size: 80, bold: true };
+  const ctaTitleLines = wrap(options.ctaTitle || 'Found this useful?', ctaTitleFont, contentWidth);
+  const ctaTextFont: FontSpec = { size: 40 };
+  const ctaText = options.ctaText || (config.authorName
+    ? `Follow ${config.authorName} for more, and repost to share it with your network.`
+    : 'Save this post and repost to share it with your network.');
+  const ctaTextLines = wrap(ctaText, ctaTextFont, contentWidth);
+  const ctaTop = height / 2 - (ctaTitleLines.length * ctaTitleFont.size * 1.1 + ctaTextLines.length * 54) / 2;
+  cta.push(
+    ...textBlock(ctaTitleLines, width / 2, ctaTop, ctaTitleFont, THEME.white, ctaTitleFont.size * 1.1, 'center'),
+    ...textBlock(ctaTextLines, width / 2, ctaTop + ctaTitleLines.length * ctaTitleFont.size * 1.1 + 48, ctaTextFont, THEME.accentSoft, 54, 'center'),
+  );
+  slides.push(cta);
+
+  // --- Slide numbers ---------------------------------------------------------
+
+  slides.forEach((ops, i) => {
+    const dark = i === 0 || i === slides.length - 1;
+    const color = dark ? THEME.accentSoft : THEME.muted;
+    ops.push({ kind: 'text', x: width - PADDING, y: height - 56, text: `${i + 1} / ${slides.length}`, font: { size: 28, bold: true }, color, align: 'right' });
+    if (i > 0 && i < slides.length - 1) {
+      ops.push({ kind: 'text', x: PADDING, y: height - 56, text: sanitizePdfText(config.authorName || title), font: { size: 28 }, color });
+    }
+  });
+
+  // Resolve natural sizes for chapter images now that layout is known
+  for (const ops of slides) {
+    for (const op of ops) {
+      if (op.kind === 'image' && !op.naturalWidth) {
+        try {
+          const img = await loadImage(op.src);
+          op.naturalWidth = img.naturalWidth;
+          op.naturalHeight = img.naturalHeight;
+        } catch {
+          op.naturalWidth = op.w;
+          op.naturalHeight = op.h;
+        }
+      }
+    }
+  }
+
+  return { slides, width, height };
+};
+
+// "object-fit: cover" placement for an image inside its box
+const coverRect = (op: Extract<DrawOp, { kind: 'image' }>) => {
+  const scale = Math.max(op.w / op.naturalWidth, op.h / op.naturalHeight);
+  const w = op.naturalWidth * scale;
+  const h = op.naturalHeight * scale;
+  return { x: op.x + (op.w - w) / 2, y: op.y + (op.h - h) / 2, w, h };
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+export const exportCarouselPdf = async (book: BookData, options: CarouselOptions = {}): Promise<Blob> => {
+  const { slides, width, height } = await buildSlides(book, options);
+  const pdf = new jsPDF({ unit: 'pt', format: [width, height], orientation: width > height ? 'landscape' : 'portrait', compress: true });
+
+  slides.forEach((ops, i) => {
+    if (i > 0) pdf.addPage([width, height], width > height ? 'landscape' : 'portrait');
+
+    for (const op of ops) {
+      switch (op.kind) {
+        case 'rect':
+          if (op.opacity !== undefined) pdf.setGState(new GState({ opacity: op.opacity }));
+          pdf.setFillColor(...hexToRgb(op.color));
+          pdf.rect(op.x, op.y, op.w, op.h, 'F');
+          if (op.opacity !== undefined) pdf.setGState(new GState({ opacity: 1 }));
+          break;
+        case 'circle':
+          pdf.setFillColor(...hexToRgb(op.color));
+          pdf.circle(op.x, op.y, op.r, 'F');
+          break;
+        case 'text':
+          pdf.setFont('helvetica', op.font.bold && op.font.italic ? 'bolditalic' : op.font.bold ? 'bold' : op.font.italic ? 'italic' : 'normal');
+          pdf.setFontSize(op.font.size);
+          pdf.setTextColor(...hexToRgb(op.color));
+          pdf.text(op.text, op.x, op.y, { align: op.align || 'left' });
+          break;
+        case 'image': {
+          const target = coverRect(op);
+          pdf.saveGraphicsState();
+          pdf.rect(op.x, op.y, op.w, op.h, null);
+          pdf.clip();
+          pdf.discardPath();
+          pdf.addImage(op.src, imageFormat(op.src), target.x, target.y, target.w, target.h, undefined, 'FAST');
+          pdf.restoreGraphicsState();
+          break;
+        }
+      }
+    }
+  });
+
+  pdf.setProperties({ title: sanitizePdfText(book.config.title), author: sanitizePdfText(book.config.authorName || ''), creator: 'eBook Architect' });
+  return pdf.output('blob');
+};
+
+const renderSlideToPng = async (ops: Slide, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'rect':
+        ctx.globalAlpha = op.opacity ?? 1;
+        ctx.fillStyle = op.color;
+        ctx.fillRect(op.x, op.y, op.w, op.h);
+        ctx.globalAlpha = 1;
+        break;
+      case 'circle':
+        ctx.fillStyle = op.color;
+        ctx.beginPath();
+        ctx.arc(op.x, op.y, op.r, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'text':
+        ctx.font = `${op.font.italic ? 'italic ' : ''}${op.font.bold ? 'bold ' : ''}${op.font.size}px ${FONT_STACK}`;
+        ctx.fillStyle = op.color;
+        ctx.textAlign = op.align || 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(op.text, op.x, op.y);
+        break;
+      case 'image': {
+        const img = await loadImage(op.src);
+        const target = coverRect(op);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(op.x, op.y, op.w, op.h);
+        ctx.clip();
+        ctx.drawImage(img, target.x, target.y, target.w, target.h);
+        ctx.restore();
+        break;
+      }
+    }
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to render slide"))), 'image/png')
+  );
+};
+
+export const exportCarouselPngZip = async (book: BookData, options: CarouselOptions = {}): Promise<Blob> => {
+  const { slides, width, height } = await buildSlides(book, options);
+  const zip = new JSZip();
+
+  for (let i = 0; i < slides.length; i++) {
+    const png = await renderSlideToPng(slides[i], width, height);
+    zip.file(`slide-${String(i + 1).padStart(2, '0')}.png`, png, { compression: 'STORE' });
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
@@ -0,0 +1,54 @@
+import { Chapter, ChapterVersion, ChapterVersionSource } from "../types";
+import { createId } from "./ids";
+
+// Version history for chapter text and images. Every change appends a version
+// holding only the fields that changed; the oldest versions are folded
+// together once a chapter has more than MAX_VERSIONS.
+
+export const MAX_VERSIONS = 40;
+
+export type ChapterChange = Pick<ChapterVersion, 'content' | 'imageUrl'>;
+
+export const appendVersion = (versions: ChapterVersion[] = [], source: ChapterVersionSource, change: ChapterChange): ChapterVersion[] => {
+  const next = [...versions, { id: createId('ver'), createdAt: new Date().toISOString(), source, ...change }];
+  while (next.length > MAX_VERSIONS) {
+    // The second-oldest inherits whatever it didn't change itself
+    const [oldest, second] = next;
+    next.splice(0, 2, {
+      ...second,
+      content: second.content ?? oldest.content,
+      imageUrl: second.imageUrl ?? oldest.imageUrl,
+    });
+  }
+  return next;
+};
+
+// Applies a change from the reader. Chapters written before history existed
+// get their current state recorded first, so the change can be reverted.
+export const applyChapterChange = (chapter: Chapter, change: ChapterChange, source: ChapterVersionSource): Chapter => {
+  const changed: ChapterChange = {};
+  if (change.content !== undefined && change.content !== chapter.content) changed.content = change.content;
+  if (change.imageUrl !== undefined && change.imageUrl !== chapter.imageUrl) changed.imageUrl = change.imageUrl;
+  if (changed.content === undefined && changed.imageUrl === undefined) return chapter;
+
+  let versions = chapter.versions;
+  if (!versions?.length && (chapter.content || chapter.imageUrl)) {
+    versions = appendVersion([], 'original', { content: chapter.content, imageUrl: chapter.imageUrl });
+  }
+  return { ...chapter, ...changed, versions: appendVersion(versions, source, changed) };
+};
+
+export const stateAtVersion = (versions: ChapterVersion[], versionId: string): Required<ChapterChange> => {
+  const state = { content: '', imageUrl: '' };
+  for (const version of versions) {
+    if (version.content !== undefined) state.content = version.content;
+    if (version.imageUrl !== undefined) state.imageUrl = version.imageUrl;
+    if (version.id === versionId) break;
+  }
+  return state;
+};
+
+export const revertToVersion = (chapter: Chapter, versionId: string): Chapter => {
+  const state = stateAtVersion(chapter.versions || [], versionId);
+  return applyChapterChange(chapter, { content: state.content, imageUrl: state.imageUrl || undefined }, 'revert');
+};
@@ -0,0 +1,127 @@
+import { Chapter, Grounding } from "../types";
+import { escapeXml } from "./markdown";
+
+// Footnotes for search-grounded chapters. Supports are anchored by their text
+// rather than by offsets, so they survive edits elsewhere in the chapter, and
+// sources are numbered once across the whole book.
+
+export interface Reference {
+  number: number;
+  uri: string;
+  title: string;
+}
+
+export interface BookReferences {
+  references: Reference[];
+  numbers: Map<string, Map<number, number>>; // Chapter id -> source index -> reference number
+}
+
+interface Citation {
+  end: number; // Offset right after the supported span
+  sources: number[];
+}
+
+// Adds new sources and supports to existing ones. Sources are matched by URI;
+// supports of the same span are combined.
+export const mergeGrounding = (base: Grounding | undefined, extra: Grounding): Grounding => {
+  const sources = [...(base?.sources || [])];
+  const supports = (base?.supports || []).map(s => ({ ...s, sources: [...s.sources] }));
+
+  const remap = extra.sources.map(source => {
+    const existing = sources.findIndex(s => s.uri === source.uri);
+    if (existing >= 0) return existing;
+    sources.push(source);
+    return sources.length - 1;
+  });
+
+  for (const support of extra.supports) {
+    const indices = support.sources.map(i => remap[i]).filter((i): i is number => i !== undefined);
+    const text = support.text.trim();
+    if (!text || indices.length === 0) continue;
+    const same = supports.find(s => s.text === text);
+    if (same) {
+      same.sources = [...new Set([...same.sources, ...indices])];
+    } else {
+      supports.push({ text, sources: indices });
+    }
+  }
+  return { sources, supports };
+};
+
+// Supports whose span still appears in the text, outside code and SVG blocks
+const findCitations = (content: string, grounding?: Grounding): Citation[] => {
+  if (!content || !grounding?.supports.length) return [];
+  const fences = [...content.matchAll(/^```[\s\S]*?^```/gm)].map(m => [m.index!, m.index! + m[0].length]);
+
+  const citations: Citation[] = [];
+  for (const support of grounding.supports) {
+    const start = content.indexOf(support.text);
+    if (start < 0) continue;
+    const end = start + support.text.length;
+    if (fences.some(([from, to]) => end > from && end <= to)) continue;
+    const sources = support.sources.filter(i => grounding.sources[i]?.uri);
+    if (sources.length > 0) citations.push({ end, sources });
+  }
+  return citations;
+};
+
+// Numbers every cited source in reading order. Sources no span points to any
+// more (e.g. after an edit) are left out.
+export const collectReferences = (chapters: Chapter[]): BookReferences => {
+  const references: Reference[] = [];
+  const byUri = new Map<string, number>();
+  const numbers = new Map<string, Map<number, number>>();
+
+  for (const chapter of chapters) {
+    const own = new Map<number, number>();
+    const citations = findCitations(chapter.content || '', chapter.grounding).sort((a, b) => a.end - b.end);
+    for (const citation of citations) {
+      for (const index of citation.sources) {
+        if (own.has(index)) continue;
+        const source = chapter.grounding!.sources[index];
+        let number = byUri.get(source.uri);
+        if (number === undefined) {
+          number = references.length + 1;
+          byUri.set(source.uri, number);
+          references.push({ number, uri: source.uri, title: source.title || source.uri });
+        }
+        own.set(index, number);
+      }
+    }
+    if (own.size > 0) numbers.set(chapter.id, own);
+  }
+  return { references, numbers };
+};
+
+// The chapter's markdown with a "[n]" link after every supported span.
+export const addCitationMarkers = (chapter: Chapter, book: BookReferences, href: (number: number) => string): string => {
+  const content = chapter.content || '';
+  const own = book.numbers.get(chapter.id);
+  if (!own) return content;
+
+  const markers = new Map<number, Set<number>>();
+  for (const citation of findCitations(content, chapter.grounding)) {
+    const at = markers.get(citation.end) || new Set<number>();
+    for (const index of citation.sources) {
+      const number = own.get(index);
+      if (number !== undefined) at.add(number);
+    }
+    markers.set(citation.end, at);
+  }
+
+  let result = content;
+  [...markers.entries()].sort(([a], [b]) => b - a).forEach(([end, numbers]) => {
+    const links = [...numbers].sort((a, b) => a - b).map(n => `[[${n}]](${href(n)})`).join('');
+    result = result.slice(0, end) + links + result.slice(end);
+  });
+  return result;
+};
+
+export const referencesMarkdown = (references: Reference[]) =>
+  references.map(r => `${r.number}. [${r.title.replace(/[[\]]/g, '')}](${r.uri})`).join('\n') + '\n';
+
+// For HTML exports, so "[n]" markers can link to an entry
+export const referencesHtml = (references: Reference[]) =>
+  `<ol class="references">\n${references
+    .map(r => `<li id="ref-${r.number}"><a href="${escapeXml(r.uri)}">${escapeXml(r.title)}</a></li>`)
+    .join('\n')}\n</ol>\n`;
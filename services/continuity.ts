@@ -0,0 +1,41 @@
+import { BookConfig, BookPart, Chapter } from "../types";
+import { cleanKeyPoints, groupByPart, partLabel } from "./outline";
+
+// Rolling continuity brief for a chapter prompt: digests of everything written
+// before it (falling back to the outline blurb while a digest is missing, e.g.
+// a chapter written in parallel) and the outline of what comes after, plus the
+// part the chapter belongs to.
+
+const list = (items: string[]) => items.filter(Boolean).join('; ');
+
+const describeWritten = (chapter: Chapter, label: string) => {
+  const { digest } = chapter;
+  if (!digest) return `${label} "${chapter.title}" (planned): ${chapter.description}`;
+  return [
+    `${label} "${chapter.title}": ${digest.summary}`,
+    digest.keyPoints.length > 0 && `  Key points: ${list(digest.keyPoints)}`,
+    digest.examples.length > 0 && `  Examples used: ${list(digest.examples)}`,
+    digest.terms.length > 0 && `  Terms defined: ${list(digest.terms)}`,
+  ].filter(Boolean).join('\n');
+};
+
+export const buildContinuityBrief = (outline: Chapter[], index: number, config: BookConfig, parts?: BookPart[]): string | undefined => {
+  const label = config.format === 'linkedin-carousel' ? 'Slide' : 'Chapter';
+  const before = outline.slice(0, index).map((c, i) => describeWritten(c, `${label} ${i + 1}`));
+  const after = outline.slice(index + 1).map((c, i) => `${label} ${index + i + 2} "${c.title}": ${c.description}`);
+
+  const sections: string[] = [];
+  const group = groupByPart({ outline, parts }).find(g => g.chapters.some(c => c.index === index));
+  if (group?.part) {
+    const keyPoints = cleanKeyPoints(group.part.keyPoints);
+    sections.push(`THIS ${label.toUpperCase()} BELONGS TO ${partLabel(group)}\nWhat the part covers: ${group.part.description}` +
+      (keyPoints.length ? `\nThe part's key points: ${list(keyPoints)}` : ''));
+  }
+  if (before.length > 0) {
+    sections.push(`ALREADY COVERED (do not repeat these points, examples or definitions; refer back to them and stay consistent):\n${before.join('\n')}`);
+  }
+  if (after.length > 0) {
+    sections.push(`COMING UP (leave this material to the later sections):\n${after.join('\n')}`);
+  }
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+};
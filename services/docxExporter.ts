@@ -0,0 +1,589 @@
+import {
+  AlignmentType,
+  Bookmark,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  InternalHyperlink,
+  LeaderType,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageReference,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  StyleLevel,
+  Tab,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+  WidthType,
+} from "docx";
+import { BookData } from "../types";
+import { figureMarkerId, inlineText, isSvgToken, normalizeSvg, parseMarkdown, svgSource, Token, Tokens } from "./markdown";
+import { isDataUrl, parseDataUrl } from "./fileUtils";
+import { addCitationMarkers, collectReferences, referencesMarkdown } from "./citations";
+import { chapterParts, opensPart, writtenSections } from "./outline";
+import { chapterFigures, figureCaption, listOfFigures, PlacedFigure } from "./figures";
+
+// Word export for editorial hand-off. Everything is expressed through real
+// Word styles (Title, Heading 1-4, Quote, list numbering) rather than direct
+// formatting, so editors can restyle the whole manuscript from the Styles pane.
+
+const BODY_FONT = 'Georgia';
+const HEADING_FONT = 'Arial';
+const CODE_FONT = 'Courier New';
+
+// A4 with 1" margins leaves ~6.27" of text width; images are sized in pixels at 96 dpi.
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 820;
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+type RasterType = 'png' | 'jpg' | 'gif';
+
+interface RasterImage {
+  type: RasterType;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Image could not be decoded"));
+  img.src = src;
+});
+
+const rasterize = async (src: string, width?: number, height?: number): Promise<RasterImage> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = width || img.naturalWidth || 800;
+  canvas.height = height || img.naturalHeight || 600;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { bytes } = parseDataUrl(canvas.toDataURL('image/png'));
+  return { type: 'png', data: bytes, width: canvas.width, height: canvas.height };
+};
+
+// Word only embeds PNG/JPEG/GIF/BMP natively; anything else (e.g. WebP) is redrawn as PNG.
+const toRaster = async (dataUrl: string): Promise<RasterImage> => {
+  const { mimeType, bytes } = parseDataUrl(dataUrl);
+  const native: Record<string, RasterType> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif' };
+  const type = native[mimeType];
+  if (!type) return rasterize(dataUrl);
+  const img = await loadImage(dataUrl);
+  return { type, data: bytes, width: img.naturalWidth, height: img.naturalHeight };
+};
+
+const fitSize = (width: number, height: number, maxWidth = MAX_IMAGE_WIDTH, maxHeight = MAX_IMAGE_HEIGHT) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const svgDimensions = (svg: string) => {
+  const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  const viewBox = (root.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+  const width = parseFloat(root.getAttribute('width') || '') || viewBox[2] || 600;
+  const height = parseFloat(root.getAttribute('height') || '') || viewBox[3] || 400;
+  return { width, height };
+};
+
+// A figure's image keeps with its caption, the paragraph after it
+const imageParagraph = (image: RasterImage, altText: string, maxHeight?: number, keepNext = false) => new Paragraph({
+  alignment: AlignmentType.CENTER,
+  spacing: { before: 240, after: keepNext ? 80 : 240 },
+  keepLines: true,
+  keepNext,
+  children: [
+    new ImageRun({
+      type: image.type,
+      data: image.data,
+      transformation: fitSize(image.width, image.height, MAX_IMAGE_WIDTH, maxHeight),
+      altText: { name: altText, description: altText, title: altText },
+    }),
+  ],
+});
+
+// SVG figures are embedded as vector art with a PNG fallback for older Word versions.
+const svgParagraph = async (svg: string, altText: string): Promise<Paragraph | null> => {
+  const normalized = normalizeSvg(svg);
+  if (!normalized) return null;
+  const { width, height } = svgDimensions(normalized);
+  const size = fitSize(width, height);
+  const svgUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(normalized)}`;
+  const fallback = await rasterize(svgUrl, size.width * 2, size.height * 2);
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 240, after: 240 },
+    children: [
+      new ImageRun({
+        type: 'svg',
+        data: new TextEncoder().encode(normalized),
+        fallback: { type: 'png', data: fallback.data },
+        transformation: size,
+        altText: { name: altText, description: altText, title: altText },
+      }),
+    ],
+  });
+};
+
+export const exportDocx = async (book: BookData): Promise<Blob> => {
+  const { config, outline } = book;
+  const title = config.title || config.topic || 'Untitled';
+  const author = config.authorName || 'eBook Architect';
+  const chapterLabel = config.format === 'linkedin-carousel' ? 'Slide' : 'Chapter';
+  const citations = collectReferences(outline);
+  const { references } = citations;
+  // Captions are bookmarked, so the list of figures can link to them and show their pages
+  const figureList = listOfFigures(book, true);
+  const figureBookmarks = new Map(figureList.map((placed, k) => [placed.figure.id, `figure_${k + 1}`]));
+  let chapterFigureMap = new Map<string, PlacedFigure>();
+
+  const figureBlocks = async (placed: PlacedFigure): Promise<Paragraph[]> => {
+    const url = placed.figure.imageUrl;
+    if (!url || !isDataUrl(url)) return [];
+    try {
+      return [
+        imageParagraph(await toRaster(url), placed.figure.caption, undefined, true),
+        new Paragraph({
+          style: 'Caption',
+          children: [new Bookmark({ id: figureBookmarks.get(placed.figure.id)!, children: [new TextRun(figureCaption(placed))] })],
+        }),
+      ];
+    } catch (e) {
+      console.error('Skipping unreadable figure in DOCX export', e);
+      return [];
+    }
+  };
+
+  // Every list gets its own numbering instance so ordered lists restart at 1.
+  let listInstance = 0;
+
+  const inline = (tokens: Token[] = [], style: InlineStyle = {}): ParagraphChild[] => tokens.flatMap((token): ParagraphChild[] => {
+    const run = (text: string, extra: InlineStyle = {}) => {
+      const s = { ...style, ...extra };
+      return new TextRun({
+        text,
+        bold: s.bold,
+        italics: s.italics,
+        strike: s.strike,
+        font: s.code ? CODE_FONT : undefined,
+        shading: s.code ? { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' } : undefined,
+      });
+    };
+
+    switch (token.type) {
+      case 'text':
+        return token.tokens ? inline(token.tokens, style) : [run(token.text)];
+      case 'escape':
+        return [run(token.text)];
+      case 'strong':
+        return inline(token.tokens, { ...style, bold: true });
+      case 'em':
+        return inline(token.tokens, { ...style, italics: true });
+      case 'del':
+        return inline(token.tokens, { ...style, strike: true });
+      case 'codespan':
+        return [run(token.text, { code: true })];
+      case 'br':
+        return [new TextRun({ break: 1 })];
+      case 'link':
+        return [new ExternalHyperlink({
+          link: token.href,
+          children: [new TextRun({
+            text: inlineText(token.tokens) || token.href,
+            style: 'Hyperlink',
+            bold: style.bold,
+            italics: style.italics,
+          })],
+        })];
+      case 'image':
+        // Inline images are pulled out into their own paragraphs by the block renderer.
+        return [];
+      case 'html':
+        return /^<br\s*\/?>$/i.test(token.text.trim()) ? [new TextRun({ break: 1 })] : [];
+      default:
+        return 'text' in token ? [run(String(token.text))] : [];
+    }
+  });
+
+  const inlineImages = (tokens: Token[] = []): Tokens.Image[] => tokens.flatMap(token => {
+    if (token.type === 'image') return [token as Tokens.Image];
+    return 'tokens' in token && token.tokens ? inlineImages(token.tokens) : [];
+  });
+
+  const imageBlocks = async (tokens: Token[] = []): Promise<Paragraph[]> => {
+    const paragraphs: Paragraph[] = [];
+    for (const image of inlineImages(tokens)) {
+      if (!isDataUrl(image.href)) continue; // remote images would need fetching (and CORS)
+      try {
+        paragraphs.push(imageParagraph(await toRaster(image.href), image.text || title));
+      } catch (e) {
+        console.error('Skipping unreadable image in DOCX export', e);
+      }
+    }
+    return paragraphs;
+  };
+
+  const block = async (tokens: Token[], context: { quote?: boolean; listLevel?: number } = {}): Promise<(Paragraph | Table)[]> => {
+    const out: (Paragraph | Table)[] = [];
+    const paragraphStyle = context.quote ? 'Quote' : undefined;
+
+    for (const token of tokens) {
+      if (isSvgToken(token)) {
+        try {
+          const figure = await svgParagraph(svgSource(token), 'Figure');
+          if (figure) out.push(figure);
+        } catch (e) {
+          console.error('Skipping unreadable SVG figure in DOCX export', e);
+        }
+        continue;
+      }
+      const figureId = figureMarkerId(token);
+      if (figureId) {
+        const placed = chapterFigureMap.get(figureId);
+        if (placed) out.push(...await figureBlocks(placed));
+        continue;
+      }
+
+      switch (token.type) {
+        case 'heading':
+          out.push(new Paragraph({
+            heading: HEADINGS[Math.min(5, token.depth)],
+            children: inline(token.tokens),
+          }));
+          break;
+        case 'paragraph':
+        case 'text': {
+          const children = token.tokens ? inline(token.tokens) : inline([token]);
+          if (children.length) out.push(new Paragraph({ style: paragraphStyle, children }));
+          out.push(...await imageBlocks(token.tokens));
+          break;
+        }
+        case 'blockquote':
+          out.push(...await block(token.tokens, { ...context, quote: true }));
+          break;
+        case 'list': {
+          const list = token as Tokens.List;
+          const level = context.listLevel ?? 0;
+          const instance = ++listInstance;
+          for (const item of list.items) {
+            // First paragraph of an item carries the bullet/number; the rest are indented continuations.
+            let first = true;
+            for (const child of item.tokens) {
+              if (child.type === 'list') {
+                out.push(...await block([child], { ...context, listLevel: level + 1 }));
+                continue;
+              }
+              if (child.type !== 'text' && child.type !== 'paragraph') {
+                out.push(...await block([child], context));
+                continue;
+              }
+              const children = inline((child as Tokens.Text).tokens || [child]);
+              if (item.task) {
+                children.unshift(new TextRun({ text: item.checked ? '☑ ' : '☐ ' }));
+              }
+              out.push(new Paragraph({
+                style: paragraphStyle,
+                children,
+                ...(first
+                  ? { numbering: { reference: list.ordered ? 'numbers' : 'bullets', level: Math.min(level, 3), instance } }
+                  : { indent: { left: 720 * (level + 1) } }),
+              }));
+              first = false;
+            }
+          }
+          break;
+        }
+        case 'code':
+          out.push(new Paragraph({
+            style: 'CodeBlock',
+            children: token.text.split('\n').flatMap((line: string, i: number) => [
+              ...(i > 0 ? [new TextRun({ break: 1 })] : []),
+              new TextRun({ text: line }),
+            ]),
+          }));
+          break;
+        case 'hr':
+          out.push(new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { before: 240, after: 240 },
+            children: [new TextRun({ text: '*   *   *' })],
+          }));
+          break;
+        case 'table': {
+          const table = token as Tokens.Table;
+          const align = (a: Tokens.TableCell['align']) =>
+            a === 'center' ? AlignmentType.CENTER : a === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT;
+          const row = (cells: Tokens.TableCell[], header: boolean) => new TableRow({
+            tableHeader: header,
+            children: cells.map(cell => new TableCell({
+              shading: header ? { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' } : undefined,
+              margins: { top: 60, bottom: 60, left: 100, right: 100 },
+              children: [new Paragraph({
+                alignment: align(cell.align),
+                children: inline(cell.tokens, { bold: header }),
+              })],
+            })),
+          });
+          out.push(new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [row(table.header, true), ...table.rows.map(r => row(r, false))],
+          }));
+          // Word glues consecutive tables together without a paragraph between them.
+          out.push(new Paragraph({ children: [] }));
+          break;
+        }
+        case 'space':
+        case 'html':
+          break;
+        default:
+          if ('tokens' in token && token.tokens) out.push(...await block(token.tokens, context));
+      }
+    }
+    return out;
+  };
+
+  // Title page
+  const titlePage: Paragraph[] = [];
+  if (book.coverImage && isDataUrl(book.coverImage)) {
+    try {
+      titlePage.push(imageParagraph(await toRaster(book.coverImage), title, 560));
+    } catch (e) {
+      console.error('Skipping unreadable cover in DOCX export', e);
+    }
+  }
+  titlePage.push(
+    new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun(title)] }),
+    new Paragraph({ style: 'Subtitle', alignment: AlignmentType.CENTER, children: [new TextRun(author)] }),
+    new Paragraph({ children: [new PageBreak()] }),
+  );
+
+  // Contents: cached entries show up immediately; Word refreshes page numbers on open.
+  // Parts (Part Title style) and sections ("## " headings, so Heading 3) are
+  // listed at their own levels when the book has them.
+  const parts = chapterParts(book);
+  const hasParts = parts.some(Boolean);
+  const hasSections = outline.some(chapter => chapter.sections?.length);
+  const chapterLevel = hasParts ? 2 : 1;
+  const cachedEntries: { title: string; level: number }[] = [];
+  outline.forEach((chapter, i) => {
+    const group = parts[i];
+    if (group?.part && opensPart(group, i)) cachedEntries.push({ title: group.part.title, level: 1 });
+    cachedEntries.push({ title: chapter.title, level: chapterLevel });
+    if (hasSections) writtenSections(chapter).forEach(section => cachedEntries.push({ title: section.title, level: chapterLevel + 1 }));
+  });
+  if (references.length) cachedEntries.push({ title: 'References', level: chapterLevel });
+  const contents = [
+    new Paragraph({ style: 'ContentsHeading', children: [new TextRun('Contents')] }),
+    new TableOfContents('Contents', {
+      hyperlink: true,
+      ...(hasParts || hasSections
+        ? {
+            stylesWithLevels: [
+              ...(hasParts ? [new StyleLevel('Part Title', 1)] : []),
+              new StyleLevel('Heading 1', chapterLevel),
+              ...(hasSections ? [new StyleLevel('Heading 3', chapterLevel + 1)] : []),
+            ],
+          }
+        : { headingStyleRange: '1-1' }),
+      cachedEntries,
+    }),
+  ];
+  if (figureList.length) {
+    contents.push(
+      new Paragraph({ style: 'ContentsHeading', pageBreakBefore: true, children: [new TextRun('List of Figures')] }),
+      ...figureList.map(placed => {
+        const anchor = figureBookmarks.get(placed.figure.id)!;
+        return new Paragraph({
+          tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX, leader: LeaderType.DOT }],
+          children: [
+            new InternalHyperlink({ anchor, children: [new TextRun(figureCaption(placed))] }),
+            new TextRun({ children: [new Tab()] }),
+            new PageReference(anchor),
+          ],
+        });
+      }),
+    );
+  }
+
+  // Chapters, each part opening on a page of its own
+  const chapters: (Paragraph | Table)[] = [];
+  for (const [i, chapter] of outline.entries()) {
+    const group = parts[i];
+    if (group?.part && opensPart(group, i)) {
+      chapters.push(
+        new Paragraph({ style: 'ChapterLabel', pageBreakBefore: true, alignment: AlignmentType.CENTER, children: [new TextRun(`Part ${group.number}`)] }),
+        new Paragraph({ style: 'PartTitle', children: [new TextRun(group.part.title)] }),
+      );
+      if (group.part.description) {
+        chapters.push(new Paragraph({ style: 'Subtitle', alignment: AlignmentType.CENTER, children: [new TextRun(group.part.description)] }));
+      }
+    }
+    chapters.push(
+      new Paragraph({ style: 'ChapterLabel', pageBreakBefore: true, children: [new TextRun(`${chapterLabel} ${i + 1}`)] }),
+      new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(chapter.title)] }),
+    );
+    if (chapter.imageUrl && isDataUrl(chapter.imageUrl)) {
+      try {
+        chapters.push(imageParagraph(await toRaster(chapter.imageUrl), chapter.title, 420));
+      } catch (e) {
+        console.error(`Skipping unreadable image for chapter ${i + 1}`, e);
+      }
+    }
+    const content = addCitationMarkers(chapter, citations, n => references[n - 1].uri);
+    chapterFigureMap = new Map(chapterFigures(chapter, i, true).map(p => [p.figure.id, p]));
+    chapters.push(...await block(parseMarkdown(content)));
+  }
+
+  if (references.length) {
+    chapters.push(
+      new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun('References')] }),
+      ...await block(parseMarkdown(referencesMarkdown(references))),
+    );
+  }
+
+  const doc = new Document({
+    creator: author,
+    title,
+    description: config.topic,
+    features: { updateFields: true },
+    styles: {
+      default: {
+        document: { run: { font: BODY_FONT, size: 22, color: '1E293B' }, paragraph: { spacing: { after: 160, line: 320 } } },
+        title: { run: { font: HEADING_FONT, size: 52, bold: true, color: '0F172A' }, paragraph: { spacing: { before: 480, after: 240 } } },
+        heading1: { run: { font: HEADING_FONT, size: 36, bold: true, color: '0F172A' }, paragraph: { spacing: { before: 120, after: 360 }, keepNext: true } },
+        heading2: { run: { font: HEADING_FONT, size: 28, bold: true, color: '0F172A' }, paragraph: { spacing: { before: 360, after: 160 }, keepNext: true } },
+        heading3: { run: { font: HEADING_FONT, size: 24, bold: true, color: '0F172A' }, paragraph: { spacing: { before: 280, after: 120 }, keepNext: true } },
+        heading4: { run: { font: HEADING_FONT, size: 22, bold: true, color: '334155' }, paragraph: { spacing: { before: 240, after: 120 }, keepNext: true } },
+        hyperlink: { run: { color: '4F46E5', underline: {} } },
+      },
+      paragraphStyles: [
+        {
+          id: 'Subtitle',
+          name: 'Subtitle',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { font: HEADING_FONT, size: 28, color: '475569' },
+        },
+        {
+          id: 'Quote',
+          name: 'Quote',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { italics: true, color: '475569' },
+          paragraph: {
+            indent: { left: 567 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'C7D2FE', space: 12 } },
+          },
+        },
+        {
+          id: 'CodeBlock',
+          name: 'Code Block',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { font: CODE_FONT, size: 18 },
+          paragraph: {
+            spacing: { before: 120, after: 240, line: 260 },
+            shading: { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' },
+          },
+        },
+        {
+          id: 'ChapterLabel',
+          name: 'Chapter Label',
+          basedOn: 'Normal',
+          next: 'Heading1',
+          run: { font: HEADING_FONT, size: 16, bold: true, color: '4F46E5', allCaps: true, characterSpacing: 40 },
+          paragraph: { spacing: { before: 960, after: 80 }, keepNext: true },
+        },
+        {
+          id: 'PartTitle',
+          name: 'Part Title',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { font: HEADING_FONT, size: 48, bold: true, color: '0F172A' },
+          paragraph: { alignment: AlignmentType.CENTER, spacing: { before: 240, after: 360 }, outlineLevel: 0 },
+        },
+        {
+          id: 'Caption',
+          name: 'Caption',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { font: HEADING_FONT, size: 18, color: '64748B' },
+          paragraph: { alignment: AlignmentType.CENTER, spacing: { after: 240 } },
+        },
+        {
+          id: 'ContentsHeading',
+          name: 'Contents Heading',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { font: HEADING_FONT, size: 36, bold: true, color: '0F172A' },
+          paragraph: { spacing: { after: 360 } },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: 'bullets',
+          levels: ['•', '◦', '▪', '•'].map((text, level) => ({
+            level,
+            format: LevelFormat.BULLET,
+            text,
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+        {
+          reference: 'numbers',
+          levels: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN, LevelFormat.DECIMAL].map((format, level) => ({
+            level,
+            format,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: 11906, height: 16838 }, // A4 in twips
+          margin: { top: 1440, bottom: 1440, left: 1440, right: 1440 },
+        },
+      },
+      children: [...titlePage, ...contents, ...chapters],
+    }],
+  });
+
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,323 @@
+import JSZip from "jszip";
+import { BookData } from "../types";
+import { escapeXml, normalizeSvg, parseMarkdown, renderHtml } from "./markdown";
+import { extensionForMime, isDataUrl, parseDataUrl } from "./fileUtils";
+import { addCitationMarkers, collectReferences, referencesHtml } from "./citations";
+import { chapterParts, opensPart, partLabel, sectionAnchor, sectionHeadingIds, writtenSections } from "./outline";
+import { chapterFigures, figureAnchor, figureCaption, listOfFigures } from "./figures";
+
+// EPUB 3 package (with an EPUB 2 NCX for older readers such as Kindle).
+//
+//   mimetype                  - must be the first entry, stored uncompressed
+//   META-INF/container.xml
+//   OEBPS/content.opf         - metadata, manifest, spine
+//   OEBPS/nav.xhtml, toc.ncx  - navigation
+//   OEBPS/text/*.xhtml        - cover, part title pages, one file per chapter, list of figures, references
+//   OEBPS/images/*            - cover, chapter art, figures, SVG diagrams
+
+interface EpubOptions {
+  language?: string;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+// Contents entry; parts hold their chapters and chapters their sections
+interface NavEntry {
+  title: string;
+  href: string;
+  children: NavEntry[];
+}
+
+const STYLESHEET = `
+body { font-family: Georgia, "Times New Roman", serif; line-height: 1.6; margin: 0 5%; color: #1e293b; }
+h1, h2, h3, h4 { font-family: Helvetica, Arial, sans-serif; line-height: 1.25; color: #0f172a; page-break-after: avoid; }
+h1 { font-size: 1.8em; margin: 1.5em 0 0.3em; }
+h2 { font-size: 1.35em; margin: 1.6em 0 0.6em; }
+h3 { font-size: 1.15em; margin: 1.4em 0 0.5em; }
+.chapter-label { font-family: Helvetica, Arial, sans-serif; font-size: 0.75em; letter-spacing: 0.2em; text-transform: uppercase; color: #4f46e5; margin-top: 3em; }
+p { margin: 0 0 1em; text-align: justify; }
+blockquote { margin: 1.5em 0; padding-left: 1em; border-left: 3px solid #c7d2fe; font-style: italic; color: #475569; }
+pre { white-space: pre-wrap; font-size: 0.85em; background: #f1f5f9; padding: 0.8em; }
+table { border-collapse: collapse; margin: 1em 0; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 0.3em 0.5em; }
+img { max-width: 100%; }
+figure { margin: 1.5em 0; text-align: center; page-break-inside: avoid; }
+figcaption { font-family: Helvetica, Arial, sans-serif; font-size: 0.8em; color: #64748b; margin-top: 0.5em; }
+.chapter-image { margin: 1em 0 2em; }
+.part { text-align: center; margin-top: 30%; }
+.part p { text-align: center; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+nav ol { list-style: none; padding-left: 0; }
+nav li { margin: 0.5em 0; }
+nav ol ol { padding-left: 1.5em; }
+.references { font-size: 0.85em; word-wrap: break-word; }
+.figures { list-style: none; padding-left: 0; }
+.figures li { margin: 0.4em 0; }
+`.trim();
+
+const xhtmlDocument = (title: string, language: string, body: string, stylesheetHref = '../styles/book.css') => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheetHref}"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+// dcterms:modified requires CCYY-MM-DDThh:mm:ssZ (no milliseconds)
+const toEpubDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const chapterFileName = (index: number) => `chapter-${String(index + 1).padStart(2, '0')}.xhtml`;
+
+const navList = (entries: NavEntry[]): string => entries
+  .map(entry => `<li><a href="${entry.href}">${escapeXml(entry.title)}</a>${entry.children.length ? `\n<ol>\n${navList(entry.children)}\n</ol>\n` : ''}</li>`)
+  .join('\n');
+
+const navDepth = (entries: NavEntry[]): number =>
+  entries.length ? 1 + Math.max(...entries.map(entry => navDepth(entry.children))) : 0;
+
+export const exportEpub = async (book: BookData, options: EpubOptions = {}): Promise<Blob> => {
+  const language = options.language || 'en';
+  const { config, outline } = book;
+  const title = config.title || config.topic || 'Untitled';
+  const author = config.authorName || 'eBook Architect';
+  const identifier = `urn:uuid:${crypto.randomUUID()}`;
+
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  const oebps = zip.folder('OEBPS')!;
+  const manifest: ManifestItem[] = [
+    { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' },
+    { id: 'ncx', href: 'toc.ncx', mediaType: 'application/x-dtbncx+xml' },
+    { id: 'css', href: 'styles/book.css', mediaType: 'text/css' },
+  ];
+  const spine: string[] = [];
+  oebps.file('styles/book.css', STYLESHEET);
+  const citations = collectReferences(outline);
+  const { references } = citations;
+
+  // Images are written once and referenced relative to text/*.xhtml
+  const images = new Map<string, string>(); // data URL -> href
+  const addImage = (dataUrl: string, baseName: string, properties?: string): string | null => {
+    const existing = images.get(dataUrl);
+    if (existing) return existing;
+    try {
+      const { mimeType, bytes } = parseDataUrl(dataUrl);
+      const href = `images/${baseName}.${extensionForMime(mimeType)}`;
+      oebps.file(href, bytes, { binary: true });
+      manifest.push({ id: baseName, href, mediaType: mimeType, properties });
+      images.set(dataUrl, href);
+      return href;
+    } catch (e) {
+      console.error(`Skipping unreadable image ${baseName}`, e);
+      return null;
+    }
+  };
+
+  // Cover
+  const coverHref = book.coverImage && isDataUrl(book.coverImage)
+    ? addImage(book.coverImage, 'cover-image', 'cover-image')
+    : null;
+  if (coverHref) {
+    oebps.file('text/cover.xhtml', xhtmlDocument(title, language,
+      `<section class="cover" epub:type="cover">\n<img src="../${coverHref}" alt="${escapeXml(title)}"/>\n</section>`
+    ));
+    manifest.push({ id: 'cover', href: 'text/cover.xhtml', mediaType: 'application/xhtml+xml' });
+    spine.push('cover');
+  }
+
+  // Chapters, each part opening with a title page
+  const navEntries: NavEntry[] = [];
+  const parts = chapterParts(book);
+  let partEntry: NavEntry | undefined;
+  outline.forEach((chapter, i) => {
+    const fileName = chapterFileName(i);
+    const slug = `chapter-${String(i + 1).padStart(2, '0')}`;
+    let figureCount = 0;
+    let imageCount = 0;
+
+    const group = parts[i];
+    if (group?.part && opensPart(group, i)) {
+      const partSlug = `part-${String(group.number).padStart(2, '0')}`;
+      oebps.file(`text/${partSlug}.xhtml`, xhtmlDocument(group.part.title || `Part ${group.number}`, language, [
+        `<section epub:type="part" class="part" id="${partSlug}">`,
+        `<p class="chapter-label">Part ${group.number}</p>`,
+        `<h1>${escapeXml(group.part.title)}</h1>`,
+        group.part.description ? `<p>${escapeXml(group.part.description)}</p>` : '',
+        `</section>`,
+      ].filter(Boolean).join('\n')));
+      manifest.push({ id: partSlug, href: `text/${partSlug}.xhtml`, mediaType: 'application/xhtml+xml' });
+      spine.push(partSlug);
+      partEntry = { title: partLabel(group), href: `text/${partSlug}.xhtml`, children: [] };
+      navEntries.push(partEntry);
+    } else if (!group) {
+      partEntry = undefined;
+    }
+    (partEntry ? partEntry.children : navEntries).push({
+      title: chapter.title,
+      href: `text/${fileName}`,
+      children: writtenSections(chapter).map((s, j) => ({ title: s.title, href: `text/${fileName}#${sectionAnchor(j)}`, children: [] })),
+    });
+
+    const content = addCitationMarkers(chapter, citations, n => `references.xhtml#ref-${n}`);
+    const figures = new Map(chapterFigures(chapter, i, true).map(p => [p.figure.id, p]));
+    const body = renderHtml(parseMarkdown(content), {
+      headingOffset: 1,
+      headingId: sectionHeadingIds(chapter),
+      renderSvg: (svg) => {
+        const normalized = normalizeSvg(svg);
+        if (!normalized) return '';
+        figureCount++;
+        const href = `images/${slug}-figure-${figureCount}.svg`;
+        oebps.file(href, normalized);
+        manifest.push({ id: `${slug}-figure-${figureCount}`, href, mediaType: 'image/svg+xml' });
+        return `<figure>\n<img src="../${href}" alt="Figure ${figureCount}"/>\n</figure>\n`;
+      },
+      renderFigure: (id) => {
+        const placed = figures.get(id);
+        const href = placed?.figure.imageUrl && isDataUrl(placed.figure.imageUrl)
+          ? addImage(placed.figure.imageUrl, `${slug}-${figureAnchor(placed.figure)}`)
+          : null;
+        if (!placed || !href) return '';
+        return `<figure id="${figureAnchor(placed.figure)}">\n<img src="../${href}" alt="${escapeXml(placed.figure.caption)}"/>\n<figcaption>${escapeXml(figureCaption(placed))}</figcaption>\n</figure>\n`;
+      },
+      resolveImage: (src) => {
+        if (!isDataUrl(src)) return null; // remote resources aren't allowed without extra manifest work
+        imageCount++;
+        const href = addImage(src, `${slug}-inline-${imageCount}`);
+        return href ? `../${href}` : null;
+      },
+    });
+
+    const chapterImage = chapter.imageUrl && isDataUrl(chapter.imageUrl)
+      ? addImage(chapter.imageUrl, `${slug}-image`)
+      : null;
+
+    const label = config.format === 'linkedin-carousel' ? `Slide ${i + 1}` : `Chapter ${i + 1}`;
+    const section = [
+      `<section epub:type="chapter" id="${slug}">`,
+      `<p class="chapter-label">${label}</p>`,
+      `<h1>${escapeXml(chapter.title)}</h1>`,
+      chapterImage ? `<div class="chapter-image"><img src="../${chapterImage}" alt="${escapeXml(chapter.title)}"/></div>` : '',
+      body,
+      `</section>`,
+    ].filter(Boolean).join('\n');
+
+    oebps.file(`text/${fileName}`, xhtmlDocument(chapter.title, language, section));
+    manifest.push({ id: slug, href: `text/${fileName}`, mediaType: 'application/xhtml+xml' });
+    spine.push(slug);
+  });
+
+  // List of figures
+  const figureList = listOfFigures(book, true);
+  if (figureList.length) {
+    const items = figureList
+      .map(placed => `<li><a href="${chapterFileName(placed.chapterIndex)}#${figureAnchor(placed.figure)}">${escapeXml(figureCaption(placed))}</a></li>`)
+      .join('\n');
+    oebps.file('text/figures.xhtml', xhtmlDocument('List of Figures', language,
+      `<section epub:type="loi" id="figures">\n<h1>List of Figures</h1>\n<ol class="figures">\n${items}\n</ol>\n</section>`
+    ));
+    manifest.push({ id: 'figures', href: 'text/figures.xhtml', mediaType: 'application/xhtml+xml' });
+    spine.push('figures');
+  }
+
+  // References
+  if (references.length) {
+    oebps.file('text/references.xhtml', xhtmlDocument('References', language,
+      `<section epub:type="bibliography" id="references">\n<h1>References</h1>\n${referencesHtml(references)}</section>`
+    ));
+    manifest.push({ id: 'references', href: 'text/references.xhtml', mediaType: 'application/xhtml+xml' });
+    spine.push('references');
+  }
+
+  // Navigation document (EPUB 3)
+  if (figureList.length) navEntries.push({ title: 'List of Figures', href: 'text/figures.xhtml', children: [] });
+  if (references.length) navEntries.push({ title: 'References', href: 'text/references.xhtml', children: [] });
+  oebps.file('nav.xhtml', xhtmlDocument('Contents', language, `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${navList(navEntries)}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>
+${coverHref ? '<li><a epub:type="cover" href="text/cover.xhtml">Cover</a></li>' : ''}
+<li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+${outline.length ? `<li><a epub:type="bodymatter" href="${navEntries[0].href}">Start</a></li>` : ''}
+</ol>
+</nav>`, 'styles/book.css'));
+  spine.splice(coverHref ? 1 : 0, 0, 'nav');
+
+  // NCX (EPUB 2 fallback), numbered in reading order
+  let playOrder = 0;
+  const navPoints = (entries: NavEntry[], indent: string): string => entries.map(entry => {
+    playOrder++;
+    return `${indent}<navPoint id="navpoint-${playOrder}" playOrder="${playOrder}">
+${indent}  <navLabel><text>${escapeXml(entry.title)}</text></navLabel>
+${indent}  <content src="${entry.href}"/>
+${entry.children.length ? `${navPoints(entry.children, `${indent}  `)}\n` : ''}${indent}</navPoint>`;
+  }).join('\n');
+  oebps.file('toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}"/>
+    <meta name="dtb:depth" content="${navDepth(navEntries)}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${navPoints(navEntries, '    ')}
+  </navMap>
+</ncx>
+`);
+
+  // Package document
+  const generatedAt = new Date(book.generatedAt);
+  const manifestXml = manifest
+    .map(item => `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`)
+    .join('\n');
+  const spineXml = spine.map(id => `    <itemref idref="${id}"/>`).join('\n');
+
+  oebps.file('content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:creator id="creator">${escapeXml(author)}</dc:creator>
+    <dc:language>${language}</dc:language>
+    <dc:date>${toEpubDate(generatedAt)}</dc:date>
+    ${config.topic ? `<dc:description>${escapeXml(config.topic)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${toEpubDate(new Date())}</meta>
+    ${coverHref ? '<meta name="cover" content="cover-image"/>' : ''}
+  </metadata>
+  <manifest>
+${manifestXml}
+  </manifest>
+  <spine toc="ncx">
+${spineXml}
+  </spine>
+</package>
+`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,81 @@
+import { BookData, Chapter, Figure } from "../types";
+import { createId } from "./ids";
+import { FIGURE_URL_PREFIX, figureIdFromUrl, figureMarkerId, parseMarkdown } from "./markdown";
+
+export { FIGURE_URL_PREFIX, figureIdFromUrl };
+
+// Figures placed inside chapter text. The writer marks where a picture helps
+// with a placeholder line, "[FIGURE: caption | what the image shows]"; once the
+// text is in, each placeholder becomes a Figure on the chapter and a marker in
+// the text, a markdown image pointing at "figure:<id>". Images are drawn per
+// figure, and the reader and exporters put each one where its marker is, with
+// a caption numbered by chapter ("Figure 3.2").
+
+export const MAX_FIGURES_PER_CHAPTER = 3;
+
+const PLACEHOLDER = /^[ \t]*\[FIGURE:\s*([^|\n]+?)\s*\|\s*(.+?)\s*\][ \t]*$/gim;
+const MARKER = /!\[[^\]\n]*\]\(figure:([\w-]+)\)/g;
+
+export interface PlacedFigure {
+  figure: Figure;
+  chapterIndex: number;
+  number: number; // Within the chapter, counted from 1
+  label: string; // "Figure 3.2"
+}
+
+// The caption goes into the marker's alt text, where brackets would end it
+export const figureAltText = (figure: Figure) => figure.caption.replace(/[[\]]/g, '').replace(/\s+/g, ' ').trim();
+
+export const figureMarker = (figure: Figure) => `![${figureAltText(figure)}](${FIGURE_URL_PREFIX}${figure.id})`;
+
+export const figureAnchor = (figure: Figure) => `figure-${figure.id}`;
+
+// Turns the writer's placeholders into figures. Each marker gets a paragraph
+// of its own, as one run into a paragraph is not rendered as a figure. Figures
+// whose marker is no longer in the text are kept, so reverting the text brings
+// them back.
+export const placeFigures = (content: string, figures: Figure[] = []): { content: string; figures?: Figure[] } => {
+  const added: Figure[] = [];
+  const placed = content.replace(PLACEHOLDER, (_, caption: string, prompt: string) => {
+    const figure: Figure = { id: createId('fig'), caption: caption.trim(), prompt: prompt.trim() };
+    added.push(figure);
+    return `\n\n${figureMarker(figure)}\n\n`;
+  });
+  const all = [...figures, ...added];
+  return { content: placed, figures: all.length ? all : undefined };
+};
+
+// Ids of the figures whose markers are in the text
+export const figureIdsIn = (content: string) => new Set([...content.matchAll(MARKER)].map(match => match[1]));
+
+// The chapter's figures in the order their markers appear in the text, counting
+// only markers that stand as a paragraph of their own, as those are the ones
+// rendered. Exports leave out figures that were never drawn, and number the rest.
+export const chapterFigures = (chapter: Chapter, chapterIndex: number, drawnOnly = false): PlacedFigure[] => {
+  if (!chapter.figures?.length) return [];
+  const seen = new Set<string>();
+  const placed: PlacedFigure[] = [];
+  for (const token of parseMarkdown(chapter.content || '')) {
+    const figureId = figureMarkerId(token);
+    const figure = figureId ? chapter.figures.find(f => f.id === figureId) : undefined;
+    if (!figure || seen.has(figure.id) || (drawnOnly && !figure.imageUrl)) continue;
+    seen.add(figure.id);
+    const number = placed.length + 1;
+    placed.push({ figure, chapterIndex, number, label: `Figure ${chapterIndex + 1}.${number}` });
+  }
+  return placed;
+};
+
+// Every placed figure of the book, for the lists of figures
+export const listOfFigures = (book: Pick<BookData, 'outline'>, drawnOnly = false): PlacedFigure[] =>
+  book.outline.flatMap((chapter, i) => chapterFigures(chapter, i, drawnOnly));
+
+export const figureCaption = (placed: PlacedFigure) => `${placed.label}. ${placed.figure.caption}`;
+
+// Figures of a chapter that are placed but not drawn yet
+export const undrawnFigures = (chapter: Chapter) =>
+  chapterFigures(chapter, 0).map(p => p.figure).filter(figure => !figure.imageUrl);
+
+export const figureInstruction = () =>
+  `FIGURES: Where a picture would genuinely help the reader (a scene, a concept, a process), place a figure on a line of its own, right after the paragraph it illustrates: ` +
+  `[FIGURE: short caption | detailed description of the image to draw]. Use at most ${MAX_FIGURES_PER_CHAPTER} per chapter, and none where a picture adds nothing.`;
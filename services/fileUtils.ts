@@ -0,0 +1,89 @@
+// Helpers shared by the project file format and the exporters.
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+export const toFileSlug = (title: string) =>
+  title.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'untitled';
+
+export const isDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:');
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) throw new Error("Malformed data URL");
+
+  const mimeType = match[1] || 'application/octet-stream';
+  const payload = match[3];
+
+  if (!match[2]) {
+    return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mimeType, bytes };
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const extensionForMime = (mimeType: string) => MIME_EXTENSIONS[mimeType] || 'bin';
+
+export const mimeForExtension = (extension: string) =>
+  Object.keys(MIME_EXTENSIONS).find(mime => MIME_EXTENSIONS[mime] === extension.toLowerCase()) || 'application/octet-stream';
+
+export const IMAGE_FILE_ACCEPT = 'image/png,image/jpeg,image/webp';
+
+// An image chosen by the user, scaled down to maxSide and kept as a data URL
+export const readImageFile = (file: File, maxSide: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (!IMAGE_FILE_ACCEPT.split(',').includes(file.type)) {
+      reject(new Error(`${file.name}: unsupported image type. Use PNG, JPEG or WebP.`));
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error(`${file.name}: could not read the image.`));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.85));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name}: could not read the image.`));
+    };
+    img.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
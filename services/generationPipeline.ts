@@ -0,0 +1,264 @@
+import { BookData, Chapter, GenerationJob, Grounding } from "../types";
+import * as AIService from "./aiService";
+import { AIError, classifyError, DEFAULT_RATE_LIMITS, describeError, FATAL_KINDS } from "./providers";
+import { buildContinuityBrief } from "./continuity";
+import { appendVersion, ChapterChange } from "./chapterHistory";
+import { mergeGrounding } from "./citations";
+import { formatPassagesForPrompt, resolvePassageTags, retrievePassages } from "./referenceDocs";
+import { placeFigures, undrawnFigures } from "./figures";
+
+// Full-book generation as a set of jobs. The cover and chapter illustrations
+// only need titles and the style, so they run alongside the text instead of
+// after it; illustrations are drawn to match the cover, so they wait for it. Text and images each get half of the project's parallel request
+// budget; the shared rate limiter keeps the total within the provider limits.
+// Text jobs start in outline order and each one ends by writing the chapter's
+// digest, so a chapter's prompt sees the digests of everything finished before it.
+// The figures placed in a chapter's text are drawn once that text is written,
+// after all other images.
+
+export interface PipelineOptions {
+  request: AIService.RequestOptions; // projectId and the run's abort signal
+  chapterIds?: string[]; // Limit the run to these chapters, without the cover
+  onJobs: (jobs: GenerationJob[]) => void;
+  onChapter: (chapterId: string, patch: Partial<Chapter>) => void;
+  onCover: (coverImage: string) => void;
+}
+
+export interface PipelineResult {
+  failedChapters: number;
+  coverFailed: boolean; // Resuming the run draws it again
+}
+
+type Task = () => Promise<void>;
+
+const runPool = async (tasks: Task[], concurrency: number, signal: AbortSignal) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !signal.aborted) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
+};
+
+export const runGenerationPipeline = async (book: BookData, options: PipelineOptions): Promise<PipelineResult> => {
+  const { config } = book;
+  const withImages = AIService.providerSupportsImages(config);
+  const limits = config.provider?.limits || DEFAULT_RATE_LIMITS;
+  const lanes = Math.max(1, Math.floor(limits.maxConcurrent / 2));
+
+  // A fatal error (auth, quota) stops the other jobs too, so the run gets
+  // its own controller chained to the caller's pause/cancel signal
+  const controller = new AbortController();
+  const external = options.request.signal;
+  if (external?.aborted) controller.abort(external.reason);
+  external?.addEventListener('abort', () => controller.abort(external.reason), { once: true });
+  let fatal: unknown;
+
+  // Local view of the outline, so text jobs see digests written during this run
+  const outline = book.outline.map(c => ({ ...c }));
+  const patchChapter = (chapterId: string, patch: Partial<Chapter>) => {
+    const index = outline.findIndex(c => c.id === chapterId);
+    if (index >= 0) outline[index] = { ...outline[index], ...patch };
+    options.onChapter(chapterId, patch);
+  };
+  // Finished text and images are recorded in the chapter's version history
+  const commitGenerated = (chapterId: string, change: ChapterChange, patch: Partial<Chapter> = {}) => {
+    const versions = appendVersion(outline.find(c => c.id === chapterId)?.versions, 'generated', change);
+    patchChapter(chapterId, { ...patch, ...change, versions });
+  };
+
+  const jobs: GenerationJob[] = [];
+  const publishJobs = () => options.onJobs(jobs.map(job => ({ ...job })));
+  const updateJob = (job: GenerationJob, patch: Partial<GenerationJob>) => {
+    Object.assign(job, patch);
+    publishJobs();
+  };
+
+  // Chapter status is derived from its jobs: writing wins over illustrating,
+  // and any failure marks the chapter for retry once its jobs have settled
+  const chapterJobs = new Map<string, GenerationJob[]>();
+  const chapterErrors = new Map<string, string[]>();
+  // The cover has no chapter to carry its failure
+  let coverFailed = false;
+  const syncChapter = (chapterId: string) => {
+    const own = chapterJobs.get(chapterId) || [];
+    const errors = chapterErrors.get(chapterId) || [];
+    let status: Chapter['status'] = 'pending';
+    if (own.some(j => j.kind === 'text' && j.status === 'running')) status = 'generating_text';
+    else if (own.some(j => j.status === 'running')) status = 'generating_image';
+    else if (own.some(j => j.status === 'queued')) status = 'pending';
+    else if (errors.length > 0) status = 'error';
+    else if (own.every(j => j.status === 'done')) status = 'completed';
+    patchChapter(chapterId, { status, error: errors.length > 0 ? errors.join('; ') : undefined });
+  };
+
+  const requestFor = (job: GenerationJob): AIService.RequestOptions => ({
+    ...options.request,
+    signal: controller.signal,
+    onRetry: ({ attempt, maxAttempts, delayMs, error }) => updateJob(job, {
+      note: `${error.label}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${maxAttempts})`
+    }),
+  });
+
+  // Wraps a job body with status tracking. Aborted jobs go back to 'queued'
+  // so a resumed run picks them up again.
+  const track = (job: GenerationJob, body: () => Promise<void>): Task => async () => {
+    if (controller.signal.aborted) return;
+    updateJob(job, { status: 'running', note: undefined });
+    if (job.chapterId) syncChapter(job.chapterId);
+    try {
+      await body();
+      updateJob(job, { status: 'done' });
+    } catch (e) {
+      const error = classifyError(e);
+      if (controller.signal.aborted || error.kind === 'cancelled') {
+        updateJob(job, { status: 'queued', note: undefined });
+      } else {
+        console.error(`Generation job ${job.id} failed`, e);
+        updateJob(job, { status: 'failed', note: describeError(error) });
+        if (job.kind === 'cover') coverFailed = true;
+        if (job.chapterId) {
+          const kind = job.kind === 'text' ? 'Text' : job.kind === 'figures' ? 'Figures' : 'Illustration';
+          chapterErrors.set(job.chapterId, [...(chapterErrors.get(job.chapterId) || []), `${kind} · ${describeError(error)}`]);
+        }
+        if (FATAL_KINDS.includes(error.kind) && !fatal) {
+          fatal = error;
+          controller.abort('fatal');
+        }
+      }
+    }
+    if (job.chapterId) syncChapter(job.chapterId);
+  };
+
+  const textTasks: Task[] = [];
+  const imageTasks: Task[] = [];
+  const figureTasks: Task[] = [];
+
+  let resolveCover: (coverImage?: string) => void = () => {};
+  const cover = new Promise<string | undefined>(resolve => { resolveCover = resolve; });
+
+  if (!options.chapterIds && withImages && !book.coverImage) {
+    const job: GenerationJob = { id: 'cover', kind: 'cover', status: 'queued' };
+    jobs.push(job);
+    imageTasks.push(track(job, async () => {
+      try {
+        const coverImage = await AIService.generateBookCover(config, requestFor(job));
+        options.onCover(coverImage);
+        resolveCover(coverImage);
+      } finally {
+        // Without a cover the illustrations still follow the style profile
+        resolveCover(undefined);
+      }
+    }));
+  } else {
+    resolveCover(book.coverImage);
+  }
+
+  book.outline.forEach((chapter, i) => {
+    if (chapter.status === 'completed') return;
+    if (options.chapterIds && !options.chapterIds.includes(chapter.id)) return;
+    const own: GenerationJob[] = [];
+    const writesText = !chapter.content || chapter.partial || !chapter.digest;
+
+    // Settles once the text job has run, or the run has stopped before it
+    let textSettled: Promise<void> = Promise.resolve();
+    if (writesText) {
+      const job: GenerationJob = { id: `text:${chapter.id}`, kind: 'text', chapterId: chapter.id, status: 'queued' };
+      own.push(job);
+      let settleText = () => {};
+      textSettled = new Promise(resolve => { settleText = resolve; });
+      controller.signal.addEventListener('abort', () => settleText(), { once: true });
+      const task = track(job, async () => {
+        let fullText = chapter.content || "";
+        if (!chapter.content || chapter.partial) {
+          // Interrupted text is kept and the stream picks up where it stopped
+          fullText = chapter.partial ? fullText : "";
+          // Same query on resume, so the passage tags of partial text stay valid
+          const passages = retrievePassages(config.referenceDocs, [chapter.title, chapter.description, ...(chapter.sections || []).map(s => s.title)].join(' '));
+          const brief = [buildContinuityBrief(outline, i, config, book.parts), formatPassagesForPrompt(passages)].filter(Boolean).join('\n\n');
+          // A continued stream adds its sources to those of the text before it
+          let grounding = chapter.partial ? chapter.grounding : undefined;
+          const stream = AIService.generateChapterContentStream(chapter, config.title, config, brief, {
+            ...requestFor(job),
+            onGrounding: (value: Grounding) => { grounding = mergeGrounding(grounding, value); },
+          });
+          for await (const chunk of stream) {
+            fullText += chunk;
+            patchChapter(chapter.id, { content: fullText, partial: true, digest: undefined });
+          }
+          if (!fullText.trim()) throw new AIError('invalid', "The model returned no text.");
+          const { content, sourcePassages } = resolvePassageTags(fullText, passages);
+          if (grounding && passages.length) {
+            // Search supports quote the text with its passage tags still in it
+            grounding = { ...grounding, supports: grounding.supports.map(s => ({ ...s, text: resolvePassageTags(s.text, passages).content.trim() })) };
+          }
+          // The writer's figure placeholders become figures, drawn by the figures job
+          const placed = placeFigures(content, outline.find(c => c.id === chapter.id)?.figures);
+          fullText = placed.content;
+          commitGenerated(chapter.id, { content: placed.content }, { partial: undefined, grounding, sourcePassages, figures: placed.figures });
+        }
+
+        // A missing digest only weakens later prompts, so it doesn't fail the chapter
+        try {
+          const digest = await AIService.generateChapterDigest({ ...chapter, content: fullText }, config, requestFor(job));
+          patchChapter(chapter.id, { digest });
+        } catch (e) {
+          if (controller.signal.aborted || FATAL_KINDS.includes(classifyError(e).kind)) throw e;
+          console.warn(`Continuity digest for "${chapter.title}" failed`, e);
+        }
+      });
+      textTasks.push(async () => {
+        await task();
+        settleText();
+      });
+    }
+
+    if (withImages && !chapter.imageUrl) {
+      const job: GenerationJob = { id: `image:${chapter.id}`, kind: 'image', chapterId: chapter.id, status: 'queued' };
+      own.push(job);
+      imageTasks.push(track(job, async () => {
+        const imagePrompt = chapter.imagePrompt || AIService.defaultIllustrationPrompt(chapter.title);
+        const imageUrl = await AIService.generateChapterIllustration(imagePrompt, config, requestFor(job), await cover);
+        commitGenerated(chapter.id, { imageUrl }, { imagePrompt });
+      }));
+    }
+
+    // Only ebook writers are asked for figures, see chapterSystemInstruction
+    if (withImages && (writesText ? config.format === 'ebook' : undrawnFigures(chapter).length > 0)) {
+      const job: GenerationJob = { id: `figures:${chapter.id}`, kind: 'figures', chapterId: chapter.id, status: 'queued' };
+      own.push(job);
+      figureTasks.push(track(job, async () => {
+        await textSettled;
+        if (controller.signal.aborted) throw new AIError('cancelled', "Generation stopped.");
+        const coverImage = await cover;
+        // Without text (its job failed) there is nothing to draw; the text error marks the chapter
+        for (const figure of undrawnFigures(outline.find(c => c.id === chapter.id)!)) {
+          const imageUrl = await AIService.generateChapterIllustration(figure.prompt, config, requestFor(job), coverImage);
+          const figures = outline.find(c => c.id === chapter.id)?.figures?.map(f => f.id === figure.id ? { ...f, imageUrl } : f);
+          patchChapter(chapter.id, { figures });
+        }
+      }));
+    }
+
+    if (own.length === 0) {
+      // Everything is already there, e.g. an earlier run stopped just before marking it
+      patchChapter(chapter.id, { status: 'completed', error: undefined });
+      return;
+    }
+    chapterJobs.set(chapter.id, own);
+    jobs.push(...own);
+    patchChapter(chapter.id, { status: 'pending', error: undefined });
+  });
+
+  publishJobs();
+  imageTasks.push(...figureTasks);
+  await Promise.all([
+    runPool(textTasks, lanes, controller.signal),
+    runPool(imageTasks, lanes, controller.signal),
+  ]);
+
+  if (fatal) throw fatal;
+  if (controller.signal.aborted) throw new AIError('cancelled', "Generation stopped.");
+  return { failedChapters: chapterErrors.size, coverFailed };
+};
@@ -0,0 +1,5 @@
+// Ids for everything stored in a project: projects, outline nodes, versions,
+// reference documents. A time part keeps them roughly ordered, a random part
+// keeps ids made in the same millisecond apart.
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
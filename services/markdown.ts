@@ -0,0 +1,222 @@
+import { marked, Token, Tokens } from "marked";
+
+// Shared markdown handling for the exporters. The reader renders with
+// react-markdown; everything that leaves the app goes through these tokens.
+
+export type { Token, Tokens };
+
+export const parseMarkdown = (markdown: string): Token[] =>
+  marked.lexer(markdown || '', { gfm: true });
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const isSvgToken = (token: Token) =>
+  (token.type === 'code' && (token as Tokens.Code).lang?.trim().toLowerCase() === 'svg') ||
+  (token.type === 'html' && /^\s*<svg[\s>]/i.test((token as Tokens.HTML).text));
+
+export const svgSource = (token: Token) => (token as Tokens.Code | Tokens.HTML).text.trim();
+
+// Figure markers are images pointing at "figure:<id>", see services/figures.ts
+export const FIGURE_URL_PREFIX = 'figure:';
+
+export const figureIdFromUrl = (url: string) =>
+  url.startsWith(FIGURE_URL_PREFIX) ? url.slice(FIGURE_URL_PREFIX.length) : undefined;
+
+// The figure id of a paragraph that holds nothing but a figure marker. Markers the writer ran into a sentence are dropped.
+export const figureMarkerId = (token: Token): string | undefined => {
+  if (token.type !== 'paragraph') return undefined;
+  const content = ((token as Tokens.Paragraph).tokens || []).filter(t => !(t.type === 'text' && !t.raw.trim()));
+  return content.length === 1 && content[0].type === 'image' ? figureIdFromUrl((content[0] as Tokens.Image).href) : undefined;
+};
+
+// All SVG figures in a chapter, in document order (```svg fences or raw <svg> blocks).
+export const extractSvgFigures = (markdown: string): string[] =>
+  parseMarkdown(markdown)
+    .filter(isSvgToken)
+    .map(svgSource);
+
+// Makes model-written SVG safe to ship as a standalone XML file, or returns
+// null when it isn't well-formed.
+export const normalizeSvg = (svg: string): string | null => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    return null;
+  }
+  root.querySelectorAll('script, foreignObject').forEach(node => node.remove());
+  if (!root.getAttribute('xmlns')) {
+    root.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  }
+  return new XMLSerializer().serializeToString(root);
+};
+
+// Plain text of an inline token run (used for titles, alt text and layout).
+export const inlineText = (tokens: Token[] = []): string =>
+  tokens.map(token => {
+    if ('tokens' in token && token.tokens) return inlineText(token.tokens);
+    if (token.type === 'br') return '\n';
+    if (token.type === 'html') return '';
+    return 'text' in token ? String(token.text) : '';
+  }).join('');
+
+export interface HtmlRenderOptions {
+  // Shift markdown headings down, e.g. 1 when the page already has an <h1>.
+  headingOffset?: number;
+  // Markup for SVG figures; figures are dropped when omitted.
+  renderSvg?: (svg: string) => string;
+  // Rewrites image sources (e.g. data URLs to packaged files); null drops the image.
+  resolveImage?: (src: string) => string | null;
+  // Markup for a placed figure, by id; figures are dropped when omitted.
+  renderFigure?: (id: string) => string;
+  // Anchor id for a heading, by its markdown depth and plain text.
+  headingId?: (depth: number, text: string) => string | undefined;
+}
+
+// Renders tokens to markup that is valid both as XHTML (EPUB) and HTML5.
+export const renderHtml = (tokens: Token[], options: HtmlRenderOptions = {}): string => {
+  const { headingOffset = 0 } = options;
+
+  const inline = (children: Token[] = []): string => children.map(token => {
+    switch (token.type) {
+      case 'text':
+        return token.tokens ? inline(token.tokens) : escapeXml(token.text);
+      case 'escape':
+        return escapeXml(token.text);
+      case 'strong':
+        return `<strong>${inline(token.tokens)}</strong>`;
+      case 'em':
+        return `<em>${inline(token.tokens)}</em>`;
+      case 'del':
+        return `<del>${inline(token.tokens)}</del>`;
+      case 'codespan':
+        return `<code>${escapeXml(token.text)}</code>`;
+      case 'br':
+        return '<br/>';
+      case 'link': {
+        const title = token.title ? ` title="${escapeXml(token.title)}"` : '';
+        return `<a href="${escapeXml(token.href)}"${title}>${inline(token.tokens)}</a>`;
+      }
+      case 'image': {
+        if (figureIdFromUrl(token.href)) return '';
+        const src = options.resolveImage ? options.resolveImage(token.href) : token.href;
+        if (!src) return escapeXml(token.text);
+        return `<img src="${escapeXml(src)}" alt="${escapeXml(token.text)}"/>`;
+      }
+      case 'html':
+        // Raw HTML isn't guaranteed to be well-formed XML; keep only line breaks.
+        return /^<br\s*\/?>$/i.test(token.text.trim()) ? '<br/>' : '';
+      default:
+        return 'text' in token ? escapeXml(String(token.text)) : '';
+    }
+  }).join('');
+
+  const block = (children: Token[]): string => children.map(token => {
+    if (isSvgToken(token)) {
+      return options.renderSvg ? options.renderSvg(svgSource(token)) : '';
+    }
+    const figureId = figureMarkerId(token);
+    if (figureId) {
+      return options.renderFigure ? options.renderFigure(figureId) : '';
+    }
+
+    switch (token.type) {
+      case 'heading': {
+        const level = Math.min(6, token.depth + headingOffset);
+        const id = options.headingId?.(token.depth, inlineText(token.tokens));
+        return `<h${level}${id ? ` id="${escapeXml(id)}"` : ''}>${inline(token.tokens)}</h${level}>\n`;
+      }
+      case 'paragraph':
+        return `<p>${inline(token.tokens)}</p>\n`;
+      case 'text':
+        return token.tokens ? inline(token.tokens) : escapeXml(token.text);
+      case 'blockquote':
+        return `<blockquote>\n${block(token.tokens)}</blockquote>\n`;
+      case 'list': {
+        const tag = token.ordered ? 'ol' : 'ul';
+        const start = token.ordered && token.start !== '' && token.start !== 1 ? ` start="${token.start}"` : '';
+        const items = (token.items as Tokens.ListItem[])
+          .map(item => `<li>${block(item.tokens)}</li>\n`)
+          .join('');
+        return `<${tag}${start}>\n${items}</${tag}>\n`;
+      }
+      case 'code':
+        return `<pre><code>${escapeXml(token.text)}</code></pre>\n`;
+      case 'hr':
+        return '<hr/>\n';
+      case 'table': {
+        const table = token as Tokens.Table;
+        const cell = (c: Tokens.TableCell, tag: 'th' | 'td') => {
+          const align = c.align ? ` style="text-align: ${c.align}"` : '';
+          return `<${tag}${align}>${inline(c.tokens)}</${tag}>`;
+        };
+        const head = `<tr>${table.header.map(c => cell(c, 'th')).join('')}</tr>`;
+        const rows = table.rows.map(row => `<tr>${row.map(c => cell(c, 'td')).join('')}</tr>`).join('\n');
+        return `<table>\n<thead>${head}</thead>\n<tbody>\n${rows}\n</tbody>\n</table>\n`;
+      }
+      case 'space':
+      case 'html':
+        return '';
+      default:
+        return 'tokens' in token && token.tokens ? block(token.tokens) : '';
+    }
+  }).join('');
+
+  return block(tokens);
+};
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Inline markup a range must hold whole or not at all: links and images, and
+// emphasis or code pairs within a paragraph
+const INLINE_SPANS = [
+  /!?\[[^\]\n]*\]\([^)\n]*\)/g,
+  /(\*\*|__|~~|\*|_|`)(?=\S)(?:[^\n]|\n(?!\n))*?\S\1/g,
+];
+
+// Finds text selected in the rendered reader view within the markdown source.
+// Rendering drops markup (**, _, `, list markers, link targets...), so words
+// must appear in order but may be separated by any non-word characters.
+// Citation superscripts ("[2]") are only in the rendered view and are skipped.
+export const locateRenderedText = (markdown: string, selected: string): TextRange | null => {
+  const words = selected.replace(/\[\d+\]/g, ' ').match(/[\p{L}\p{N}]+/gu);
+  if (!words || words.length === 0) return null;
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // A link target "](url)" counts as a single separator
+  const pattern = new RegExp(escaped.join('(?:\\]\\([^)]*\\)|[^\\p{L}\\p{N}]){1,40}?'), 'u');
+  const match = pattern.exec(markdown);
+  if (!match) return null;
+
+  // Take emphasis markers wrapping the whole selection along with it
+  let start = match.index;
+  let end = start + match[0].length;
+  while (start > 0 && end < markdown.length && '*_~`'.includes(markdown[start - 1]) && markdown[start - 1] === markdown[end]) {
+    start--;
+    end++;
+  }
+
+  // An end that falls inside markup moves out past it, so an edit never
+  // leaves half of a pair behind
+  const spans = INLINE_SPANS.flatMap(re => [...markdown.matchAll(re)].map(m => [m.index!, m.index! + m[0].length]));
+  let snapped = true;
+  while (snapped) {
+    snapped = false;
+    for (const [from, to] of spans) {
+      const inside = (offset: number) => offset > from && offset < to;
+      if (inside(start) !== inside(end)) {
+        start = Math.min(start, from);
+        end = Math.max(end, to);
+        snapped = true;
+      }
+    }
+  }
+  return { start, end };
+};
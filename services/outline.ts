@@ -0,0 +1,82 @@
+import { BookData, BookPart, Chapter, OutlineSection } from "../types";
+
+// Parts > chapters > sections. Chapters stay a flat list in reading order, as
+// they are the unit that is written, read and exported; a chapter names its
+// part with partId. Sections live in the chapter's text, each under a "## "
+// heading with the section's title, so every consumer of chapter content
+// (reader, exporters, history) sees them without knowing about the outline.
+
+export interface PartGroup {
+  part?: BookPart; // Chapters outside any part form groups without one
+  number?: number; // Part number, counted from 1
+  chapters: { chapter: Chapter; index: number }[]; // index into book.outline
+}
+
+// Runs of consecutive chapters that share a part
+export const groupByPart = (book: Pick<BookData, 'outline' | 'parts'>): PartGroup[] => {
+  const groups: PartGroup[] = [];
+  let partNumber = 0;
+  book.outline.forEach((chapter, index) => {
+    const part = chapter.partId ? book.parts?.find(p => p.id === chapter.partId) : undefined;
+    const last = groups[groups.length - 1];
+    if (last && last.part?.id === part?.id) {
+      last.chapters.push({ chapter, index });
+    } else {
+      groups.push({ part, number: part ? ++partNumber : undefined, chapters: [{ chapter, index }] });
+    }
+  });
+  return groups;
+};
+
+export const partLabel = (group: PartGroup) =>
+  group.part ? `Part ${group.number}${group.part.title ? `: ${group.part.title}` : ''}` : '';
+
+// The part of every chapter, by index into book.outline; undefined outside parts
+export const chapterParts = (book: Pick<BookData, 'outline' | 'parts'>): (PartGroup | undefined)[] => {
+  const parts: (PartGroup | undefined)[] = [];
+  groupByPart(book).forEach(group => group.chapters.forEach(({ index }) => { parts[index] = group.part ? group : undefined; }));
+  return parts;
+};
+
+// Exporters put a part title before the chapter that opens the part
+export const opensPart = (group: PartGroup | undefined, index: number) => group?.chapters[0].index === index;
+
+export const sectionHeading = (section: OutlineSection) => `## ${section.title.replace(/\s+/g, ' ').trim()}`;
+
+// Offsets of the section headings in a chapter's text, in outline order. Stops
+// at the first section whose heading isn't there (not written yet, or renamed).
+export const locateSections = (content: string, sections: OutlineSection[] = []): number[] => {
+  const offsets: number[] = [];
+  let from = 0;
+  for (const section of sections) {
+    const heading = new RegExp(`^${sectionHeading(section).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[ \\t]*$`, 'm');
+    const match = heading.exec(content.slice(from));
+    if (!match) break;
+    offsets.push(from + match.index);
+    from += match.index + match[0].length;
+  }
+  return offsets;
+};
+
+// The sections of a chapter whose headings are in its text
+export const writtenSections = (chapter: Chapter): OutlineSection[] =>
+  chapter.sections?.slice(0, locateSections(chapter.content || '', chapter.sections).length) || [];
+
+export const sectionAnchor = (index: number) => `section-${index + 1}`;
+
+// Ids for the section headings of rendered chapter text (see renderHtml)
+export const sectionHeadingIds = (chapter: Chapter) => {
+  const sections = writtenSections(chapter);
+  return (depth: number, text: string) => {
+    if (depth !== 2) return undefined;
+    const index = sections.findIndex(s => s.title.replace(/\s+/g, ' ').trim() === text.trim());
+    return index >= 0 ? sectionAnchor(index) : undefined;
+  };
+};
+
+// Parts no chapter points to any more are dropped
+export const pruneParts = (parts: BookPart[] | undefined, outline: Chapter[]): BookPart[] | undefined =>
+  parts?.filter(part => outline.some(c => c.partId === part.id));
+
+// Key points are edited one per line, so they may contain blank entries
+export const cleanKeyPoints = (keyPoints?: string[]) => (keyPoints || []).map(k => k.trim()).filter(Boolean);
@@ -0,0 +1,96 @@
+import { BookConfig, BookData, BookPart, Chapter, OutlineAngle, OutlineVariant } from "../types";
+import * as AIService from "./aiService";
+import { pruneParts } from "./outline";
+import { createId } from "./ids";
+
+// Alternative outlines for one book. Each variant takes a different angle on
+// the same config; chapters can be picked from any of them into the outline
+// being edited, and the variants stay with the project until deleted.
+
+export const OUTLINE_ANGLES: { id: OutlineAngle; label: string; description: string }[] = [
+  { id: 'narrative', label: 'Narrative', description: 'A journey with a clear arc' },
+  { id: 'problem-solution', label: 'Problem / Solution', description: 'Pain points first, then the fixes' },
+  { id: 'step-by-step', label: 'Step-by-Step', description: 'A process followed in order' },
+  { id: 'listicle', label: 'Listicle', description: 'Self-contained tips and lessons' },
+];
+
+export const angleLabel = (variant: OutlineVariant) =>
+  OUTLINE_ANGLES.find(a => a.id === variant.angle)?.label || 'Set aside';
+
+// The outline fields of a chapter, without any written text
+const outlineChapter = (chapter: Chapter): Chapter => ({
+  id: chapter.id,
+  title: chapter.title,
+  description: chapter.description,
+  keyPoints: chapter.keyPoints,
+  partId: chapter.partId,
+  sections: chapter.sections,
+  status: 'pending',
+});
+
+export const generateOutlineVariant = async (config: BookConfig, angle: OutlineAngle, options?: AIService.RequestOptions): Promise<OutlineVariant> => {
+  const data = await AIService.generateBookOutline(config, options, angle);
+  return {
+    id: createId('variant'),
+    angle,
+    title: data.title || config.title || config.topic,
+    parts: data.parts.length ? data.parts : undefined,
+    outline: data.chapters.map(c => ({ ...c, id: createId('chap'), status: 'pending' })),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// Keeps the book's current outline as a variant, before it is replaced
+export const setAsideOutline = (book: Pick<BookData, 'config' | 'outline' | 'parts'>): OutlineVariant => ({
+  id: createId('variant'),
+  title: book.config.title,
+  parts: book.parts,
+  outline: book.outline.map(outlineChapter),
+  createdAt: new Date().toISOString(),
+});
+
+// Adds a chapter of a variant (or of the current outline) to another outline,
+// with the part it had there. The first pick keeps the chapter as it is, with
+// any written text; picking it again adds an outline-only copy.
+export const pickChapter = (
+  chapter: Chapter,
+  from: { parts?: BookPart[] },
+  target: { outline: Chapter[]; parts?: BookPart[] }
+): { outline: Chapter[]; parts?: BookPart[] } => {
+  const part = from.parts?.find(p => p.id === chapter.partId);
+  const picked: Chapter = !target.outline.some(c => c.id === chapter.id) ? { ...chapter, partId: part?.id } : {
+    ...outlineChapter(chapter),
+    id: createId('chap'),
+    sections: chapter.sections?.map(s => ({ ...s, id: createId('sec') })),
+    partId: part?.id,
+  };
+  const parts = part && !target.parts?.some(p => p.id === part.id) ? [...(target.parts || []), part] : target.parts;
+  // A part's chapters are consecutive, so the pick lands after its part's last chapter
+  const last = part ? target.outline.reduce((found, c, i) => c.partId === part.id ? i : found, -1) : -1;
+  const at = last >= 0 ? last + 1 : target.outline.length;
+  return { outline: [...target.outline.slice(0, at), picked, ...target.outline.slice(at)], parts };
+};
+
+export const removeChapter = (target: { outline: Chapter[]; parts?: BookPart[] }, chapterId: string) => {
+  const outline = target.outline.filter(c => c.id !== chapterId);
+  return { outline, parts: pruneParts(target.parts, outline) };
+};
+
+// Makes an edited outline the book's outline. When it was built on a variant,
+// that variant takes the place of the current outline, which is set aside.
+// Chapters picked into the current outline leave it where it is.
+export const applyOutline = (
+  book: BookData,
+  next: { title: string; outline: Chapter[]; parts?: BookPart[] },
+  baseVariantId?: string
+): BookData => {
+  const variants = (book.outlineVariants || []).filter(v => v.id !== baseVariantId);
+  const replaced = baseVariantId !== undefined && book.outline.length > 0;
+  return {
+    ...book,
+    config: { ...book.config, title: next.title },
+    outline: next.outline,
+    parts: next.parts?.length ? next.parts : undefined,
+    outlineVariants: replaced ? [...variants, setAsideOutline(book)] : variants,
+  };
+};
@@ -0,0 +1,757 @@
+import { jsPDF, GState } from "jspdf";
+import "svg2pdf.js";
+import { BookData } from "../types";
+import { figureMarkerId, inlineText, isSvgToken, normalizeSvg, parseMarkdown, svgSource, Token, Tokens } from "./markdown";
+import { isDataUrl } from "./fileUtils";
+import { addCitationMarkers, collectReferences, referencesMarkdown } from "./citations";
+import { chapterParts, opensPart, partLabel, sectionAnchor, sectionHeadingIds, writtenSections } from "./outline";
+import { chapterFigures, figureCaption, figureIdFromUrl, PlacedFigure } from "./figures";
+
+// Typesets a book into a real text PDF: selectable text, page breaks that
+// keep headings with their content, figures that never split, running
+// headers, page numbers, a linked table of contents and outline bookmarks.
+
+type Rgb = [number, number, number];
+type FontFamily = 'times' | 'helvetica' | 'courier';
+
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+interface TextStyle {
+  family: FontFamily;
+  size: number;
+  color: Rgb;
+  lineHeight: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface PositionedRun extends TextRun {
+  x: number;
+  width: number;
+}
+
+// A line of the contents: a part title or a numbered chapter
+interface TocEntry {
+  title: string;
+  number?: number;
+  page: number;
+}
+
+// Parts hold their chapters, chapters their sections
+interface Bookmark {
+  title: string;
+  page: number;
+  children: Bookmark[];
+}
+
+interface PageMeta {
+  chapterTitle?: string;
+  plain?: boolean; // no running header (cover, contents, chapter openers)
+}
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = { top: 72, bottom: 72, left: 64, right: 64 };
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN.left - MARGIN.right;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN.bottom;
+
+const COLORS: Record<string, Rgb> = {
+  text: [51, 65, 85],
+  heading: [15, 23, 42],
+  muted: [148, 163, 184],
+  accent: [79, 70, 229],
+  rule: [226, 232, 240],
+  codeBg: [241, 245, 249],
+  quote: [100, 116, 139],
+  cover: [15, 23, 42],
+};
+
+const BODY: TextStyle = { family: 'times', size: 11.5, color: COLORS.text, lineHeight: 1.55 };
+const HEADING_SIZES = [18, 15, 13, 12, 11.5, 11.5];
+const TOC_ENTRIES_PER_PAGE = 24;
+const TOC_ENTRY_HEIGHT = 24;
+const FIGURE_MAX_HEIGHT = 320;
+const CAPTION_LINE_HEIGHT = 13;
+
+const NOT_LATIN1 = /[^\x09\x0A\x0D\x20-\x7E\xA1-\xFF]/gu;
+
+const replaceTypography = (text: string) =>
+  text
+    .replace(/[‘’‚′]/g, "'")
+    .replace(/[“”„″]/g, '"')
+    .replace(/[–−]/g, '-')
+    .replace(/—/g, ' - ')
+    .replace(/…/g, '...')
+    .replace(/[•●▪]/g, '-')
+    .replace(/→/g, '->');
+
+// The standard PDF fonts only cover Latin-1; map common typography to ASCII
+// and drop what cannot be encoded rather than emitting garbage glyphs.
+export const sanitizePdfText = (text: string) => replaceTypography(text).replace(NOT_LATIN1, '');
+
+// Characters of the book that sanitizePdfText would drop, so the reader can be
+// told before exporting a PDF with missing text
+export const unsupportedPdfCharacters = (book: BookData): string[] => {
+  const texts = [
+    book.config.title,
+    book.config.topic,
+    book.config.authorName,
+    ...(book.parts || []).flatMap(part => [part.title, part.description]),
+    ...book.outline.flatMap(chapter => [chapter.title, chapter.content, ...(chapter.figures || []).map(f => f.caption)]),
+  ];
+  const found = new Set<string>();
+  for (const text of texts) {
+    for (const match of replaceTypography(text || '').matchAll(NOT_LATIN1)) found.add(match[0]);
+  }
+  return [...found];
+};
+
+export const imageFormat = (dataUrl: string) => {
+  const mime = dataUrl.slice(5, dataUrl.indexOf(';')).toLowerCase();
+  if (mime.includes('png')) return 'PNG';
+  if (mime.includes('webp')) return 'WEBP';
+  return 'JPEG';
+};
+
+const collectRuns = (tokens: Token[] = [], inherited: Omit<TextRun, 'text'> = {}): TextRun[] =>
+  tokens.flatMap((token): TextRun[] => {
+    switch (token.type) {
+      case 'strong':
+        return collectRuns(token.tokens, { ...inherited, bold: true });
+      case 'em':
+        return collectRuns(token.tokens, { ...inherited, italic: true });
+      case 'del':
+        return collectRuns(token.tokens, inherited);
+      case 'link':
+        return collectRuns(token.tokens, { ...inherited, link: token.href });
+      case 'codespan':
+        return [{ ...inherited, code: true, text: token.text }];
+      case 'br':
+        return [{ ...inherited, text: '\n' }];
+      case 'image':
+        // Figure markers inside a sentence have no place of their own
+        return figureIdFromUrl(token.href) ? [] : [{ ...inherited, italic: true, text: token.text }];
+      case 'html':
+        return /^<br\s*\/?>$/i.test(token.text.trim()) ? [{ ...inherited, text: '\n' }] : [];
+      case 'text':
+        return token.tokens ? collectRuns(token.tokens, inherited) : [{ ...inherited, text: token.text }];
+      default:
+        return 'text' in token ? [{ ...inherited, text: String(token.text) }] : [];
+    }
+  });
+
+export const exportPdf = async (book: BookData): Promise<Blob> => {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+  const { config, outline } = book;
+  const title = config.title || config.topic || 'Untitled';
+  const unitLabel = config.format === 'linkedin-carousel' ? 'Slide' : 'Chapter';
+  const citations = collectReferences(outline);
+  const { references } = citations;
+
+  const pageMeta: PageMeta[] = []; // indexed by 1-based page number
+  let currentChapterTitle: string | undefined;
+  let y = MARGIN.top;
+  // Headings written in the current chapter, to bookmark its sections
+  let headingPages: { depth: number; text: string; page: number }[] = [];
+  // Figures of the current chapter by id, and the page every figure landed on
+  let chapterFigureMap = new Map<string, PlacedFigure>();
+  const figurePages: { placed: PlacedFigure; page: number }[] = [];
+
+  // --- Primitives -------------------------------------------------------
+
+  const setFont = (style: TextStyle, run?: TextRun) => {
+    const family = run?.code ? 'courier' : style.family;
+    const bold = style.bold || run?.bold;
+    const italic = style.italic || run?.italic;
+    const fontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+    pdf.setFont(family, fontStyle);
+    pdf.setFontSize(run?.code ? style.size * 0.9 : style.size);
+  };
+
+  const lineHeightOf = (style: TextStyle) => style.size * style.lineHeight;
+
+  const newPage = (meta: PageMeta = {}) => {
+    pdf.addPage();
+    y = MARGIN.top;
+    pageMeta[pdf.getNumberOfPages()] = { chapterTitle: currentChapterTitle, ...meta };
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) newPage();
+  };
+
+  // Greedy word wrap across styled runs.
+  const wrapRuns = (runs: TextRun[], style: TextStyle, width: number): PositionedRun[][] => {
+    const lines: PositionedRun[][] = [];
+    let line: PositionedRun[] = [];
+    let x = 0;
+
+    const pushLine = () => {
+      // Trailing spaces don't count towards the line
+      const last = line[line.length - 1];
+      if (last) last.text = last.text.replace(/\s+$/, '');
+      lines.push(line);
+      line = [];
+      x = 0;
+    };
+
+    for (const run of runs) {
+      const text = sanitizePdfText(run.text);
+      for (const piece of text.split(/(\n|\s+)/)) {
+        if (!piece) continue;
+        if (piece === '\n') {
+          pushLine();
+          continue;
+        }
+        const isSpace = /^\s+$/.test(piece);
+        if (isSpace && x === 0) continue;
+
+        setFont(style, run);
+        let word = isSpace ? ' ' : piece;
+        let wordWidth = pdf.getTextWidth(word);
+
+        if (!isSpace && x > 0 && x + wordWidth > width) {
+          pushLine();
+        }
+        // A word wider than a whole line (a long URL, say) is cut where the line fills
+        while (!isSpace && word.length > 1 && wordWidth > width) {
+          let end = 1;
+          while (end < word.length - 1 && pdf.getTextWidth(word.slice(0, end + 1)) <= width) end++;
+          const chunk = word.slice(0, end);
+          line.push({ ...run, text: chunk, x, width: pdf.getTextWidth(chunk) });
+          pushLine();
+          word = word.slice(end);
+          wordWidth = pdf.getTextWidth(word);
+        }
+        line.push({ ...run, text: word, x, width: wordWidth });
+        x += wordWidth;
+      }
+    }
+    if (line.length) pushLine();
+    return lines;
+  };
+
+  const drawLine = (line: PositionedRun[], style: TextStyle, left: number, baseline: number) => {
+    // Merge neighbouring pieces with identical styling into single text objects
+    const merged: PositionedRun[] = [];
+    for (const piece of line) {
+      const prev = merged[merged.length - 1];
+      if (prev && prev.bold === piece.bold && prev.italic === piece.italic && prev.code === piece.code && prev.link === piece.link) {
+        prev.text += piece.text;
+        prev.width += piece.width;
+      } else {
+        merged.push({ ...piece });
+      }
+    }
+
+    for (const run of merged) {
+      setFont(style, run);
+      const color = run.link ? COLORS.accent : style.color;
+      pdf.setTextColor(...color);
+      pdf.text(run.text, left + run.x, baseline);
+      if (run.link) {
+        pdf.link(left + run.x, baseline - style.size, run.width, style.size * 1.2, { url: run.link });
+      }
+    }
+  };
+
+  // Writes wrapped text, breaking pages between lines (never leaving a single orphan line).
+  const writeRuns = (
+    runs: TextRun[],
+    style: TextStyle,
+    options: { indent?: number; width?: number } = {}
+  ) => {
+    const indent = options.indent || 0;
+    const width = options.width || CONTENT_WIDTH - indent;
+    const lineHeight = lineHeightOf(style);
+    const lines = wrapRuns(runs, style, width);
+
+    if (lines.length > 1) ensureSpace(lineHeight * 2);
+
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      drawLine(line, style, MARGIN.left + indent, y + style.size);
+      y += lineHeight;
+    });
+  };
+
+  // A caption stays on the page of its image
+  const writeImage = (dataUrl: string, maxHeight: number, caption?: string): boolean => {
+    try {
+      const props = pdf.getImageProperties(dataUrl);
+      let width = CONTENT_WIDTH;
+      let height = (props.height * width) / props.width;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = (props.width * height) / props.height;
+      }
+      pdf.setFont('helvetica', 'normal').setFontSize(9);
+      const captionLines = caption ? pdf.splitTextToSize(sanitizePdfText(caption), CONTENT_WIDTH - 40) as string[] : [];
+      ensureSpace(height + captionLines.length * CAPTION_LINE_HEIGHT + 8);
+      pdf.addImage(dataUrl, imageFormat(dataUrl), MARGIN.left + (CONTENT_WIDTH - width) / 2, y, width, height, undefined, 'FAST');
+      y += height;
+      if (captionLines.length) {
+        y += 8;
+        pdf.setFont('helvetica', 'normal').setFontSize(9);
+        pdf.setTextColor(...COLORS.quote);
+        captionLines.forEach(line => {
+          y += CAPTION_LINE_HEIGHT;
+          pdf.text(line, PAGE_WIDTH / 2, y - 3, { align: 'center' });
+        });
+      }
+      y += 24;
+      return true;
+    } catch (e) {
+      console.error("Skipping image in PDF", e);
+      return false;
+    }
+  };
+
+  const writeFigure = (placed: PlacedFigure) => {
+    const url = placed.figure.imageUrl;
+    if (!url || !isDataUrl(url)) return;
+    y += 12;
+    if (writeImage(url, FIGURE_MAX_HEIGHT, figureCaption(placed))) {
+      figurePages.push({ placed, page: pdf.getNumberOfPages() });
+    }
+  };
+
+  const writeSvg = async (svg: string) => {
+    const normalized = normalizeSvg(svg);
+    if (!normalized) return;
+
+    const host = document.createElement('div');
+    host.style.cssText = 'position:fixed;left:-9999px;top:0;visibility:hidden;';
+    host.innerHTML = normalized;
+    document.body.appendChild(host);
+
+    try {
+      const element = host.querySelector('svg')!;
+      const viewBox = element.viewBox?.baseVal;
+      const intrinsicWidth = viewBox?.width || parseFloat(element.getAttribute('width') || '') || 400;
+      const intrinsicHeight = viewBox?.height || parseFloat(element.getAttribute('height') || '') || 300;
+
+      let width = CONTENT_WIDTH * 0.9;
+      let height = (intrinsicHeight * width) / intrinsicWidth;
+      const maxHeight = (CONTENT_BOTTOM - MARGIN.top) * 0.7;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = (intrinsicWidth * height) / intrinsicHeight;
+      }
+
+      y += 12;
+      ensureSpace(height);
+      await pdf.svg(element, { x: MARGIN.left + (CONTENT_WIDTH - width) / 2, y, width, height });
+      y += height + 24;
+    } catch (e) {
+      console.error("Skipping SVG figure in PDF", e);
+    } finally {
+      host.remove();
+    }
+  };
+
+  // --- Markdown blocks --------------------------------------------------
+
+  const headingStyle = (depth: number): TextStyle => ({
+    family: 'helvetica',
+    bold: true,
+    size: HEADING_SIZES[Math.min(depth, 6) - 1],
+    color: COLORS.heading,
+    lineHeight: 1.3,
+  });
+
+  const writeBlocks = async (tokens: Token[], indent = 0, style: TextStyle = BODY) => {
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (isSvgToken(token)) {
+        await writeSvg(svgSource(token));
+        continue;
+      }
+      const figureId = figureMarkerId(token);
+      if (figureId) {
+        const placed = chapterFigureMap.get(figureId);
+        if (placed) writeFigure(placed);
+        continue;
+      }
+
+      switch (token.type) {
+        case 'heading': {
+          const hStyle = headingStyle(token.depth);
+          // Keep the heading on the same page as the first lines that follow it
+          y += hStyle.size * 0.9;
+          ensureSpace(lineHeightOf(hStyle) + lineHeightOf(BODY) * 3);
+          headingPages.push({ depth: token.depth, text: inlineText(token.tokens), page: pdf.getNumberOfPages() });
+          writeRuns(collectRuns(token.tokens), hStyle, { indent });
+          y += hStyle.size * 0.4;
+          break;
+        }
+        case 'paragraph':
+          writeRuns(collectRuns(token.tokens), style, { indent });
+          y += style.size * 0.7;
+          break;
+        case 'text':
+          writeRuns(collectRuns(token.tokens || [{ type: 'text', raw: token.text, text: token.text }]), style, { indent });
+          break;
+        case 'list': {
+          const list = token as Tokens.List;
+          const start = typeof list.start === 'number' ? list.start : 1;
+          for (let n = 0; n < list.items.length; n++) {
+            const item = list.items[n];
+            ensureSpace(lineHeightOf(style) * 2);
+            const markerY = y;
+            const markerPage = pdf.getNumberOfPages();
+            const itemIndent = indent + 18;
+
+            await writeBlocks(item.tokens, itemIndent, style);
+
+            // Draw the marker on the page where the item started
+            const currentPage = pdf.getNumberOfPages();
+            pdf.setPage(markerPage);
+            pdf.setTextColor(...COLORS.accent);
+            if (list.ordered) {
+              setFont({ ...style, family: 'helvetica', bold: true, size: style.size * 0.85 });
+              pdf.text(`${start + n}.`, MARGIN.left + indent, markerY + style.size);
+            } else {
+              pdf.setFillColor(...COLORS.accent);
+              pdf.circle(MARGIN.left + indent + 5, markerY + style.size * 0.65, 1.8, 'F');
+            }
+            pdf.setPage(currentPage);
+            y += 2;
+          }
+          y += style.size * 0.5;
+          break;
+        }
+        case 'blockquote': {
+          const quoteStyle: TextStyle = { ...style, italic: true, color: COLORS.quote };
+          y += 6;
+          const startPage = pdf.getNumberOfPages();
+          const startY = y;
+          await writeBlocks(token.tokens, indent + 18, quoteStyle);
+          // Bar down the left edge of every page the quote touches
+          const endPage = pdf.getNumberOfPages();
+          pdf.setDrawColor(...COLORS.accent);
+          pdf.setLineWidth(2);
+          for (let p = startPage; p <= endPage; p++) {
+            pdf.setPage(p);
+            const top = p === startPage ? startY : MARGIN.top;
+            const bottom = p === endPage ? y - style.size * 0.7 : CONTENT_BOTTOM;
+            pdf.line(MARGIN.left + indent + 4, top, MARGIN.left + indent + 4, bottom);
+          }
+          y += 6;
+          break;
+        }
+        case 'code': {
+          const codeStyle: TextStyle = { family: 'courier', size: 9, color: COLORS.heading, lineHeight: 1.45 };
+          const lineHeight = lineHeightOf(codeStyle);
+          y += 4;
+          for (const rawLine of token.text.split('\n')) {
+            const wrapped = pdf.setFont('courier', 'normal').setFontSize(codeStyle.size)
+              .splitTextToSize(sanitizePdfText(rawLine) || ' ', CONTENT_WIDTH - indent - 16) as string[];
+            for (const text of wrapped) {
+              ensureSpace(lineHeight);
+              pdf.setFillColor(...COLORS.codeBg);
+              pdf.rect(MARGIN.left + indent, y, CONTENT_WIDTH - indent, lineHeight, 'F');
+              pdf.setTextColor(...codeStyle.color);
+              pdf.text(text, MARGIN.left + indent + 8, y + codeStyle.size + 1);
+              y += lineHeight;
+            }
+          }
+          y += 12;
+          break;
+        }
+        case 'table': {
+          const table = token as Tokens.Table;
+          const columns = table.header.length;
+          const colWidth = (CONTENT_WIDTH - indent) / columns;
+          const cellStyle: TextStyle = { family: 'helvetica', size: 9, color: COLORS.text, lineHeight: 1.4 };
+          const padding = 5;
+
+          const writeRow = (cells: Tokens.TableCell[], header: boolean) => {
+            const rowStyle = { ...cellStyle, bold: header };
+            const wrapped = cells.map(c => wrapRuns(collectRuns(c.tokens), rowStyle, colWidth - padding * 2));
+            const rowHeight = Math.max(...wrapped.map(l => l.length), 1) * lineHeightOf(rowStyle) + padding * 2;
+            ensureSpace(rowHeight);
+            pdf.setDrawColor(...COLORS.rule);
+            pdf.setLineWidth(0.5);
+            if (header) {
+              pdf.setFillColor(...COLORS.codeBg);
+              pdf.rect(MARGIN.left + indent, y, CONTENT_WIDTH - indent, rowHeight, 'F');
+            }
+            wrapped.forEach((lines, c) => {
+              const cellX = MARGIN.left + indent + c * colWidth;
+              pdf.rect(cellX, y, colWidth, rowHeight, 'S');
+              lines.forEach((line, l) =>
+                drawLine(line, rowStyle, cellX + padding, y + padding + l * lineHeightOf(rowStyle) + rowStyle.size)
+              );
+            });
+            y += rowHeight;
+          };
+
+          y += 6;
+          writeRow(table.header, true);
+          table.rows.forEach(row => writeRow(row, false));
+          y += 16;
+          break;
+        }
+        case 'hr':
+          ensureSpace(24);
+          pdf.setDrawColor(...COLORS.rule);
+          pdf.setLineWidth(0.75);
+          pdf.line(MARGIN.left + CONTENT_WIDTH * 0.35, y + 12, MARGIN.left + CONTENT_WIDTH * 0.65, y + 12);
+          y += 24;
+          break;
+        default:
+          break;
+      }
+    }
+  };
+
+  // --- Cover ------------------------------------------------------------
+
+  pageMeta[1] = { plain: true };
+  pdf.setFillColor(...COLORS.cover);
+  pdf.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+  if (book.coverImage && isDataUrl(book.coverImage)) {
+    try {
+      const props = pdf.getImageProperties(book.coverImage);
+      const scale = Math.max(PAGE_WIDTH / props.width, PAGE_HEIGHT / props.height);
+      const w = props.width * scale;
+      const h = props.height * scale;
+      pdf.addImage(book.coverImage, imageFormat(book.coverImage), (PAGE_WIDTH - w) / 2, (PAGE_HEIGHT - h) / 2, w, h);
+      pdf.setGState(new GState({ opacity: 0.75 }));
+      pdf.setFillColor(...COLORS.cover);
+      pdf.rect(0, PAGE_HEIGHT * 0.6, PAGE_WIDTH, PAGE_HEIGHT * 0.4, 'F');
+      pdf.setGState(new GState({ opacity: 1 }));
+    } catch (e) {
+      console.error("Skipping cover image in PDF", e);
+    }
+  }
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont('helvetica', 'bold').setFontSize(30);
+  const titleLines = pdf.splitTextToSize(sanitizePdfText(title), PAGE_WIDTH - 120) as string[];
+  let coverY = PAGE_HEIGHT * 0.7;
+  titleLines.forEach(line => {
+    pdf.text(line, PAGE_WIDTH / 2, coverY, { align: 'center' });
+    coverY += 36;
+  });
+  if (config.authorName) {
+    pdf.setFont('helvetica', 'normal').setFontSize(12);
+    pdf.setTextColor(203, 213, 225);
+    pdf.text(sanitizePdfText(config.authorName).toUpperCase(), PAGE_WIDTH / 2, coverY + 16, { align: 'center', charSpace: 2 });
+  }
+
+  // --- Contents (reserved now, filled once page numbers are known) -------
+
+  const parts = chapterParts(book);
+  const tocEntryCount = outline.length + parts.filter((group, i) => opensPart(group, i)).length;
+  const tocPageCount = Math.max(1, Math.ceil(tocEntryCount / TOC_ENTRIES_PER_PAGE));
+  const tocFirstPage = 2;
+  for (let i = 0; i < tocPageCount; i++) newPage({ plain: true });
+
+  // --- Parts and chapters -------------------------------------------------
+
+  const tocEntries: TocEntry[] = [];
+  const bookmarks: Bookmark[] = [];
+
+  for (let i = 0; i < outline.length; i++) {
+    const chapter = outline[i];
+    const group = parts[i];
+
+    if (group?.part && opensPart(group, i)) {
+      currentChapterTitle = group.part.title;
+      newPage({ plain: true });
+      tocEntries.push({ title: partLabel(group), page: pdf.getNumberOfPages() });
+      bookmarks.push({ title: sanitizePdfText(partLabel(group)), page: pdf.getNumberOfPages(), children: [] });
+
+      y = PAGE_HEIGHT * 0.35;
+      pdf.setTextColor(...COLORS.accent);
+      pdf.setFont('helvetica', 'bold').setFontSize(10);
+      pdf.text(`PART ${group.number}`, PAGE_WIDTH / 2, y, { align: 'center', charSpace: 3 });
+      y += 40;
+      pdf.setTextColor(...COLORS.heading);
+      pdf.setFont('helvetica', 'bold').setFontSize(30);
+      (pdf.splitTextToSize(sanitizePdfText(group.part.title), CONTENT_WIDTH - 40) as string[]).forEach(line => {
+        pdf.text(line, PAGE_WIDTH / 2, y, { align: 'center' });
+        y += 36;
+      });
+      if (group.part.description) {
+        y += 10;
+        pdf.setTextColor(...COLORS.quote);
+        pdf.setFont('times', 'italic').setFontSize(13);
+        (pdf.splitTextToSize(sanitizePdfText(group.part.description), CONTENT_WIDTH - 80) as string[]).forEach(line => {
+          pdf.text(line, PAGE_WIDTH / 2, y, { align: 'center' });
+          y += 19;
+        });
+      }
+    }
+
+    currentChapterTitle = chapter.title;
+    newPage({ plain: true });
+    const chapterPage = pdf.getNumberOfPages();
+    tocEntries.push({ title: chapter.title, number: i + 1, page: chapterPage });
+    headingPages = [];
+    chapterFigureMap = new Map(chapterFigures(chapter, i, true).map(p => [p.figure.id, p]));
+
+    y = MARGIN.top + 40;
+    pdf.setTextColor(...COLORS.accent);
+    pdf.setFont('helvetica', 'bold').setFontSize(9);
+    pdf.text(`${unitLabel} ${i + 1}`.toUpperCase(), MARGIN.left, y, { charSpace: 2 });
+    y += 16;
+    writeRuns([{ text: chapter.title }], { family: 'helvetica', bold: true, size: 26, color: COLORS.heading, lineHeight: 1.2 });
+    y += 20;
+
+    if (chapter.imageUrl && isDataUrl(chapter.imageUrl)) {
+      writeImage(chapter.imageUrl, 280);
+    }
+
+    await writeBlocks(parseMarkdown(addCitationMarkers(chapter, citations, n => references[n - 1].uri)));
+
+    const headingId = sectionHeadingIds(chapter);
+    const sections = writtenSections(chapter).flatMap((section, j): Bookmark[] => {
+      const heading = headingPages.find(h => headingId(h.depth, h.text) === sectionAnchor(j));
+      return heading ? [{ title: sanitizePdfText(section.title), page: heading.page, children: [] }] : [];
+    });
+    const chapterBookmark = { title: `${i + 1}. ${sanitizePdfText(chapter.title)}`, page: chapterPage, children: sections };
+    (group ? bookmarks[bookmarks.length - 1].children : bookmarks).push(chapterBookmark);
+  }
+
+  // --- List of figures ----------------------------------------------------
+
+  let figuresPage: number | undefined;
+  if (figurePages.length) {
+    currentChapterTitle = 'List of Figures';
+    newPage({ plain: true });
+    figuresPage = pdf.getNumberOfPages();
+    y = MARGIN.top + 40;
+    writeRuns([{ text: 'List of Figures' }], { family: 'helvetica', bold: true, size: 26, color: COLORS.heading, lineHeight: 1.2 });
+    y += 20;
+    figurePages.forEach(({ placed, page }) => {
+      ensureSpace(TOC_ENTRY_HEIGHT);
+      const baseline = y + 14;
+      pdf.setFont('helvetica', 'bold').setFontSize(10);
+      pdf.setTextColor(...COLORS.accent);
+      pdf.text(sanitizePdfText(placed.label), MARGIN.left, baseline);
+      pdf.setFont('times', 'normal').setFontSize(12);
+      pdf.setTextColor(...COLORS.text);
+      const [caption] = pdf.splitTextToSize(sanitizePdfText(placed.figure.caption), CONTENT_WIDTH - 140) as string[];
+      pdf.text(caption || '', MARGIN.left + 70, baseline);
+      pdf.text(String(page), MARGIN.left + CONTENT_WIDTH, baseline, { align: 'right' });
+      pdf.setDrawColor(...COLORS.rule);
+      pdf.setLineWidth(0.5);
+      pdf.line(MARGIN.left, y + TOC_ENTRY_HEIGHT - 2, MARGIN.left + CONTENT_WIDTH, y + TOC_ENTRY_HEIGHT - 2);
+      pdf.link(MARGIN.left, y, CONTENT_WIDTH, TOC_ENTRY_HEIGHT, { pageNumber: page });
+      y += TOC_ENTRY_HEIGHT;
+    });
+  }
+
+  // --- References ---------------------------------------------------------
+
+  let referencesPage: number | undefined;
+  if (references.length) {
+    currentChapterTitle = 'References';
+    newPage({ plain: true });
+    referencesPage = pdf.getNumberOfPages();
+    y = MARGIN.top + 40;
+    writeRuns([{ text: 'References' }], { family: 'helvetica', bold: true, size: 26, color: COLORS.heading, lineHeight: 1.2 });
+    y += 20;
+    await writeBlocks(parseMarkdown(referencesMarkdown(references)), 0, { ...BODY, size: 10 });
+  }
+
+  // --- Contents page(s) ---------------------------------------------------
+
+  for (let p = 0; p < tocPageCount; p++) {
+    pdf.setPage(tocFirstPage + p);
+    let tocY = MARGIN.top;
+    if (p === 0) {
+      pdf.setTextColor(...COLORS.heading);
+      pdf.setFont('helvetica', 'bold').setFontSize(22);
+      pdf.text('Contents', MARGIN.left, tocY + 22);
+      tocY += 60;
+    }
+
+    const entries = tocEntries.slice(p * TOC_ENTRIES_PER_PAGE, (p + 1) * TOC_ENTRIES_PER_PAGE);
+    entries.forEach(entry => {
+      const pageNumber = entry.page;
+      const baseline = tocY + 14;
+
+      if (entry.number !== undefined) {
+        pdf.setFont('helvetica', 'bold').setFontSize(10);
+        pdf.setTextColor(...COLORS.accent);
+        pdf.text(String(entry.number).padStart(2, '0'), MARGIN.left, baseline);
+        pdf.setFont('times', 'normal').setFontSize(12);
+        pdf.setTextColor(...COLORS.text);
+      } else {
+        // Part titles run from the margin, above their chapters
+        pdf.setFont('helvetica', 'bold').setFontSize(11);
+        pdf.setTextColor(...COLORS.heading);
+      }
+      const indent = entry.number !== undefined ? 30 : 0;
+      const [entryTitle] = pdf.splitTextToSize(sanitizePdfText(entry.title), CONTENT_WIDTH - 60 - indent) as string[];
+      pdf.text(entryTitle || '', MARGIN.left + indent, baseline);
+      pdf.text(String(pageNumber), MARGIN.left + CONTENT_WIDTH, baseline, { align: 'right' });
+
+      pdf.setDrawColor(...COLORS.rule);
+      pdf.setLineWidth(0.5);
+      pdf.line(MARGIN.left + indent, tocY + TOC_ENTRY_HEIGHT - 2, MARGIN.left + CONTENT_WIDTH, tocY + TOC_ENTRY_HEIGHT - 2);
+
+      pdf.link(MARGIN.left, tocY, CONTENT_WIDTH, TOC_ENTRY_HEIGHT, { pageNumber });
+      tocY += TOC_ENTRY_HEIGHT;
+    });
+  }
+
+  // --- Bookmarks ----------------------------------------------------------
+
+  pdf.outline.add(null, 'Cover', { pageNumber: 1 });
+  pdf.outline.add(null, 'Contents', { pageNumber: tocFirstPage });
+  const addBookmarks = (entries: Bookmark[], parent: unknown) => entries.forEach(entry => {
+    addBookmarks(entry.children, pdf.outline.add(parent, entry.title, { pageNumber: entry.page }));
+  });
+  addBookmarks(bookmarks, null);
+  if (figuresPage) {
+    pdf.outline.add(null, 'List of Figures', { pageNumber: figuresPage });
+  }
+  if (referencesPage) {
+    pdf.outline.add(null, 'References', { pageNumber: referencesPage });
+  }
+
+  // --- Running headers and page numbers -----------------------------------
+
+  const totalPages = pdf.getNumberOfPages();
+  const headerTitle = sanitizePdfText(title);
+  for (let p = 2; p <= totalPages; p++) {
+    pdf.setPage(p);
+    const meta = pageMeta[p] || {};
+
+    if (!meta.plain) {
+      pdf.setFont('helvetica', 'normal').setFontSize(8);
+      pdf.setTextColor(...COLORS.muted);
+      const [left] = pdf.splitTextToSize(headerTitle, CONTENT_WIDTH / 2 - 10) as string[];
+      const [right] = pdf.splitTextToSize(sanitizePdfText(meta.chapterTitle || ''), CONTENT_WIDTH / 2 - 10) as string[];
+      pdf.text(left || '', MARGIN.left, MARGIN.top - 30);
+      pdf.text(right || '', MARGIN.left + CONTENT_WIDTH, MARGIN.top - 30, { align: 'right' });
+      pdf.setDrawColor(...COLORS.rule);
+      pdf.setLineWidth(0.5);
+      pdf.line(MARGIN.left, MARGIN.top - 22, MARGIN.left + CONTENT_WIDTH, MARGIN.top - 22);
+    }
+
+    pdf.setFont('helvetica', 'normal').setFontSize(9);
+    pdf.setTextColor(...COLORS.muted);
+    pdf.text(String(p), PAGE_WIDTH / 2, PAGE_HEIGHT - 36, { align: 'center' });
+  }
+
+  pdf.setProperties({
+    title: headerTitle,
+    author: sanitizePdfText(config.authorName || ''),
+    subject: sanitizePdfText(config.topic || ''),
+    creator: 'eBook Architect',
+  });
+
+  return pdf.output('blob');
+};
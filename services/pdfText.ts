@@ -0,0 +1,129 @@
+// Reads the text layer of a PDF without a full PDF engine: content streams are
+// inflated and their text-showing operators collected. That covers documents
+// exported from word processors; scanned PDFs have no text layer to read.
+
+const latin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return latin1(new Uint8Array(await new Response(stream).arrayBuffer()));
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+const decodeLiteral = (literal: string) =>
+  literal
+    .slice(1, -1)
+    .replace(/\\(\r\n|\n|\r)/g, '')
+    .replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) =>
+      /^[0-7]/.test(escape) ? String.fromCharCode(parseInt(escape, 8)) : ESCAPES[escape] ?? escape);
+
+const decodeHex = (hex: string) => {
+  const digits = hex.slice(1, -1).replace(/\s/g, '');
+  let text = '';
+  for (let i = 0; i < digits.length; i += 2) {
+    text += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+  return text;
+};
+
+// Strings, array brackets, numbers and operators of a content stream
+const CONTENT_TOKEN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|[A-Za-z'"*]+/g;
+
+const readContentStream = (content: string): string => {
+  let text = '';
+  let strings: string[] = [];
+  let numbers: number[] = [];
+  let inArray = false;
+  // Lines only; paragraph breaks can't be told apart from line breaks
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  for (const [token] of content.matchAll(CONTENT_TOKEN)) {
+    const first = token[0];
+    if (first === '(' || (first === '<' && token.length > 1)) {
+      strings.push(first === '(' ? decodeLiteral(token) : decodeHex(token));
+    } else if (token === '[') {
+      inArray = true;
+    } else if (token === ']') {
+      inArray = false;
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      // A large negative kerning inside a TJ array is a word space
+      if (inArray && Number(token) < -200) strings.push(' ');
+      numbers.push(Number(token));
+    } else {
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += strings.join('');
+          break;
+        case "'":
+        case '"':
+          newline();
+          text += strings.join('');
+          break;
+        case 'Td':
+        case 'TD':
+          if (numbers[numbers.length - 1]) newline();
+          else text += ' ';
+          break;
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          newline();
+          break;
+      }
+      strings = [];
+      numbers = [];
+    }
+  }
+  return text;
+};
+
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = latin1(bytes);
+  if (!raw.startsWith('%PDF')) {
+    throw new Error("Not a PDF file.");
+  }
+
+  const pages: string[] = [];
+  const streamStart = /<<((?:[^<>]|<[^<]|<<[^>]*>>)*)>>\s*stream\r?\n/g;
+  for (const match of raw.matchAll(streamStart)) {
+    const dict = match[1];
+    // Fonts, images, metadata and object streams carry no page text
+    if (/\/Length[123]\b|\/Type\s*\/(ObjStm|XRef|Metadata|EmbeddedFile)|\/Subtype\s*\/(?!Form)/.test(dict)) continue;
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) continue;
+
+    const data = bytes.subarray(start, end);
+    let content: string;
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        content = await inflate(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    } else {
+      content = latin1(data);
+    }
+    if (/\bBT\b/.test(content)) pages.push(readContentStream(content));
+  }
+
+  const text = pages.join('\n\n').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+  // Fonts with custom encodings come out as symbol soup
+  const readable = text.match(/[\p{L}\p{N}\s.,;:!?'"()-]/gu)?.length || 0;
+  if (text.length < 20 || readable / text.length < 0.85) {
+    throw new Error("No readable text found in this PDF. Scanned PDFs aren't supported; paste the text into a .txt file instead.");
+  }
+  return text;
+};
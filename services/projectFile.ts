@@ -0,0 +1,173 @@
+import JSZip from "jszip";
+import { BookData } from "../types";
+import { bytesToDataUrl, extensionForMime, isDataUrl, mimeForExtension, parseDataUrl } from "./fileUtils";
+
+// `.ebookarch` files are zip archives:
+//   project.json  - manifest + BookData, with every image swapped for an asset reference
+//   assets/*      - the images as raw binary (no base64 bloat, deduplicated)
+export const PROJECT_FILE_EXTENSION = '.ebookarch';
+export const PROJECT_FILE_VERSION = 1;
+
+const FILE_FORMAT_ID = 'ebook-architect-project';
+const MANIFEST_PATH = 'project.json';
+const ASSET_PREFIX = 'asset:';
+
+interface ProjectManifest {
+  format: typeof FILE_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  book: any;
+}
+
+// Each entry upgrades a manifest from version N to N + 1.
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // v0: bare BookData JSON with inlined data URLs (pre-archive exports)
+  0: (book) => ({
+    format: FILE_FORMAT_ID,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    book,
+  }),
+};
+
+// Walks any JSON-compatible value, replacing strings via `transform`.
+const mapStrings = async (value: any, transform: (s: string) => Promise<string>): Promise<any> => {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return Promise.all(value.map(v => mapStrings(v, transform)));
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([k, v]) => [k, await mapStrings(v, transform)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+export const exportProjectFile = async (book: BookData): Promise<Blob> => {
+  const zip = new JSZip();
+  const assets = new Map<string, string>(); // data URL -> asset path
+
+  const serializedBook = await mapStrings(book, async (value) => {
+    if (!isDataUrl(value)) return value;
+
+    let path = assets.get(value);
+    if (!path) {
+      const { mimeType, bytes } = parseDataUrl(value);
+      path = `assets/image-${assets.size + 1}.${extensionForMime(mimeType)}`;
+      zip.file(path, bytes, { binary: true, compression: 'STORE' }); // images are already compressed
+      assets.set(value, path);
+    }
+    return `${ASSET_PREFIX}${path}`;
+  });
+
+  const manifest: ProjectManifest = {
+    format: FILE_FORMAT_ID,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    book: { ...serializedBook, generatedAt: new Date(book.generatedAt).toISOString() },
+  };
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+};
+
+const migrate = (manifest: any): ProjectManifest => {
+  let current = manifest;
+  let version = current?.format === FILE_FORMAT_ID ? Number(current.version) : 0;
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error("Invalid project file: unknown version.");
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`This project was saved by a newer version of eBook Architect (format v${version}). Please update and try again.`);
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    current = MIGRATIONS[version](current);
+    version = current.version;
+  }
+  return current;
+};
+
+const CHAPTER_STATUSES = ['pending', 'generating_text', 'generating_image', 'completed', 'error'];
+
+const validateBook = (book: any): BookData => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid project file: ${reason}.`);
+  };
+
+  if (!book || typeof book !== 'object') fail("missing book data");
+
+  const config = book.config;
+  if (!config || typeof config !== 'object') fail("missing config");
+  for (const key of ['topic', 'title', 'authorName', 'audience', 'tone', 'style']) {
+    if (typeof config[key] !== 'string') fail(`config.${key} must be a string`);
+  }
+  if (typeof config.enableSearch !== 'boolean') fail("config.enableSearch must be a boolean");
+  if (typeof config.chapterCount !== 'number') fail("config.chapterCount must be a number");
+  if (config.format !== 'ebook' && config.format !== 'linkedin-carousel') fail(`unsupported format "${config.format}"`);
+  if (config.styleProfile !== undefined && !Array.isArray(config.styleProfile?.referenceImages)) fail("config.styleProfile.referenceImages must be an array");
+  if (config.provider !== undefined && !['gemini', 'openai-compatible', 'mock', 'replay'].includes(config.provider?.id)) fail("config.provider is not a supported AI provider");
+
+  if (!Array.isArray(book.outline)) fail("outline must be an array");
+  book.outline.forEach((chapter: any, i: number) => {
+    if (!chapter || typeof chapter !== 'object') fail(`chapter ${i + 1} is malformed`);
+    if (typeof chapter.id !== 'string' || typeof chapter.title !== 'string') fail(`chapter ${i + 1} is missing an id or title`);
+    if (typeof chapter.description !== 'string') fail(`chapter ${i + 1} is missing a description`);
+    if (chapter.content !== undefined && typeof chapter.content !== 'string') fail(`chapter ${i + 1} content must be text`);
+    if (!CHAPTER_STATUSES.includes(chapter.status)) fail(`chapter ${i + 1} has an unknown status`);
+    if (chapter.sections !== undefined && !Array.isArray(chapter.sections)) fail(`chapter ${i + 1} sections must be an array`);
+    if (chapter.figures !== undefined && !Array.isArray(chapter.figures)) fail(`chapter ${i + 1} figures must be an array`);
+  });
+  if (book.parts !== undefined && !Array.isArray(book.parts)) fail("parts must be an array");
+  if (book.outlineVariants !== undefined && !Array.isArray(book.outlineVariants)) fail("outlineVariants must be an array");
+  (book.outlineVariants || []).forEach((variant: any, i: number) => {
+    if (!variant || typeof variant.id !== 'string' || !Array.isArray(variant.outline)) fail(`outline variant ${i + 1} is malformed`);
+  });
+
+  if (book.coverImage !== undefined && typeof book.coverImage !== 'string') fail("coverImage must be a string");
+
+  const generatedAt = new Date(book.generatedAt);
+  if (isNaN(generatedAt.getTime())) fail("generatedAt is not a valid date");
+
+  return { ...book, generatedAt };
+};
+
+export const importProjectFile = async (file: Blob): Promise<BookData> => {
+  let zip: JSZip | null = null;
+  let raw: any;
+
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    // Not an archive; accept plain JSON exports as well.
+  }
+
+  try {
+    if (zip) {
+      const manifestFile = zip.file(MANIFEST_PATH);
+      if (!manifestFile) throw new Error(`Invalid project file: ${MANIFEST_PATH} missing.`);
+      raw = JSON.parse(await manifestFile.async('string'));
+    } else {
+      raw = JSON.parse(await file.text());
+    }
+  } catch (e: any) {
+    if (e instanceof SyntaxError) throw new Error("Invalid project file: manifest is not valid JSON.");
+    throw e;
+  }
+
+  const manifest = migrate(raw);
+
+  const book = await mapStrings(manifest.book, async (value) => {
+    if (!value.startsWith(ASSET_PREFIX)) return value;
+
+    const path = value.slice(ASSET_PREFIX.length);
+    const asset = zip?.file(path);
+    if (!asset) throw new Error(`Invalid project file: asset "${path}" missing.`);
+
+    const bytes = await asset.async('uint8array');
+    return bytesToDataUrl(bytes, mimeForExtension(path.split('.').pop() || ''));
+  });
+
+  return validateBook(book);
+};
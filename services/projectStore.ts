@@ -0,0 +1,217 @@
+import { BookData, GenerationStatus, ProjectRecord, ProjectSummary } from "../types";
+import { createId } from "./ids";
+
+// IndexedDB layout: full records (with all images) live in `projects`,
+// lightweight summaries for the library grid live in `summaries`.
+const DB_NAME = 'ebook-architect';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+
+const THUMBNAIL_WIDTH = 240;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("Project library unavailable: IndexedDB is not supported in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+        db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open project library."));
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+export const createProjectId = () => createId('proj');
+
+// Downscale the cover so the library grid doesn't have to load full-size images.
+const createThumbnail = (dataUrl: string): Promise<string | undefined> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = THUMBNAIL_WIDTH / img.width;
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(undefined);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = dataUrl;
+  });
+
+// Cheap fingerprint so we only rebuild the thumbnail when the cover changes.
+const coverSignature = (coverImage?: string) =>
+  coverImage ? `${coverImage.length}:${coverImage.slice(-32)}` : '';
+
+// Summaries carry the cover fingerprint alongside the public fields.
+type StoredSummary = ProjectSummary & { coverSignature: string };
+
+const buildSummary = async (record: ProjectRecord, previous?: StoredSummary): Promise<StoredSummary> => {
+  const signature = coverSignature(record.book.coverImage);
+
+  let coverThumbnail: string | undefined;
+  if (previous && previous.coverSignature === signature) {
+    coverThumbnail = previous.coverThumbnail;
+  } else if (record.book.coverImage) {
+    coverThumbnail = await createThumbnail(record.book.coverImage);
+  }
+
+  return {
+    id: record.id,
+    title: record.book.config.title || record.book.config.topic || 'Untitled Project',
+    format: record.book.config.format,
+    status: record.status,
+    chapterCount: record.book.outline.length,
+    coverThumbnail,
+    coverSignature: signature,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+  const summaries = await requestToPromise<StoredSummary[]>(tx.objectStore(SUMMARIES_STORE).getAll());
+  return summaries
+    .map(({ coverSignature, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | null> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const record = await requestToPromise<ProjectRecord | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+  return record || null;
+};
+
+// Writes to a project run one at a time, in the order they were asked for, so
+// a slow save (say, one building a new thumbnail) can't land after a later one
+// and put older data back.
+const projectWrites = new Map<string, Promise<unknown>>();
+
+const queueWrite = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+  const result = (projectWrites.get(id) || Promise.resolve()).then(write);
+  const settled = result.catch(() => undefined);
+  projectWrites.set(id, settled);
+  settled.then(() => {
+    if (projectWrites.get(id) === settled) projectWrites.delete(id);
+  });
+  return result;
+};
+
+const writeProject = async (record: ProjectRecord): Promise<ProjectSummary> => {
+  const db = await openDb();
+
+  // Thumbnail work happens outside the transaction; IndexedDB transactions
+  // auto-commit as soon as the event loop goes idle.
+  const previousTx = db.transaction(SUMMARIES_STORE, 'readonly');
+  const previous = await requestToPromise<StoredSummary | undefined>(previousTx.objectStore(SUMMARIES_STORE).get(record.id));
+  const summary = await buildSummary(record, previous);
+
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(record);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(tx);
+
+  const { coverSignature: _, ...publicSummary } = summary;
+  return publicSummary;
+};
+
+export const saveProject = (record: ProjectRecord): Promise<ProjectSummary> =>
+  queueWrite(record.id, () => writeProject(record));
+
+export const deleteProject = (id: string): Promise<void> =>
+  queueWrite(id, async () => {
+    const db = await openDb();
+    const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(tx);
+  });
+
+export const renameProject = (id: string, title: string): Promise<ProjectSummary> =>
+  queueWrite(id, async () => {
+    const record = await loadProject(id);
+    if (!record) throw new Error("Project not found.");
+
+    return writeProject({
+      ...record,
+      book: { ...record.book, config: { ...record.book.config, title } },
+      updatedAt: new Date(),
+    });
+  });
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const record = await loadProject(id);
+  if (!record) throw new Error("Project not found.");
+
+  const now = new Date();
+  const book: BookData = {
+    ...record.book,
+    config: { ...record.book.config, title: `${record.book.config.title} (Copy)` },
+  };
+
+  return saveProject({
+    ...record,
+    id: createProjectId(),
+    book,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// Generation can't survive a reload, so interrupted work is reopened in a
+// resumable state rather than as a phantom "in progress" run.
+export const normalizeForReopen = (record: ProjectRecord): ProjectRecord => {
+  const outline = record.book.outline.map(c =>
+    c.status === 'generating_text' || c.status === 'generating_image'
+      ? { ...c, status: 'pending' as const }
+      : c
+  );
+
+  let status = record.status;
+  if (status === GenerationStatus.GENERATING_BOOK) {
+    status = GenerationStatus.PAUSED;
+  } else if (status === GenerationStatus.GENERATING_OUTLINE || status === GenerationStatus.IDLE) {
+    status = GenerationStatus.REVIEWING_OUTLINE;
+  }
+
+  return { ...record, status, book: { ...record.book, outline } };
+};
@@ -0,0 +1,22 @@
+import { AIProviderId } from "../../types";
+
+// Keys live in this browser only; the Gemini key keeps its original storage slot.
+const STORAGE_KEYS: Partial<Record<AIProviderId, string>> = {
+  'gemini': 'gemini_api_key',
+  'openai-compatible': 'openai_compatible_api_key',
+};
+
+export const getApiKey = (provider: AIProviderId): string => {
+  const storageKey = STORAGE_KEYS[provider];
+  return (storageKey && localStorage.getItem(storageKey)) || '';
+};
+
+export const setApiKey = (provider: AIProviderId, key: string) => {
+  const storageKey = STORAGE_KEYS[provider];
+  if (!storageKey) return;
+  if (key.trim()) {
+    localStorage.setItem(storageKey, key.trim());
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+};
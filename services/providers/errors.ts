@@ -0,0 +1,113 @@
+// Every provider failure is normalised to an AIError so the request layer and
+// the UI can decide what to do without knowing which backend produced it.
+
+export type AIErrorKind =
+  | 'auth' // Missing or rejected API key
+  | 'quota' // Billing/daily quota exhausted, retrying won't help
+  | 'rate_limit' // Too many requests, retry after a pause
+  | 'safety' // Prompt or output blocked by a content filter
+  | 'transient' // Overloaded, 5xx, network hiccup
+  | 'invalid' // Bad request or unparseable response
+  | 'cancelled' // Aborted by the user (pause/cancel)
+  | 'unknown';
+
+export const RETRYABLE_KINDS: AIErrorKind[] = ['rate_limit', 'transient'];
+
+// Kinds that will fail the same way for every chapter, so a run should stop.
+export const FATAL_KINDS: AIErrorKind[] = ['auth', 'quota'];
+
+const KIND_LABELS: Record<AIErrorKind, string> = {
+  auth: 'Authentication failed',
+  quota: 'Quota exhausted',
+  rate_limit: 'Rate limited',
+  safety: 'Blocked by safety filter',
+  transient: 'Service unavailable',
+  invalid: 'Invalid request',
+  cancelled: 'Cancelled',
+  unknown: 'Request failed',
+};
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get label() {
+    return KIND_LABELS[this.kind];
+  }
+}
+
+// Retry-After header: seconds or an HTTP date
+export const parseRetryAfterHeader = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) return Math.round(parseFloat(value) * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Delay hints inside error messages: "retryDelay": "12s" (Google RetryInfo) or "retry in 12.5s"
+const retryHintFromMessage = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s|retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1] || match[2]) * 1000) : undefined;
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AIError('cancelled', "Request cancelled.");
+};
+
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if ((error as any)?.name === 'AbortError') return new AIError('cancelled', "Request cancelled.");
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status as number : undefined;
+  const retryAfterMs = retryHintFromMessage(message);
+  const options = { status, retryAfterMs };
+
+  if (status === 401 || status === 403 || /api key|unauthori[sz]ed|permission denied/i.test(message)) {
+    return new AIError('auth', message, options);
+  }
+  // Per-minute quotas also say "quota", but come with a retry delay
+  const limited = status === 429 || /RESOURCE_EXHAUSTED|rate.?limit|too many requests/i.test(message);
+  const quota = /quota|billing/i.test(message);
+  if (limited && (!quota || retryAfterMs !== undefined)) {
+    return new AIError('rate_limit', message, options);
+  }
+  if (quota) {
+    return new AIError('quota', message, options);
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT|content.?(filter|policy)/i.test(message)) {
+    return new AIError('safety', message, options);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|timed? ?out|network|failed to fetch|could not reach/i.test(message)) {
+    return new AIError('transient', message, options);
+  }
+  if (status === 400 || /parse|invalid/i.test(message)) {
+    return new AIError('invalid', message, options);
+  }
+  return new AIError('unknown', message, options);
+};
+
+// Short, human-readable reason for the UI and for a chapter's error field.
+export const describeError = (error: unknown): string => {
+  const aiError = classifyError(error);
+  let detail = aiError.message;
+  // Gemini and OpenAI wrap the useful part in a JSON error body
+  const json = detail.match(/\{[\s\S]*\}/)?.[0];
+  if (json) {
+    try {
+      detail = JSON.parse(json)?.error?.message || detail;
+    } catch { /* not JSON after all */ }
+  }
+  detail = detail.split('\n')[0].trim();
+  if (detail.length > 200) detail = `${detail.slice(0, 197)}...`;
+  return detail ? `${aiError.label}: ${detail}` : aiError.label;
+};
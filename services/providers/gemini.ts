@@ -0,0 +1,134 @@
+import { GenerateContentResponse, GoogleGenAI, GroundingMetadata } from "@google/genai";
+import { Grounding, ProviderSettings } from "../../types";
+import { mergeGrounding } from "../citations";
+import { AIProvider, JsonRequest } from "./types";
+import { getApiKey } from "./apiKeys";
+import { parseJsonText } from "./json";
+import { AIError, throwIfAborted } from "./errors";
+import { bytesToDataUrl, parseDataUrl } from "../fileUtils";
+
+export const GEMINI_TEXT_MODEL = 'gemini-3-pro-preview';
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const getClient = () => {
+  const apiKey = getApiKey('gemini') || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key missing. Please add your Gemini API Key in the settings.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Gemini reports blocked prompts/outputs in the response instead of failing the request.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new AIError('safety', response.promptFeedback?.blockReasonMessage || `Prompt blocked (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'].includes(finishReason)) {
+    throw new AIError('safety', `Response blocked (${finishReason}).`);
+  }
+};
+
+// Image inputs go inline, as base64 with their mime type
+const toInlineData = (dataUrl: string) => {
+  const { mimeType, bytes } = parseDataUrl(dataUrl);
+  return { inlineData: { mimeType, data: bytesToDataUrl(bytes, mimeType).split(',')[1] } };
+};
+
+// Web sources and the text spans they support. Non-web chunks are dropped.
+const toGrounding = (metadata: GroundingMetadata): Grounding => {
+  const indices = new Map<number, number>();
+  const sources: Grounding['sources'] = [];
+  (metadata.groundingChunks || []).forEach((chunk, i) => {
+    if (!chunk.web?.uri) return;
+    indices.set(i, sources.length);
+    sources.push({ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri });
+  });
+  const supports = (metadata.groundingSupports || []).map(support => ({
+    text: support.segment?.text || '',
+    sources: (support.groundingChunkIndices || []).filter(i => indices.has(i)).map(i => indices.get(i)!),
+  }));
+  return { sources, supports };
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): AIProvider => {
+  const textModel = settings.textModel || GEMINI_TEXT_MODEL;
+  const imageModel = settings.imageModel || GEMINI_IMAGE_MODEL;
+
+  return {
+    id: 'gemini',
+    supportsSearch: true,
+    supportsImages: true,
+
+    async generateJson<T>({ system, prompt, schema, signal }: JsonRequest) {
+      const response = await getClient().models.generateContent({
+        model: textModel,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          systemInstruction: system,
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          thinkingConfig: { thinkingBudget: 1024 }
+        }
+      });
+      assertNotBlocked(response);
+      return parseJsonText<T>(response.text || "");
+    },
+
+    async *streamText({ system, prompt, search, signal, onGrounding }) {
+      const streamResult = await getClient().models.generateContentStream({
+        model: textModel,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          systemInstruction: system,
+          tools: search ? [{ googleSearch: {} }] : [],
+        }
+      });
+
+      // Grounding metadata can arrive spread over several chunks
+      let grounding: Grounding | undefined;
+      for await (const chunk of streamResult) {
+        throwIfAborted(signal);
+        assertNotBlocked(chunk);
+        const metadata = chunk.candidates?.[0]?.groundingMetadata;
+        if (metadata) {
+          grounding = mergeGrounding(grounding, toGrounding(metadata));
+        }
+        const text = chunk.text;
+        if (text) {
+          yield text;
+        }
+      }
+      if (grounding?.sources.length) {
+        onGrounding?.(grounding);
+      }
+    },
+
+    async generateImage({ prompt, aspectRatio, referenceImages = [], signal }) {
+      const response = await getClient().models.generateContent({
+        model: imageModel,
+        contents: {
+          parts: [...referenceImages.map(toInlineData), { text: prompt }]
+        },
+        config: {
+          abortSignal: signal,
+          imageConfig: {
+            aspectRatio: aspectRatio,
+          }
+        }
+      });
+      assertNotBlocked(response);
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+      }
+
+      throw new Error("No image generated");
+    },
+  };
+};
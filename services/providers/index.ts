@@ -0,0 +1,80 @@
+import { AIProviderId, ProviderSettings } from "../../types";
+import { AIProvider } from "./types";
+import { createGeminiProvider, GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from "./gemini";
+import { createOpenAICompatibleProvider, OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_TEXT_MODEL } from "./openaiCompatible";
+import { createMockProvider } from "./mock";
+import { createRecordingProvider, createReplayProvider } from "./recording";
+
+export type { AIProvider, ImageAspectRatio, JsonSchema } from "./types";
+export { getApiKey, setApiKey } from "./apiKeys";
+export { DEFAULT_MOCK_SETTINGS } from "./mock";
+export { AIError, classifyError, describeError, FATAL_KINDS } from "./errors";
+export type { AIErrorKind } from "./errors";
+export { DEFAULT_RATE_LIMITS, getRateLimiter, withRequestLayer } from "./requestLayer";
+export type { RetryInfo } from "./requestLayer";
+export { clearRecording, exportRecording, getRecordingSize, getReplayFixtureInfo, loadReplayFixture } from "./recording";
+
+export interface ProviderInfo {
+  id: AIProviderId;
+  label: string;
+  description: string;
+  keyRequired: boolean;
+  live: boolean; // Calls a real model (models configurable, responses recordable)
+  defaults: { baseUrl?: string; textModel?: string; imageModel?: string };
+}
+
+export const PROVIDERS: Record<AIProviderId, ProviderInfo> = {
+  'gemini': {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Text, images and Google Search grounding',
+    keyRequired: true,
+    live: true,
+    defaults: { textModel: GEMINI_TEXT_MODEL, imageModel: GEMINI_IMAGE_MODEL },
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    description: 'Ollama, llama.cpp, vLLM or any /v1 endpoint',
+    keyRequired: false,
+    live: true,
+    defaults: { baseUrl: OPENAI_COMPATIBLE_BASE_URL, textModel: OPENAI_COMPATIBLE_TEXT_MODEL },
+  },
+  'mock': {
+    id: 'mock',
+    label: 'Mock (offline)',
+    description: 'Canned, deterministic output for demos and tests',
+    keyRequired: false,
+    live: false,
+    defaults: {},
+  },
+  'replay': {
+    id: 'replay',
+    label: 'Replay',
+    description: 'Plays back a recorded session from a fixture file',
+    keyRequired: false,
+    live: false,
+    defaults: {},
+  },
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = { id: 'gemini' };
+
+const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.id) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider(settings);
+    case 'replay':
+      return createReplayProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+export const getProvider = (settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS): AIProvider => {
+  const provider = createProvider(settings);
+  return settings.record && PROVIDERS[settings.id]?.live ? createRecordingProvider(provider) : provider;
+};
@@ -0,0 +1,12 @@
+// Models sometimes wrap JSON in markdown fences even when asked not to.
+export const parseJsonText = <T>(raw: string): T => {
+  const text = raw.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  if (!text) throw new Error("No response from AI");
+
+  try {
+    return JSON.parse(text) as T;
+  } catch (e) {
+    console.error("JSON Parse Error:", text);
+    throw new Error("Failed to parse AI response as JSON.");
+  }
+};
@@ -0,0 +1,228 @@
+import { Grounding, MockSettings, ProviderSettings } from "../../types";
+import { AIProvider, ImageAspectRatio, ImageRequest, JsonRequest, JsonSchema, TextRequest } from "./types";
+import { hashString } from "./recording";
+import { AIError, throwIfAborted } from "./errors";
+
+// Deterministic offline provider for demos, UI work and tests. Output is seeded
+// from the request, so the same prompt always produces the same book.
+
+export const DEFAULT_MOCK_SETTINGS: MockSettings = { latencyMs: 60, failureRate: 0 };
+
+const WORDS = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore ' +
+  'magna aliqua enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo ' +
+  'consequat duis aute irure in reprehenderit voluptate velit esse cillum fugiat nulla pariatur excepteur sint ' +
+  'occaecat cupidatat non proident sunt culpa qui officia deserunt mollit anim id est laborum'
+).split(' ');
+
+const IMAGE_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  '3:4': [768, 1024],
+  '16:9': [1024, 576],
+  '4:3': [1024, 768],
+  '1:1': [1024, 1024],
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+type Random = () => number;
+
+const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)];
+const between = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const words = (random: Random, min: number, max: number) =>
+  Array.from({ length: between(random, min, max) }, () => pick(random, WORDS));
+
+const titleCase = (random: Random, min = 2, max = 5) => words(random, min, max).map(capitalize).join(' ');
+const sentence = (random: Random) => `${capitalize(words(random, 6, 16).join(' '))}.`;
+const paragraph = (random: Random) => Array.from({ length: between(random, 3, 6) }, () => sentence(random)).join(' ');
+
+const svgFigure = (random: Random) => {
+  const bars = Array.from({ length: 5 }, (_, i) => {
+    const height = between(random, 30, 150);
+    return `  <rect x="${40 + i * 70}" y="${180 - height}" width="44" height="${height}" rx="6" fill="#6366f1" opacity="${(0.5 + i * 0.1).toFixed(1)}"/>`;
+  }).join('\n');
+  return [
+    '```svg',
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 420 220" width="420" height="220">',
+    '  <rect width="420" height="220" fill="#f8fafc"/>',
+    bars,
+    '  <line x1="30" y1="180" x2="400" y2="180" stroke="#94a3b8" stroke-width="2"/>',
+    `  <text x="210" y="208" text-anchor="middle" font-family="sans-serif" font-size="13" fill="#475569">${titleCase(random)}</text>`,
+    '</svg>',
+    '```',
+  ].join('\n');
+};
+
+// Writers asked for figures get a figure placeholder, see services/figures.ts
+const mockMarkdown = (random: Random, withFigure: boolean) => {
+  const sections = [
+    `## ${titleCase(random)}`,
+    paragraph(random),
+    paragraph(random),
+    Array.from({ length: between(random, 3, 5) }, () => `- **${titleCase(random, 1, 3)}**: ${sentence(random)}`).join('\n'),
+    `> ${sentence(random)}`,
+    svgFigure(random),
+    `## ${titleCase(random)}`,
+    paragraph(random),
+    ...(withFigure ? [`[FIGURE: ${titleCase(random, 2, 4)} | ${sentence(random)}]`] : []),
+    Array.from({ length: 3 }, (_, i) => `${i + 1}. ${sentence(random)}`).join('\n'),
+    paragraph(random),
+  ];
+  return sections.join('\n\n') + '\n';
+};
+
+// Builds a value matching the JSON schema, so any structured request gets a usable answer.
+// siblings is the length of the array the value sits in.
+const mockJson = (random: Random, schema: JsonSchema, prompt: string, key = '', siblings = 1): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(Object.entries(properties).map(([name, child]) => [name, mockJson(random, child, prompt, name, siblings)]));
+    }
+    case 'array': {
+      // Honour the requested chapter count when the prompt mentions one,
+      // spread over the parts; only long books get more than one part
+      const requested = prompt.match(/Count:\s*(\d+)/);
+      let count = between(random, 3, 5);
+      if (requested && key === 'parts') count = Number(requested[1]) >= 8 ? between(random, 2, 3) : 1;
+      else if (requested && key === 'chapters') count = Math.ceil(Number(requested[1]) / siblings);
+      else if (key === 'sections' || key === 'keyPoints') count = between(random, 2, 4);
+      return Array.from({ length: count }, () => mockJson(random, (schema.items || {}) as JsonSchema, prompt, key, count));
+    }
+    case 'number':
+    case 'integer':
+      return between(random, 1, 10);
+    case 'boolean':
+      return random() > 0.5;
+    default:
+      if (Array.isArray(schema.enum)) return pick(random, schema.enum);
+      return /title|name|label|term/i.test(key) ? titleCase(random) : sentence(random);
+  }
+};
+
+// Pretends a few sentences of the text were backed by web sources.
+const mockGrounding = (random: Random, markdown: string): Grounding => {
+  const sentences = markdown
+    .split('\n')
+    .filter(line => /^[A-Z]/.test(line))
+    .flatMap(line => line.match(/[^.]+\./g) || [])
+    .map(s => s.trim());
+  const sources = Array.from({ length: between(random, 2, 3) }, () => {
+    const slug = words(random, 2, 3).join('-');
+    return { uri: `https://example.com/${slug}`, title: `${titleCase(random)} | example.com` };
+  });
+  const supports = Array.from({ length: Math.min(sentences.length, between(random, 2, 4)) }, () => ({
+    text: pick(random, sentences),
+    sources: [between(random, 0, sources.length - 1)],
+  }));
+  return { sources, supports };
+};
+
+// Images drawn to match a reference take their hue from it, like a shared palette
+const mockImage = (random: Random, prompt: string, aspectRatio: ImageAspectRatio, reference?: string): string => {
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const hue = reference ? hashString(reference.slice(-64)) % 360 : Math.floor(random() * 360);
+  const label = (prompt.match(/"([^"]+)"/)?.[1] || 'Placeholder').slice(0, 40);
+
+  if (typeof document === 'undefined') {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="hsl(${hue},60%,55%)"/></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 65%, 60%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.globalAlpha = 0.15;
+  ctx.fillStyle = '#ffffff';
+  for (let i = 0; i < 6; i++) {
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, 40 + random() * width / 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = 0.9;
+  ctx.font = `bold ${Math.round(width / 20)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, width / 2, height / 2, width * 0.85);
+  return canvas.toDataURL('image/png');
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new AIError('cancelled', "Request cancelled."));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+// Failures are seeded too, but per attempt, so a retried request can succeed.
+const attempts = new Map<string, number>();
+
+const shouldFail = (settings: MockSettings, requestKey: string) => {
+  if (settings.failureRate <= 0) return false;
+  const attempt = (attempts.get(requestKey) || 0) + 1;
+  attempts.set(requestKey, attempt);
+  return createRandom(hashString(`${requestKey}#${attempt}`))() < settings.failureRate;
+};
+
+export const createMockProvider = (providerSettings: ProviderSettings): AIProvider => {
+  const settings = { ...DEFAULT_MOCK_SETTINGS, ...providerSettings.mock };
+
+  return {
+    id: 'mock',
+    supportsSearch: true,
+    supportsImages: true,
+
+    async generateJson<T>({ system, prompt, schema, signal }: JsonRequest) {
+      const key = `json:${system || ''}:${prompt}`;
+      throwIfAborted(signal);
+      await sleep(settings.latencyMs * 5, signal);
+      if (shouldFail(settings, key)) throw new AIError('transient', "Mock provider: injected JSON failure.");
+      return mockJson(createRandom(hashString(key)), schema, prompt) as T;
+    },
+
+    async *streamText({ system, prompt, search, signal, onGrounding }: TextRequest) {
+      const key = `text:${system || ''}:${prompt}`;
+      const random = createRandom(hashString(key));
+      const tokens = mockMarkdown(random, !!system?.includes('[FIGURE:')).split(/(?<=\s)/);
+      // Failures hit either before the first chunk (retryable) or half-way
+      // through, so both backoff and partial-content handling get exercised
+      const failAt = shouldFail(settings, key) ? (random() < 0.5 ? 0 : tokens.length / 2) : Infinity;
+
+      for (let i = 0; i < tokens.length; i += 8) {
+        throwIfAborted(signal);
+        await sleep(settings.latencyMs, signal);
+        if (i >= failAt) throw new AIError('transient', "Mock provider: injected stream failure.");
+        yield tokens.slice(i, i + 8).join('');
+      }
+      if (search) onGrounding?.(mockGrounding(random, tokens.join('')));
+    },
+
+    async generateImage({ prompt, aspectRatio, referenceImages, signal }: ImageRequest) {
+      const key = `image:${aspectRatio}:${prompt}`;
+      throwIfAborted(signal);
+      await sleep(settings.latencyMs * 10, signal);
+      if (shouldFail(settings, key)) throw new AIError('transient', "Mock provider: injected image failure.");
+      return mockImage(createRandom(hashString(key)), prompt, aspectRatio, referenceImages?.[0]);
+    },
+  };
+};
@@ -0,0 +1,165 @@
+import { ProviderSettings } from "../../types";
+import { AIProvider, ImageAspectRatio, JsonRequest } from "./types";
+import { getApiKey } from "./apiKeys";
+import { parseJsonText } from "./json";
+import { AIError, classifyError, parseRetryAfterHeader, throwIfAborted } from "./errors";
+import { bytesToDataUrl, extensionForMime, parseDataUrl } from "../fileUtils";
+
+// Speaks the OpenAI REST dialect (/chat/completions, /images/generations), which
+// Ollama, llama.cpp server, vLLM, LM Studio and hosted gateways all implement.
+// Image requests with reference images go to /images/edits, which fewer do.
+
+export const OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+export const OPENAI_COMPATIBLE_TEXT_MODEL = 'llama3.1';
+
+// Closest sizes accepted by the common image endpoints.
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+  '1:1': '1024x1024',
+  '3:4': '1024x1536',
+  '4:3': '1536x1024',
+  '16:9': '1536x1024',
+};
+
+type ChatMessage = { role: 'system' | 'user'; content: string };
+
+const toMessages = (system: string | undefined, prompt: string): ChatMessage[] =>
+  system ? [{ role: 'system', content: system }, { role: 'user', content: prompt }] : [{ role: 'user', content: prompt }];
+
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): AIProvider => {
+  const baseUrl = (settings.baseUrl || OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, '');
+  const textModel = settings.textModel || OPENAI_COMPATIBLE_TEXT_MODEL;
+
+  // JSON, or multipart for requests that upload images
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const isForm = body instanceof FormData;
+    const apiKey = getApiKey('openai-compatible');
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: isForm ? body : JSON.stringify(body),
+        signal,
+      });
+    } catch (e) {
+      throwIfAborted(signal);
+      throw new AIError('transient', `Could not reach ${baseUrl}. Check that the server is running and allows requests from this page (CORS).`);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new AIError('auth', `API Key rejected by ${baseUrl}. Please check the key in the settings.`, { status: response.status });
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      let message = detail;
+      let code = '';
+      try {
+        const body = JSON.parse(detail)?.error;
+        message = body?.message || detail;
+        code = body?.code || '';
+      } catch { /* plain-text error body */ }
+      const classified = classifyError(Object.assign(new Error(`${code} ${message}`), { status: response.status }));
+      throw new AIError(classified.kind, `${baseUrl}${path} failed (${response.status})${message ? `: ${message}` : ''}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfterHeader(response.headers.get('Retry-After')) ?? classified.retryAfterMs,
+      });
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    supportsSearch: false,
+    supportsImages: !!settings.imageModel,
+
+    async generateJson<T>({ system, prompt, schemaName, schema, signal }: JsonRequest) {
+      const response = await post('/chat/completions', {
+        model: textModel,
+        messages: toMessages(system, prompt),
+        response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } },
+      }, signal);
+      const data = await response.json();
+      if (data.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new AIError('safety', "Response blocked by the endpoint's content filter.");
+      }
+      return parseJsonText<T>(data.choices?.[0]?.message?.content || "");
+    },
+
+    async *streamText({ system, prompt, signal }) {
+      const response = await post('/chat/completions', {
+        model: textModel,
+        messages: toMessages(system, prompt),
+        stream: true,
+      }, signal);
+      if (!response.body) throw new Error("Streaming is not supported by this endpoint.");
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload) continue;
+          if (payload === '[DONE]') return;
+          const choice = JSON.parse(payload).choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new AIError('safety', "Response blocked by the endpoint's content filter.");
+          }
+          const text = choice?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      }
+    },
+
+    async generateImage({ prompt, aspectRatio, referenceImages = [], signal }) {
+      if (!settings.imageModel) {
+        throw new Error("No image model configured for this provider.");
+      }
+      let response: Response;
+      if (referenceImages.length) {
+        const form = new FormData();
+        form.append('model', settings.imageModel);
+        form.append('prompt', prompt);
+        form.append('n', '1');
+        form.append('size', IMAGE_SIZES[aspectRatio]);
+        referenceImages.forEach((dataUrl, i) => {
+          const { mimeType, bytes } = parseDataUrl(dataUrl);
+          form.append('image[]', new Blob([bytes], { type: mimeType }), `reference-${i + 1}.${extensionForMime(mimeType)}`);
+        });
+        response = await post('/images/edits', form, signal);
+      } else {
+        response = await post('/images/generations', {
+          model: settings.imageModel,
+          prompt,
+          n: 1,
+          size: IMAGE_SIZES[aspectRatio],
+          response_format: 'b64_json',
+        }, signal);
+      }
+      const image = (await response.json()).data?.[0];
+
+      if (image?.b64_json) {
+        return `data:image/png;base64,${image.b64_json}`;
+      }
+      if (image?.url) {
+        // Keep everything inline so projects and exports stay self-contained
+        const file = await fetch(image.url, { signal });
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        return bytesToDataUrl(bytes, file.headers.get('Content-Type') || 'image/png');
+      }
+      throw new Error("No image generated");
+    },
+  };
+};
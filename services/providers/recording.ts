@@ -0,0 +1,179 @@
+import { AIProviderId, Grounding } from "../../types";
+import { AIProvider, ImageRequest, JsonRequest, TextRequest } from "./types";
+import { throwIfAborted } from "./errors";
+
+// Record/replay: a live provider can be wrapped so every response is captured,
+// and the resulting fixture file replays the same session offline.
+//
+//   { format, version, provider, recordedAt, entries: [{ key, kind, label, response, grounding? }] }
+//
+// Entries are matched by a hash of the request. Requests that changed since
+// recording (e.g. an edited outline) fall back to the next unused entry of the
+// same kind, in recording order.
+
+export const FIXTURE_FORMAT = 'ebook-architect-fixtures';
+export const FIXTURE_VERSION = 1;
+
+type FixtureKind = 'json' | 'text' | 'image';
+
+interface FixtureEntry {
+  key: string;
+  kind: FixtureKind;
+  label: string; // First line of the prompt, to make fixture files reviewable
+  response: unknown; // JSON value, streamed chunks (string[]) or image data URL
+  grounding?: Grounding; // Search sources reported at the end of a text stream
+}
+
+export interface FixtureFile {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  provider: AIProviderId;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+// FNV-1a, enough to tell prompts apart
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const requestKey = (kind: FixtureKind, parts: unknown[]) =>
+  `${kind}-${hashString(JSON.stringify(parts)).toString(16).padStart(8, '0')}`;
+
+// Reference images are large, so the key only carries their hashes
+const imageKey = (request: ImageRequest) =>
+  requestKey('image', [request.prompt, request.aspectRatio, ...(request.referenceImages || []).map(hashString)]);
+
+const labelFor = (prompt: string) => prompt.trim().split('\n')[0].slice(0, 120);
+
+// Session-scoped state: what has been recorded, and the fixture being replayed.
+let recorded: FixtureEntry[] = [];
+let recordedProvider: AIProviderId = 'gemini';
+let replayFixture: { name: string; fixture: FixtureFile } | null = null;
+const replayed = new Set<FixtureEntry>();
+
+export const getRecordingSize = () => recorded.length;
+
+export const clearRecording = () => {
+  recorded = [];
+};
+
+export const exportRecording = (): Blob => {
+  const fixture: FixtureFile = {
+    format: FIXTURE_FORMAT,
+    version: FIXTURE_VERSION,
+    provider: recordedProvider,
+    recordedAt: new Date().toISOString(),
+    entries: recorded,
+  };
+  return new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+};
+
+export const loadReplayFixture = async (file: File): Promise<FixtureFile> => {
+  let fixture: any;
+  try {
+    fixture = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Invalid fixture file: not JSON.");
+  }
+  if (fixture?.format !== FIXTURE_FORMAT || !Array.isArray(fixture.entries)) {
+    throw new Error("Invalid fixture file: not an eBook Architect recording.");
+  }
+  if (fixture.version > FIXTURE_VERSION) {
+    throw new Error(`This fixture was recorded by a newer version (v${fixture.version}).`);
+  }
+  replayFixture = { name: file.name, fixture };
+  replayed.clear();
+  return fixture;
+};
+
+export const getReplayFixtureInfo = () =>
+  replayFixture ? { name: replayFixture.name, entries: replayFixture.fixture.entries.length } : null;
+
+export const createRecordingProvider = (inner: AIProvider): AIProvider => {
+  const record = (entry: FixtureEntry) => {
+    recordedProvider = inner.id;
+    recorded.push(entry);
+  };
+
+  return {
+    ...inner,
+
+    async generateJson<T>(request: JsonRequest) {
+      const response = await inner.generateJson<T>(request);
+      record({ key: requestKey('json', [request.system, request.prompt, request.schemaName]), kind: 'json', label: labelFor(request.prompt), response });
+      return response;
+    },
+
+    async *streamText(request: TextRequest) {
+      const chunks: string[] = [];
+      let grounding: Grounding | undefined;
+      const onGrounding = (value: Grounding) => {
+        grounding = value;
+        request.onGrounding?.(value);
+      };
+      for await (const chunk of inner.streamText({ ...request, onGrounding })) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      // Only complete streams are worth replaying
+      record({ key: requestKey('text', [request.system, request.prompt, request.search]), kind: 'text', label: labelFor(request.prompt), response: chunks, grounding });
+    },
+
+    async generateImage(request: ImageRequest) {
+      const response = await inner.generateImage(request);
+      record({ key: imageKey(request), kind: 'image', label: labelFor(request.prompt), response });
+      return response;
+    },
+  };
+};
+
+const takeEntry = (kind: FixtureKind, key: string): FixtureEntry => {
+  if (!replayFixture) {
+    throw new Error("No replay fixture loaded. Load a recording in the AI provider settings.");
+  }
+  const { entries } = replayFixture.fixture;
+  const entry = entries.find(e => e.key === key && !replayed.has(e))
+    || entries.find(e => e.key === key)
+    || entries.find(e => e.kind === kind && !replayed.has(e));
+  if (!entry) {
+    throw new Error(`The loaded recording has no more ${kind} responses.`);
+  }
+  if (entry.key !== key) {
+    console.warn(`Replay: no exact match for ${key}, using "${entry.label}"`);
+  }
+  replayed.add(entry);
+  return entry;
+};
+
+export const createReplayProvider = (): AIProvider => ({
+  id: 'replay',
+  supportsSearch: true,
+  supportsImages: true,
+
+  async generateJson<T>(request: JsonRequest) {
+    throwIfAborted(request.signal);
+    return takeEntry('json', requestKey('json', [request.system, request.prompt, request.schemaName])).response as T;
+  },
+
+  async *streamText(request: TextRequest) {
+    const entry = takeEntry('text', requestKey('text', [request.system, request.prompt, request.search]));
+    for (const chunk of entry.response as string[]) {
+      // Yield to the event loop so the UI still renders progressively
+      await new Promise(resolve => setTimeout(resolve, 0));
+      throwIfAborted(request.signal);
+      yield chunk;
+    }
+    if (entry.grounding) request.onGrounding?.(entry.grounding);
+  },
+
+  async generateImage(request: ImageRequest) {
+    throwIfAborted(request.signal);
+    return takeEntry('image', imageKey(request)).response as string;
+  },
+});
@@ -0,0 +1,195 @@
+import { RateLimits } from "../../types";
+import { AIProvider, ImageRequest, JsonRequest, TextRequest } from "./types";
+import { AIError, classifyError, RETRYABLE_KINDS, throwIfAborted } from "./errors";
+
+// Shared request layer wrapped around every provider: a per-project limiter
+// (parallel requests + requests per minute) and retries with exponential
+// backoff for rate limits and transient failures.
+
+export const DEFAULT_RATE_LIMITS: RateLimits = { maxConcurrent: 2, requestsPerMinute: 30 };
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+export interface RetryInfo {
+  attempt: number; // The attempt that just failed
+  maxAttempts: number;
+  delayMs: number;
+  error: AIError;
+}
+
+export interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<() => void>; // Resolves with a release function
+  readonly limits: RateLimits;
+  setLimits: (limits: RateLimits) => void;
+}
+
+const WINDOW_MS = 60000;
+
+// Resolves early when the signal aborts; callers check the signal afterwards
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+export const backoffDelay = (attempt: number, policy: RetryPolicy, error: AIError) => {
+  // Honour the server's hint, plus a little jitter so parallel requests don't return in lockstep
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs + Math.round(Math.random() * 500);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+export const createRateLimiter = (initialLimits: RateLimits): RateLimiter => {
+  let limits = initialLimits;
+  let active = 0;
+  let starts: number[] = []; // Request start times within the last minute
+  const waiting: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const waitForSlot = (signal?: AbortSignal) => new Promise<void>(resolve => {
+    const wake = () => {
+      // An aborted waiter leaves the queue so it doesn't swallow the next release
+      const index = waiting.indexOf(wake);
+      if (index >= 0) waiting.splice(index, 1);
+      signal?.removeEventListener('abort', wake);
+      resolve();
+    };
+    waiting.push(wake);
+    signal?.addEventListener('abort', wake, { once: true });
+  });
+
+  const acquire = async (signal?: AbortSignal): Promise<() => void> => {
+    while (true) {
+      throwIfAborted(signal);
+      if (active >= Math.max(1, limits.maxConcurrent)) {
+        await waitForSlot(signal);
+        continue;
+      }
+      const now = Date.now();
+      starts = starts.filter(t => now - t < WINDOW_MS);
+      if (starts.length >= Math.max(1, limits.requestsPerMinute)) {
+        await sleep(starts[0] + WINDOW_MS - now, signal);
+        continue;
+      }
+      active++;
+      starts.push(now);
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        release();
+      };
+    }
+  };
+
+  return {
+    acquire,
+    get limits() {
+      return limits;
+    },
+    setLimits: (next) => {
+      limits = next;
+      // Let queued requests re-check against a higher concurrency
+      waiting.splice(0).forEach(resolve => resolve());
+    },
+  };
+};
+
+const limiters = new Map<string, RateLimiter>();
+
+export const getRateLimiter = (key: string, limits: RateLimits = DEFAULT_RATE_LIMITS): RateLimiter => {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createRateLimiter(limits);
+    limiters.set(key, limiter);
+  } else if (limiter.limits.maxConcurrent !== limits.maxConcurrent || limiter.limits.requestsPerMinute !== limits.requestsPerMinute) {
+    limiter.setLimits(limits);
+  }
+  return limiter;
+};
+
+interface RequestLayerOptions {
+  limiter: RateLimiter;
+  policy?: RetryPolicy;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  { limiter, policy = DEFAULT_RETRY_POLICY, onRetry }: RequestLayerOptions,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const release = await limiter.acquire(signal);
+    let error: AIError;
+    try {
+      return await run();
+    } catch (e) {
+      error = classifyError(e);
+    } finally {
+      release();
+    }
+
+    // However the backend reported it, an aborted request is never retried
+    throwIfAborted(signal);
+    if (!RETRYABLE_KINDS.includes(error.kind) || attempt >= policy.maxAttempts) throw error;
+    const delayMs = backoffDelay(attempt, policy, error);
+    onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+    await sleep(delayMs, signal);
+  }
+};
+
+export const withRequestLayer = (provider: AIProvider, options: RequestLayerOptions): AIProvider => {
+  const { limiter, policy = DEFAULT_RETRY_POLICY, onRetry } = options;
+
+  return {
+    ...provider,
+
+    generateJson: <T>(request: JsonRequest) => withRetry(() => provider.generateJson<T>(request), options, request.signal),
+
+    generateImage: (request: ImageRequest) => withRetry(() => provider.generateImage(request), options, request.signal),
+
+    // Streams are only retried before the first chunk; after that the caller
+    // already holds partial text and has to decide what to do with it.
+    async *streamText(request: TextRequest) {
+      for (let attempt = 1; ; attempt++) {
+        const release = await limiter.acquire(request.signal);
+        let started = false;
+        let error: AIError;
+        try {
+          for await (const chunk of provider.streamText(request)) {
+            started = true;
+            yield chunk;
+          }
+          return;
+        } catch (e) {
+          error = classifyError(e);
+        } finally {
+          release();
+        }
+
+        throwIfAborted(request.signal);
+        if (started || !RETRYABLE_KINDS.includes(error.kind) || attempt >= policy.maxAttempts) throw error;
+        const delayMs = backoffDelay(attempt, policy, error);
+        onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+        await sleep(delayMs, request.signal);
+      }
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import { AIProviderId, Grounding } from "../../types";
+
+// The small set of primitives every model backend has to offer. Prompts live
+// in aiService.ts so all providers write the same book.
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ImageAspectRatio = '3:4' | '16:9' | '4:3' | '1:1';
+
+interface RequestBase {
+  signal?: AbortSignal; // Aborts the in-flight call (pause/cancel)
+}
+
+export interface JsonRequest extends RequestBase {
+  system?: string;
+  prompt: string;
+  schemaName: string;
+  schema: JsonSchema; // Plain JSON Schema (object/array/string types)
+}
+
+export interface TextRequest extends RequestBase {
+  system?: string;
+  prompt: string;
+  search?: boolean; // Ignored by providers without web grounding
+  onGrounding?: (grounding: Grounding) => void; // Sources behind a search-grounded stream, once it completes
+}
+
+export interface ImageRequest extends RequestBase {
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  referenceImages?: string[]; // Data URLs to work from: style references, or the image to edit
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  supportsSearch: boolean;
+  supportsImages: boolean;
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  streamText(request: TextRequest): AsyncGenerator<string>;
+  generateImage(request: ImageRequest): Promise<string>; // data URL
+}
@@ -0,0 +1,220 @@
+import { ReferenceChunk, ReferenceDocument, ReferenceDocumentKind, SourcePassage } from "../types";
+import { extractPdfText } from "./pdfText";
+import { createId } from "./ids";
+
+// The author's own reference material. Documents are split into passages when
+// attached; prompts get the passages that best match the outline or chapter
+// (BM25 over a local term index), tagged [S1], [S2]... so the written text
+// can say which passage each claim came from.
+
+export const REFERENCE_FILE_ACCEPT = '.md,.markdown,.txt,.text,.pdf,.html,.htm';
+
+const CHUNK_SIZE = 1200; // Characters per passage, roughly 200 words
+
+const KINDS: Record<string, ReferenceDocumentKind> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  pdf: 'pdf',
+  html: 'html',
+  htm: 'html',
+};
+
+export interface RetrievedPassage {
+  tag: string; // "S1", "S2"... as used in the prompt
+  document: ReferenceDocument;
+  chunk: ReferenceChunk;
+}
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, footer').forEach(node => node.remove());
+  // Headings become markdown headings so passages keep their section
+  doc.querySelectorAll('h1, h2, h3, h4').forEach(node => {
+    node.textContent = `\n\n${'#'.repeat(Number(node.tagName[1]))} ${node.textContent?.trim()}\n\n`;
+  });
+  doc.querySelectorAll('p, li, div, br, tr, blockquote, pre').forEach(node => node.append('\n\n'));
+  return doc.body?.textContent || '';
+};
+
+const splitLongParagraph = (paragraph: string): string[] => {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > CHUNK_SIZE) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Passages of about CHUNK_SIZE characters made of whole paragraphs, each
+// labelled with the markdown heading it falls under.
+export const chunkText = (text: string): ReferenceChunk[] => {
+  const chunks: ReferenceChunk[] = [];
+  let heading: string | undefined;
+  let current: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length) {
+      chunks.push({ id: `chunk-${chunks.length + 1}`, heading, text: current.join('\n\n') });
+    }
+    current = [];
+    length = 0;
+  };
+
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  for (const paragraph of paragraphs) {
+    const headingMatch = paragraph.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].replace(/[*_`#]/g, '').trim();
+      continue;
+    }
+    for (const part of paragraph.length > CHUNK_SIZE ? splitLongParagraph(paragraph) : [paragraph]) {
+      if (length > 0 && length + part.length > CHUNK_SIZE) flush();
+      current.push(part);
+      length += part.length;
+    }
+  }
+  flush();
+  return chunks;
+};
+
+export const importReferenceDocument = async (file: File): Promise<ReferenceDocument> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const kind = KINDS[extension] || (file.type === 'application/pdf' ? 'pdf' : file.type === 'text/html' ? 'html' : undefined);
+  if (!kind) {
+    throw new Error(`${file.name}: unsupported file type. Use markdown, plain text, PDF or HTML.`);
+  }
+
+  let text: string;
+  if (kind === 'pdf') {
+    text = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+  } else if (kind === 'html') {
+    text = htmlToText(await file.text());
+  } else {
+    text = await file.text();
+  }
+
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new Error(`${file.name}: the file has no text.`);
+  }
+  return { id: createId('doc'), name: file.name, kind, addedAt: new Date().toISOString(), chunks };
+};
+
+// --- Retrieval ---------------------------------------------------------------
+
+const STOP_WORDS = new Set((
+  'a an and are as at be by for from has have how in into is it its of on or our that the their this to was ' +
+  'were what when which who why will with you your can more most about than then them they these those'
+).split(' '));
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(term => term.length > 1 && !STOP_WORDS.has(term));
+
+interface IndexedChunk {
+  terms: Map<string, number>;
+  length: number;
+}
+
+// Chunks never change once imported, so their term counts are computed once
+const chunkIndex = new WeakMap<ReferenceChunk, IndexedChunk>();
+
+const indexChunk = (chunk: ReferenceChunk): IndexedChunk => {
+  let indexed = chunkIndex.get(chunk);
+  if (!indexed) {
+    const tokens = tokenize(`${chunk.heading || ''} ${chunk.text}`);
+    const terms = new Map<string, number>();
+    tokens.forEach(term => terms.set(term, (terms.get(term) || 0) + 1));
+    indexed = { terms, length: tokens.length };
+    chunkIndex.set(chunk, indexed);
+  }
+  return indexed;
+};
+
+export const retrievePassages = (documents: ReferenceDocument[] = [], query: string, limit = 6): RetrievedPassage[] => {
+  const candidates = documents.flatMap(document => document.chunks.map(chunk => ({ document, chunk, index: indexChunk(chunk) })));
+  const queryTerms = [...new Set(tokenize(query))];
+  if (candidates.length === 0 || queryTerms.length === 0) return [];
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const averageLength = candidates.reduce((sum, c) => sum + c.index.length, 0) / candidates.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const frequency = candidates.filter(c => c.index.terms.has(term)).length;
+    return [term, Math.log(1 + (candidates.length - frequency + 0.5) / (frequency + 0.5))];
+  }));
+
+  return candidates
+    .map(candidate => {
+      const score = queryTerms.reduce((sum, term) => {
+        const count = candidate.index.terms.get(term) || 0;
+        if (!count) return sum;
+        const norm = count + k1 * (1 - b + b * candidate.index.length / averageLength);
+        return sum + idf.get(term)! * (count * (k1 + 1)) / norm;
+      }, 0);
+      return { ...candidate, score };
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit)
+    .map((candidate, i) => ({ tag: `S${i + 1}`, document: candidate.document, chunk: candidate.chunk }));
+};
+
+export const formatPassagesForPrompt = (passages: RetrievedPassage[], cite = true): string => {
+  if (passages.length === 0) return '';
+  const lines = [
+    "REFERENCE MATERIAL (the author's own research and notes; build on it, prefer it over general knowledge and never contradict it):",
+    ...passages.map(p => `[${p.tag}] From "${p.document.name}"${p.chunk.heading ? `, ${p.chunk.heading}` : ''}:\n${p.chunk.text}`),
+  ];
+  if (cite) {
+    lines.push("When a sentence relies on a passage, end the sentence with the passage's tag, e.g. \"... grew 40% [S2].\" Only use the tags listed above.");
+  }
+  return lines.join('\n\n');
+};
+
+// Text before a tag, back to the previous sentence or line break
+const claimBefore = (text: string, offset: number) => {
+  const before = text.slice(Math.max(0, offset - 500), offset).trimEnd();
+  const boundaries = [...before.slice(0, -1).matchAll(/[.!?](?=\s)|\n/g)];
+  const start = boundaries.length ? boundaries[boundaries.length - 1].index! + 1 : 0;
+  return before.slice(start).replace(/^[\s#>*\-\d.]+/, '').replace(/\[S\d+[^\]]*\]/g, '').trim();
+};
+
+const PASSAGE_TAG = /\s?\[(S\d+(?:\s*[,;]\s*S\d+)*)\]/g;
+
+// Removes the [Sn] tags from generated text and records the passages they
+// point to, with the sentences that cited them.
+export const resolvePassageTags = (text: string, passages: RetrievedPassage[]): { content: string; sourcePassages: SourcePassage[] } => {
+  if (passages.length === 0) return { content: text, sourcePassages: [] };
+  const used = new Map<string, SourcePassage>();
+
+  const content = text.replace(PASSAGE_TAG, (match, list: string, offset: number) => {
+    const claim = claimBefore(text, offset);
+    for (const tag of list.split(/\s*[,;]\s*/)) {
+      const passage = passages.find(p => p.tag === tag);
+      if (!passage) continue;
+      const entry = used.get(tag) || {
+        documentId: passage.document.id,
+        documentName: passage.document.name,
+        chunkId: passage.chunk.id,
+        heading: passage.chunk.heading,
+        text: passage.chunk.text,
+        claims: [],
+      };
+      if (claim && !entry.claims.includes(claim)) entry.claims.push(claim);
+      used.set(tag, entry);
+    }
+    return '';
+  });
+
+  return { content, sourcePassages: [...used.values()] };
+};
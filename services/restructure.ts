@@ -0,0 +1,129 @@
+import { Chapter, SourcePassage } from "../types";
+import { applyChapterChange, appendVersion } from "./chapterHistory";
+import { mergeGrounding } from "./citations";
+import { locateSections, sectionHeading } from "./outline";
+import { createId } from "./ids";
+import { figureIdsIn } from "./figures";
+import type { OutlineNode } from "./aiService";
+
+// Splitting and merging chapters, before or after they are written. Written
+// text moves with the outline, and each resulting chapter records the change
+// in its version history.
+
+export interface SplitPoint {
+  label: string; // What the block is about, for the split prompt
+  offset?: number; // Where the block starts in the chapter's text, once written
+}
+
+const PARAGRAPH_LABEL_LENGTH = 100;
+
+// Places a chapter can be cut: before a section, else before a "## " heading,
+// else before a paragraph. Never inside a code or SVG block.
+export const splitPoints = (chapter: Chapter): SplitPoint[] => {
+  const content = chapter.content || '';
+  if (chapter.sections?.length) {
+    const offsets = locateSections(content, chapter.sections);
+    return chapter.sections.map((section, i) => ({ label: `${section.title}: ${section.description}`, offset: offsets[i] }));
+  }
+  if (!content.trim()) return [];
+
+  const fences = [...content.matchAll(/^```[\s\S]*?^```/gm)].map(m => [m.index!, m.index! + m[0].length]);
+  const outsideFences = (offset: number) => !fences.some(([from, to]) => offset > from && offset < to);
+
+  const headings = [...content.matchAll(/^## .+$/gm)].filter(m => outsideFences(m.index!));
+  if (headings.length >= 2) {
+    return headings.map(m => ({ label: m[0].slice(3).trim(), offset: m.index! }));
+  }
+  return [...content.matchAll(/(?:^|\n\s*\n)(?=\S)/g)]
+    .map(m => m.index! + m[0].length)
+    .filter(outsideFences)
+    .map(offset => ({ label: content.slice(offset, offset + PARAGRAPH_LABEL_LENGTH).split('\n')[0], offset }));
+};
+
+// Passages whose citing sentences are still in the text
+const passagesIn = (passages: SourcePassage[] | undefined, content: string) => {
+  const kept = (passages || [])
+    .map(passage => ({ ...passage, claims: passage.claims.filter(claim => content.includes(claim)) }))
+    .filter(passage => passage.claims.length > 0);
+  return kept.length ? kept : undefined;
+};
+
+const outlineFields = (node: OutlineNode) => ({ title: node.title, description: node.description, keyPoints: node.keyPoints });
+
+// The first chapter keeps the id, illustration and history; the second starts
+// its own history with its half of the text. Figures go with their markers.
+export const splitChapter = (chapter: Chapter, first: OutlineNode, second: OutlineNode, splitAt: number): [Chapter, Chapter] => {
+  const content = chapter.content || '';
+  const written = content.trim().length > 0;
+  const points = splitPoints(chapter);
+  const cut = points[splitAt]?.offset ?? content.length;
+  const head = content.slice(0, cut).trimEnd();
+  const tail = content.slice(cut).trim();
+  const sections = chapter.sections?.length
+    ? [chapter.sections.slice(0, splitAt), chapter.sections.slice(splitAt)].map(s => s.length ? s : undefined)
+    : [undefined, undefined];
+  const tailFigureIds = figureIdsIn(tail);
+  const figures = [
+    chapter.figures?.filter(f => !tailFigureIds.has(f.id)),
+    chapter.figures?.filter(f => tailFigureIds.has(f.id)),
+  ].map(list => list?.length ? list : undefined);
+
+  const firstChapter: Chapter = {
+    ...(written ? applyChapterChange(chapter, { content: head }, 'restructure') : chapter),
+    ...outlineFields(first),
+    sections: sections[0],
+    digest: undefined,
+    sourcePassages: passagesIn(chapter.sourcePassages, head),
+    figures: figures[0],
+  };
+  const secondChapter: Chapter = {
+    id: createId('chap'),
+    ...outlineFields(second),
+    partId: chapter.partId,
+    sections: sections[1],
+    status: tail ? chapter.status : 'pending',
+    content: tail || undefined,
+    grounding: tail ? chapter.grounding : undefined,
+    sourcePassages: passagesIn(chapter.sourcePassages, tail),
+    figures: figures[1],
+    versions: tail ? appendVersion([], 'restructure', { content: tail }) : undefined,
+  };
+  return [firstChapter, secondChapter];
+};
+
+// The second chapter's text follows the first's, under its title as a "## "
+// heading unless it opens with a heading of its own. An illustration only
+// fits one chapter, so the first one's is kept when both have one, along with
+// the prompt it was drawn from. Both chapters' figures are kept.
+export const mergeChapters = (first: Chapter, second: Chapter, merged: OutlineNode): Chapter => {
+  const secondContent = second.content?.trim() || '';
+  const secondText = !secondContent || /^#{1,2} /.test(secondContent)
+    ? secondContent
+    : `${sectionHeading(second)}\n\n${secondContent}`;
+  const content = [first.content?.trim(), secondText].filter(Boolean).join('\n\n');
+  const sections = [...(first.sections || []), ...(second.sections || [])];
+  const figures = [...(first.figures || []), ...(second.figures || [])];
+  const illustrated = first.imageUrl || !second.imageUrl ? first : second;
+
+  const passages = new Map<string, SourcePassage>();
+  for (const passage of [...(first.sourcePassages || []), ...(second.sourcePassages || [])]) {
+    const key = `${passage.documentId}:${passage.chunkId}`;
+    const existing = passages.get(key);
+    passages.set(key, existing ? { ...existing, claims: [...new Set([...existing.claims, ...passage.claims])] } : passage);
+  }
+
+  const base = content ? applyChapterChange(first, { content, imageUrl: illustrated.imageUrl }, 'restructure') : first;
+  return {
+    ...base,
+    ...outlineFields(merged),
+    imageUrl: illustrated.imageUrl,
+    imagePrompt: illustrated.imagePrompt,
+    sections: sections.length ? sections : undefined,
+    figures: figures.length ? figures : undefined,
+    status: first.status === 'completed' && second.status === 'completed' ? 'completed' : 'pending',
+    error: undefined,
+    digest: undefined,
+    grounding: second.grounding ? mergeGrounding(first.grounding, second.grounding) : first.grounding,
+    sourcePassages: passages.size ? [...passages.values()] : undefined,
+  };
+};
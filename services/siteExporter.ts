@@ -0,0 +1,328 @@
+import JSZip from "jszip";
+import { BookData, Chapter } from "../types";
+import { escapeXml, figureMarkerId, isSvgToken, normalizeSvg, parseMarkdown, renderHtml, svgSource } from "./markdown";
+import { extensionForMime, isDataUrl, parseDataUrl, toFileSlug } from "./fileUtils";
+import { addCitationMarkers, collectReferences, referencesHtml, referencesMarkdown } from "./citations";
+import { chapterParts, opensPart, partLabel, sectionAnchor, sectionHeadingIds, writtenSections } from "./outline";
+import { figureAltText, figureAnchor, figureCaption, listOfFigures, PlacedFigure } from "./figures";
+
+// Publishes a book for the web and for git:
+//
+//   markdown/NN-slug.md   - one file per chapter with YAML front matter
+//   markdown/references.md, site/references.html - sources of grounded text
+//   markdown/images/*     - images referenced by the markdown
+//   site/index.html       - cover, table of contents, list of figures
+//   site/NN-slug.html     - one page per chapter with prev/next navigation
+//   site/images/*, site/style.css, site/.nojekyll (GitHub Pages ready)
+
+interface AssetWriter {
+  add: (dataUrl: string, baseName: string) => string | null;
+  addSvg: (svg: string, baseName: string) => string | null;
+}
+
+// Typography mirrors BookReader: serif body, sans headings, slate palette, indigo accents.
+const STYLESHEET = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #f1f5f9; color: #475569; font-family: Georgia, "Times New Roman", serif; line-height: 1.9; }
+a { color: #4f46e5; }
+.layout { display: flex; min-height: 100vh; }
+.sidebar { width: 18rem; flex: none; background: #fff; border-right: 1px solid #e2e8f0; padding: 1.25rem 0.75rem; position: sticky; top: 0; height: 100vh; overflow-y: auto; font-family: "Plus Jakarta Sans", system-ui, -apple-system, "Segoe UI", sans-serif; }
+.sidebar h2 { font-size: 0.7rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.2em; color: #94a3b8; margin: 0 1rem 1rem; }
+.sidebar ol { list-style: none; margin: 0; padding: 0; }
+.sidebar a { display: flex; gap: 0.75rem; padding: 0.7rem 1rem; border-radius: 0.5rem; color: #475569; text-decoration: none; font-size: 0.875rem; line-height: 1.5; }
+.sidebar a:hover { background: #f8fafc; }
+.sidebar a.active { background: #eef2ff; color: #312e81; box-shadow: inset 0 0 0 1px #c7d2fe; }
+.sidebar .num { font-size: 0.65rem; font-weight: 700; color: #cbd5e1; margin-top: 0.2rem; width: 1.25rem; flex: none; }
+.sidebar .part { font-size: 0.65rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.15em; color: #cbd5e1; padding: 1rem 1rem 0.25rem; line-height: 1.5; }
+.sidebar .sections a { padding: 0.35rem 1rem 0.35rem 3rem; font-size: 0.8rem; color: #64748b; }
+main { flex: 1; display: flex; justify-content: center; }
+article { width: 100%; max-width: 48rem; background: #fff; box-shadow: 0 25px 50px -12px rgba(226, 232, 240, 0.5); min-height: 100vh; }
+.hero { width: 100%; height: 45vh; object-fit: cover; display: block; background: #f1f5f9; }
+.content { padding: 4rem 5rem; }
+.label { display: block; text-align: center; color: #4f46e5; font-family: system-ui, sans-serif; font-weight: 700; letter-spacing: 0.2em; text-transform: uppercase; font-size: 0.65rem; margin-bottom: 1rem; }
+h1.title { text-align: center; font-weight: 500; font-size: 2.25rem; color: #0f172a; line-height: 1.25; margin: 0 0 3rem; }
+.content h2, .content h3, .content h4 { font-family: "Plus Jakarta Sans", system-ui, sans-serif; color: #1e293b; font-weight: 700; }
+.content h2 { font-size: 1.5rem; margin: 2.5rem 0 1rem; color: #0f172a; }
+.content h3 { font-size: 1.25rem; margin: 2.5rem 0 1rem; }
+.content h4 { font-size: 1.1rem; margin: 2rem 0 0.75rem; text-transform: uppercase; letter-spacing: 0.025em; }
+.content p { margin: 0 0 1.5rem; }
+.content ul, .content ol { margin: 0 0 1.5rem 1.25rem; padding: 0; }
+.content li { margin-bottom: 0.5rem; }
+.content li::marker { color: #818cf8; }
+.content blockquote { border-left: 4px solid #c7d2fe; padding: 0.5rem 0 0.5rem 1.5rem; margin: 2rem 0; font-style: italic; color: #64748b; }
+.content strong { color: #1e293b; }
+.content pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 0.75rem; padding: 1rem; overflow-x: auto; font-size: 0.85rem; line-height: 1.6; }
+.content table { border-collapse: collapse; width: 100%; margin: 1.5rem 0; font-size: 0.95rem; }
+.content th, .content td { border: 1px solid #e2e8f0; padding: 0.5rem 0.75rem; }
+.content img { max-width: 100%; }
+figure { margin: 4rem 0; padding: 1.5rem; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 0.75rem; text-align: center; }
+figure img { width: 90%; }
+.references { font-size: 0.9rem; line-height: 1.6; word-wrap: break-word; }
+.references li { margin-bottom: 0.75rem; }
+figcaption { font-family: system-ui, sans-serif; font-size: 0.75rem; font-weight: 700; letter-spacing: 0.15em; text-transform: uppercase; color: #94a3b8; margin-top: 1rem; }
+.pager { display: flex; justify-content: space-between; align-items: center; border-top: 1px solid #f1f5f9; padding: 1.5rem; font-family: system-ui, sans-serif; font-size: 0.875rem; }
+.pager a { text-decoration: none; color: #94a3b8; font-weight: 500; }
+.pager a.next { background: #0f172a; color: #fff; font-weight: 700; padding: 0.75rem 1.5rem; border-radius: 9999px; }
+.pager a.next:hover { background: #4f46e5; }
+.cover { position: relative; height: 60vh; background: #0f172a; overflow: hidden; }
+.cover img { width: 100%; height: 100%; object-fit: cover; opacity: 0.8; }
+.cover .overlay { position: absolute; inset: 0; background: linear-gradient(to top, #0f172a, rgba(15, 23, 42, 0.4), transparent); display: flex; flex-direction: column; justify-content: flex-end; align-items: center; text-align: center; padding: 3rem; }
+.cover h1 { color: #fff; font-size: 3.25rem; font-weight: 900; line-height: 1.1; margin: 0 0 1.5rem; }
+.cover .topic { color: #e2e8f0; font-family: system-ui, sans-serif; letter-spacing: 0.2em; text-transform: uppercase; margin: 0 0 1rem; }
+.cover .author { color: rgba(255, 255, 255, 0.8); font-style: italic; font-size: 1.1rem; margin: 0; }
+.toc { padding: 3rem 5rem; }
+.toc ol { padding-left: 1.25rem; }
+.toc li { margin: 0.75rem 0; }
+.toc p { color: #94a3b8; font-size: 0.9rem; margin: 0.25rem 0 0; line-height: 1.6; }
+.toc .part { list-style: none; margin: 2rem 0 0.5rem -1.25rem; font-family: system-ui, sans-serif; font-weight: 700; color: #0f172a; }
+.toc ul { margin: 0.5rem 0 0; padding-left: 1.25rem; font-size: 0.9rem; }
+.toc ul li { margin: 0.25rem 0; }
+.toc .figures { list-style: none; padding-left: 0; }
+@media (max-width: 1023px) { .sidebar { display: none; } .content, .toc { padding: 3rem 2rem; } }
+`.trim();
+
+const chapterSlug = (chapter: Chapter, index: number) =>
+  `${String(index + 1).padStart(2, '0')}-${toFileSlug(chapter.title).replace(/_+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'chapter'}`;
+
+const createAssetWriter = (folder: JSZip): AssetWriter => {
+  const written = new Map<string, string>();
+  return {
+    add: (dataUrl, baseName) => {
+      const existing = written.get(dataUrl);
+      if (existing) return existing;
+      try {
+        const { mimeType, bytes } = parseDataUrl(dataUrl);
+        const path = `images/${baseName}.${extensionForMime(mimeType)}`;
+        folder.file(path, bytes, { binary: true });
+        written.set(dataUrl, path);
+        return path;
+      } catch (e) {
+        console.error(`Skipping unreadable image ${baseName}`, e);
+        return null;
+      }
+    },
+    addSvg: (svg, baseName) => {
+      const normalized = normalizeSvg(svg);
+      if (!normalized) return null;
+      const path = `images/${baseName}.svg`;
+      folder.file(path, normalized);
+      return path;
+    },
+  };
+};
+
+// Rewrites chapter markdown so every figure and embedded image is a file.
+const portableMarkdown = (content: string, slug: string, assets: AssetWriter, figures: Map<string, PlacedFigure>): string => {
+  let figure = 0;
+  let inline = 0;
+
+  const withFiles = parseMarkdown(content).map(token => {
+    const figureId = figureMarkerId(token);
+    if (figureId) {
+      const placed = figures.get(figureId);
+      const url = placed?.figure.imageUrl;
+      const path = url && (isDataUrl(url) ? assets.add(url, `${slug}-${figureAnchor(placed.figure)}`) : url);
+      return placed && path ? `![${figureAltText(placed.figure)}](${path})\n\n*${figureCaption(placed)}*\n\n` : '';
+    }
+    if (!isSvgToken(token)) return token.raw;
+    figure++;
+    const path = assets.addSvg(svgSource(token), `${slug}-figure-${figure}`);
+    return path ? `![Figure ${figure}](${path})\n\n` : '';
+  }).join('');
+
+  // Figure markers inside a sentence have no place of their own
+  return withFiles.replace(/!\[[^\]\n]*\]\(figure:[^)\s]*\)/g, '').replace(/!\[([^\]]*)\]\((data:[^)\s]+)\)/g, (match, alt, dataUrl) => {
+    inline++;
+    const path = assets.add(dataUrl, `${slug}-inline-${inline}`);
+    return path ? `![${alt}](${path})` : alt;
+  });
+};
+
+const frontMatter = (fields: Record<string, string | number | undefined>) =>
+  [
+    '---',
+    ...Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}: ${typeof value === 'number' ? value : JSON.stringify(value)}`),
+    '---',
+    '',
+  ].join('\n');
+
+const htmlPage = (pageTitle: string, bookTitle: string, language: string, sidebar: string, body: string) => `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeXml(pageTitle === bookTitle ? bookTitle : `${pageTitle} - ${bookTitle}`)}</title>
+<link rel="stylesheet" href="style.css"/>
+</head>
+<body>
+<div class="layout">
+${sidebar}
+<main>
+<article>
+${body}
+</article>
+</main>
+</div>
+</body>
+</html>
+`;
+
+export const exportSite = async (book: BookData, options: { language?: string } = {}): Promise<Blob> => {
+  const language = options.language || 'en';
+  const { config, outline } = book;
+  const title = config.title || config.topic || 'Untitled';
+  const unitLabel = config.format === 'linkedin-carousel' ? 'Slide' : 'Chapter';
+
+  const zip = new JSZip();
+  const root = zip.folder(toFileSlug(title))!;
+  const markdownFolder = root.folder('markdown')!;
+  const siteFolder = root.folder('site')!;
+  const markdownAssets = createAssetWriter(markdownFolder);
+  const siteAssets = createAssetWriter(siteFolder);
+
+  const slugs = outline.map(chapterSlug);
+  const citations = collectReferences(outline);
+  const { references } = citations;
+  const parts = chapterParts(book);
+  const sections = outline.map(writtenSections);
+  const figureList = listOfFigures(book, true);
+  const figuresById = outline.map((_, i) => new Map(figureList.filter(p => p.chapterIndex === i).map(p => [p.figure.id, p])));
+
+  // Part titles go before the chapter that opens the part
+  const partHeading = (i: number, render: (label: string, description: string) => string) => {
+    const group = parts[i];
+    return group?.part && opensPart(group, i) ? render(partLabel(group), group.part.description) : '';
+  };
+
+  const sidebar = (activeIndex: number) => `<nav class="sidebar">
+<h2>Table of Contents</h2>
+<ol>
+<li><a href="index.html"${activeIndex === -1 ? ' class="active"' : ''}><span class="num">&#8226;</span><span>Cover</span></a></li>
+${outline.map((chapter, i) => partHeading(i, label => `<li class="part">${escapeXml(label)}</li>\n`) +
+  `<li><a href="${slugs[i]}.html"${activeIndex === i ? ' class="active"' : ''}><span class="num">${String(i + 1).padStart(2, '0')}</span><span>${escapeXml(chapter.title)}</span></a>` +
+  (activeIndex === i && sections[i].length ? `\n<ol class="sections">\n${sections[i].map((s, j) => `<li><a href="#${sectionAnchor(j)}">${escapeXml(s.title)}</a></li>`).join('\n')}\n</ol>\n` : '') +
+  `</li>`).join('\n')}
+${references.length ? `<li><a href="references.html"${activeIndex === outline.length ? ' class="active"' : ''}><span class="num">&#8226;</span><span>References</span></a></li>` : ''}
+</ol>
+</nav>`;
+
+  // --- Markdown ------------------------------------------------------------
+
+  const coverPath = book.coverImage && isDataUrl(book.coverImage) ? markdownAssets.add(book.coverImage, 'cover') : null;
+  markdownFolder.file('README.md', [
+    `# ${title}`,
+    '',
+    config.authorName ? `*by ${config.authorName}*\n` : '',
+    coverPath ? `![Cover](${coverPath})\n` : '',
+    '## Contents',
+    '',
+    ...outline.flatMap((chapter, i) => [
+      partHeading(i, label => `\n### ${label}\n`),
+      `${i + 1}. [${chapter.title}](${slugs[i]}.md)`,
+      ...sections[i].map(s => `   - ${s.title}`),
+    ].filter(Boolean)),
+    ...(figureList.length ? ['', '## List of Figures', '', ...figureList.map(p => `- [${figureCaption(p)}](${slugs[p.chapterIndex]}.md)`)] : []),
+    references.length ? '\n[References](references.md)' : '',
+    '',
+  ].join('\n'));
+
+  outline.forEach((chapter, i) => {
+    const image = chapter.imageUrl && isDataUrl(chapter.imageUrl) ? markdownAssets.add(chapter.imageUrl, `${slugs[i]}-image`) : undefined;
+    const cited = addCitationMarkers(chapter, citations, n => references[n - 1].uri);
+    const body = portableMarkdown(cited, slugs[i], markdownAssets, figuresById[i]);
+    markdownFolder.file(`${slugs[i]}.md`, frontMatter({
+      title: chapter.title,
+      order: i + 1,
+      part: parts[i]?.part?.title,
+      description: chapter.description,
+      image: image || undefined,
+    }) + '\n' + body.trim() + '\n');
+  });
+
+  if (references.length) {
+    markdownFolder.file('references.md', `# References\n\n${referencesMarkdown(references)}`);
+  }
+
+  // --- Static site -----------------------------------------------------------
+
+  siteFolder.file('style.css', STYLESHEET);
+  siteFolder.file('.nojekyll', '');
+
+  const siteCover = book.coverImage && isDataUrl(book.coverImage) ? siteAssets.add(book.coverImage, 'cover') : null;
+  siteFolder.file('index.html', htmlPage(title, title, language, sidebar(-1), `<div class="cover">
+${siteCover ? `<img src="${siteCover}" alt=""/>` : ''}
+<div class="overlay">
+<h1>${escapeXml(title)}</h1>
+${config.topic ? `<p class="topic">${escapeXml(config.topic)}</p>` : ''}
+${config.authorName ? `<p class="author">by ${escapeXml(config.authorName)}</p>` : ''}
+</div>
+</div>
+<section class="toc">
+<span class="label">Contents</span>
+<ol>
+${outline.map((chapter, i) => partHeading(i, (label, description) => `<li class="part">${escapeXml(label)}${description ? `<p>${escapeXml(description)}</p>` : ''}</li>\n`) +
+  `<li><a href="${slugs[i]}.html">${escapeXml(chapter.title)}</a>${chapter.description ? `<p>${escapeXml(chapter.description)}</p>` : ''}` +
+  (sections[i].length ? `\n<ul>\n${sections[i].map((s, j) => `<li><a href="${slugs[i]}.html#${sectionAnchor(j)}">${escapeXml(s.title)}</a></li>`).join('\n')}\n</ul>\n` : '') +
+  `</li>`).join('\n')}
+</ol>
+</section>
+${figureList.length ? `<section class="toc">
+<span class="label">List of Figures</span>
+<ol class="figures">
+${figureList.map(p => `<li><a href="${slugs[p.chapterIndex]}.html#${figureAnchor(p.figure)}">${escapeXml(figureCaption(p))}</a></li>`).join('\n')}
+</ol>
+</section>` : ''}
+${outline.length ? `<nav class="pager"><span></span><a class="next" href="${slugs[0]}.html">Begin Reading &#8594;</a></nav>` : ''}`));
+
+  outline.forEach((chapter, i) => {
+    let figure = 0;
+    let inline = 0;
+    const cited = addCitationMarkers(chapter, citations, n => `references.html#ref-${n}`);
+    const content = renderHtml(parseMarkdown(cited), {
+      headingOffset: 1,
+      headingId: sectionHeadingIds(chapter),
+      renderSvg: (svg) => {
+        figure++;
+        const path = siteAssets.addSvg(svg, `${slugs[i]}-figure-${figure}`);
+        return path ? `<figure>\n<img src="${path}" alt="Figure ${figure}"/>\n<figcaption>Figure</figcaption>\n</figure>\n` : '';
+      },
+      renderFigure: (id) => {
+        const placed = figuresById[i].get(id);
+        const url = placed?.figure.imageUrl;
+        const path = url && (isDataUrl(url) ? siteAssets.add(url, `${slugs[i]}-${figureAnchor(placed.figure)}`) : url);
+        if (!placed || !path) return '';
+        return `<figure id="${figureAnchor(placed.figure)}">\n<img src="${escapeXml(path)}" alt="${escapeXml(placed.figure.caption)}"/>\n<figcaption>${escapeXml(figureCaption(placed))}</figcaption>\n</figure>\n`;
+      },
+      resolveImage: (src) => {
+        if (!isDataUrl(src)) return src;
+        inline++;
+        return siteAssets.add(src, `${slugs[i]}-inline-${inline}`);
+      },
+    });
+    const hero = chapter.imageUrl && isDataUrl(chapter.imageUrl) ? siteAssets.add(chapter.imageUrl, `${slugs[i]}-image`) : null;
+    const prev = i === 0 ? 'index.html' : `${slugs[i - 1]}.html`;
+    const next = i < outline.length - 1 ? `${slugs[i + 1]}.html` : null;
+
+    siteFolder.file(`${slugs[i]}.html`, htmlPage(chapter.title, title, language, sidebar(i), `${hero ? `<img class="hero" src="${hero}" alt="${escapeXml(chapter.title)}"/>` : ''}
+<div class="content">
+<span class="label">${parts[i] ? `${escapeXml(partLabel(parts[i]!))} &#183; ` : ''}${unitLabel} ${i + 1}</span>
+<h1 class="title">${escapeXml(chapter.title)}</h1>
+${content}
+</div>
+<nav class="pager">
+<a href="${prev}">&#8592; Previous</a>
+${next ? `<a class="next" href="${next}">Next ${unitLabel} &#8594;</a>` : '<span></span>'}
+</nav>`));
+  });
+
+  if (references.length) {
+    siteFolder.file('references.html', htmlPage('References', title, language, sidebar(outline.length), `<div class="content">
+<h1 class="title">References</h1>
+${referencesHtml(references)}</div>
+${outline.length ? `<nav class="pager"><a href="${slugs[outline.length - 1]}.html">&#8592; Previous</a><span></span></nav>` : ''}`));
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' });
+};
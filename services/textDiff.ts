@@ -0,0 +1,70 @@
+// Word-level diff for previews of AI edits and chapter versions. Tokens are
+// words and the whitespace between them, so joining every part's text gives
+// back the original (equal + removed) and the new (equal + added) strings.
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else if (text) parts.push({ type, text });
+};
+
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix are cheap and keep the LCS table small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, prefix).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      push(parts, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      push(parts, 'removed', midA[i++]);
+    } else {
+      push(parts, 'added', midB[j++]);
+    }
+  }
+  while (i < n) push(parts, 'removed', midA[i++]);
+  while (j < m) push(parts, 'added', midB[j++]);
+  push(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
+
+export const diffStats = (parts: DiffPart[]) => {
+  const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return {
+    added: parts.filter(p => p.type === 'added').reduce((sum, p) => sum + words(p.text), 0),
+    removed: parts.filter(p => p.type === 'removed').reduce((sum, p) => sum + words(p.text), 0),
+  };
+};
@@ -0,0 +1,41 @@
+import { BookConfig, StyleProfile } from "../types";
+import { readImageFile } from "./fileUtils";
+
+// The book's visual identity. The style profile is written into every image
+// prompt, and the cover and the author's reference images go along with each
+// request as image inputs, so every illustration is drawn to match them.
+
+export const MAX_REFERENCE_IMAGES = 3;
+const REFERENCE_IMAGE_SIZE = 1024; // Longest side; image inputs don't need more
+
+export const EMPTY_STYLE_PROFILE: StyleProfile = {
+  palette: '',
+  medium: '',
+  motifs: '',
+  avoid: '',
+  matchCover: true,
+  referenceImages: [],
+};
+
+// The images an illustration is drawn to match: the cover first, then the
+// author's references
+export const styleReferences = (config: BookConfig, coverImage?: string): string[] => {
+  const profile = config.styleProfile;
+  const cover = coverImage && profile?.matchCover !== false ? [coverImage] : [];
+  return [...cover, ...(profile?.referenceImages || [])].slice(0, MAX_REFERENCE_IMAGES + 1);
+};
+
+export const formatStyleForPrompt = (config: BookConfig, referenceCount: number): string => {
+  const profile = config.styleProfile;
+  const lines = [`Style: ${config.style}.`];
+  if (profile?.medium.trim()) lines.push(`Medium and rendering: ${profile.medium.trim()}.`);
+  if (profile?.palette.trim()) lines.push(`Colour palette: ${profile.palette.trim()}.`);
+  if (profile?.motifs.trim()) lines.push(`Recurring motifs and characters, drawn the same way every time: ${profile.motifs.trim()}.`);
+  if (referenceCount > 0) {
+    lines.push(`The attached ${referenceCount === 1 ? 'image is' : 'images are'} from the same book: match their palette, rendering style, line work and character design exactly, but not their composition or subject.`);
+  }
+  if (profile?.avoid.trim()) lines.push(`Avoid: ${profile.avoid.trim()}.`);
+  return lines.join('\n  ');
+};
+
+export const prepareReferenceImage = (file: File) => readImageFile(file, REFERENCE_IMAGE_SIZE);
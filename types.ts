@@ -3,21 +3,139 @@ export enum GenerationStatus {
   GENERATING_OUTLINE = 'GENERATING_OUTLINE',
   REVIEWING_OUTLINE = 'REVIEWING_OUTLINE',
   GENERATING_BOOK = 'GENERATING_BOOK',
+  PAUSED = 'PAUSED',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
+export interface Figure {
+  id: string;
+  caption: string;
+  prompt: string; // What the image shows, as the writer described it
+  imageUrl?: string;
+}
+
 export interface Chapter {
   id: string;
   title: string;
   description: string;
+  keyPoints?: string[];
+  partId?: string; // BookPart this chapter belongs to, see services/outline.ts
+  sections?: OutlineSection[]; // Written one by one, each under a "## " heading
   content?: string;
   imageUrl?: string;
+  imagePrompt?: string; // What the illustration shows; the style profile is added when it is drawn
+  figures?: Figure[]; // Placed in the text by "figure:" image markers, see services/figures.ts
   status: 'pending' | 'generating_text' | 'generating_image' | 'completed' | 'error';
+  error?: string; // Why the last attempt failed, when status is 'error'
+  partial?: boolean; // content is an interrupted stream; generation continues it
+  digest?: ChapterDigest; // What the finished text actually covers, for later chapters' prompts
+  versions?: ChapterVersion[]; // Oldest first, see services/chapterHistory.ts
+  grounding?: Grounding; // Web sources behind search-grounded text, see services/citations.ts
+  sourcePassages?: SourcePassage[]; // Reference material the text cites, see services/referenceDocs.ts
+}
+
+// Top level of a long book's outline. The chapters of a part are consecutive.
+export interface BookPart {
+  id: string;
+  title: string;
+  description: string;
+  keyPoints?: string[];
+}
+
+export interface OutlineSection {
+  id: string;
+  title: string;
+  description: string;
+  keyPoints?: string[];
+}
+
+// The structural approach an outline takes to the topic
+export type OutlineAngle = 'narrative' | 'problem-solution' | 'step-by-step' | 'listicle';
+
+// An alternative outline for the same book, kept with the project so chapters
+// can be picked from it later. See services/outlineVariants.ts.
+export interface OutlineVariant {
+  id: string;
+  angle?: OutlineAngle; // Missing for an outline set aside from the editor
+  title: string;
+  parts?: BookPart[];
+  outline: Chapter[]; // Outline fields only; variants are never written
+  createdAt: string; // ISO date
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+// A span of the generated text backed by one or more sources
+export interface GroundingSupport {
+  text: string; // The span as written by the model; located in the content by text
+  sources: number[]; // Indices into Grounding.sources
+}
+
+export interface Grounding {
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+}
+
+export type ChapterVersionSource = 'original' | 'generated' | 'manual' | 'ai-rewrite' | 'ai-edit' | 'image-edit' | 'upload' | 'revert' | 'restructure';
+
+// One change to a chapter. Only the fields that changed are stored, so the
+// full state at a version is rebuilt from the versions before it.
+export interface ChapterVersion {
+  id: string;
+  createdAt: string; // ISO timestamp
+  source: ChapterVersionSource;
+  content?: string;
+  imageUrl?: string;
+}
+
+// Compact record of a written chapter, fed to later chapters so they build on
+// it instead of repeating or contradicting it
+export interface ChapterDigest {
+  summary: string;
+  keyPoints: string[];
+  examples: string[]; // Examples, case studies and data already used
+  terms: string[]; // "Term: definition"
+}
+
+// One unit of work in a full-book generation run (see services/generationPipeline.ts)
+export interface GenerationJob {
+  id: string;
+  kind: 'cover' | 'text' | 'image' | 'figures';
+  chapterId?: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  note?: string; // Retry notice or failure reason
 }
 
 export type BookFormat = 'ebook' | 'linkedin-carousel';
 
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock' | 'replay';
+
+export interface RateLimits {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface MockSettings {
+  latencyMs: number; // Delay per streamed chunk
+  failureRate: number; // 0..1 chance that a request fails
+}
+
+// Which model backend a project talks to. API keys are kept per browser,
+// never in the project, so project files can be shared safely.
+export interface ProviderSettings {
+  id: AIProviderId;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1
+  textModel?: string; // Empty uses the provider default
+  imageModel?: string;
+  limits?: RateLimits; // Per-project request limits, defaults in requestLayer.ts
+  mock?: MockSettings;
+  record?: boolean; // Capture responses for offline replay
+}
+
 export interface BookConfig {
   topic: string;
   title: string;
@@ -28,11 +146,85 @@ export interface BookConfig {
   style: string;
   chapterCount: number;
   format: BookFormat;
+  provider?: ProviderSettings; // Missing on projects created before provider selection (Gemini)
+  bible?: BookBible;
+  referenceDocs?: ReferenceDocument[]; // The author's own material, retrieved into prompts
+  styleProfile?: StyleProfile;
+}
+
+// The book's visual identity, added to every image request so the cover and
+// illustrations look like one set (see services/visualStyle.ts).
+export interface StyleProfile {
+  palette: string;
+  medium: string; // e.g. flat vector, watercolour, isometric 3D
+  motifs: string; // Recurring motifs, characters or mascot
+  avoid: string; // Negative prompt
+  matchCover: boolean; // Send the cover along with every illustration request
+  referenceImages: string[]; // Data URLs, sent along with every image request
+}
+
+export type ReferenceDocumentKind = 'markdown' | 'text' | 'pdf' | 'html';
+
+export interface ReferenceChunk {
+  id: string;
+  heading?: string; // Nearest section heading, when the document has any
+  text: string;
+}
+
+export interface ReferenceDocument {
+  id: string;
+  name: string; // File name
+  kind: ReferenceDocumentKind;
+  addedAt: string; // ISO timestamp
+  chunks: ReferenceChunk[];
+}
+
+// A passage of reference material a chapter drew on, with the sentences that cite it
+export interface SourcePassage {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  heading?: string;
+  text: string;
+  claims: string[];
+}
+
+// House rules for a project, injected into chapter prompts and checked against
+// the written text (see services/bookBible.ts). List fields are edited as
+// one entry per line, so they may contain blank entries.
+export interface BookBible {
+  glossary: { term: string; definition: string }[];
+  spellings: { preferred: string; avoid: string }[]; // avoid: comma-separated variants
+  bannedPhrases: string[];
+  personas: { name: string; description: string }[]; // Recurring personas and case studies
+  styleRules: string[];
 }
 
 export interface BookData {
   config: BookConfig;
   coverImage?: string;
-  outline: Chapter[];
+  parts?: BookPart[];
+  outline: Chapter[]; // Chapters in reading order
+  outlineVariants?: OutlineVariant[];
   generatedAt: Date;
-}
\ No newline at end of file
+}
+
+export interface ProjectRecord {
+  id: string;
+  book: BookData;
+  status: GenerationStatus;
+  lastChapterIndex: number; // -1 is Cover
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  format: BookFormat;
+  status: GenerationStatus;
+  chapterCount: number;
+  coverThumbnail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}